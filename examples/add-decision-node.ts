@@ -2,9 +2,9 @@
  * Advanced example: Adding a decision node to a Flow
  *
  * This example demonstrates more advanced usage of the sf-flow-parser library:
- * - Creating a new decision node
+ * - Creating a new decision node with the decision builder
  * - Inserting it into an existing Flow
- * - Rerouting connections between nodes
+ * - Rerouting connections between nodes with insertNodeBefore
  * - Modifying the Flow structure
  *
  * Run with:
@@ -12,13 +12,13 @@
  */
 
 import {
-  BaseFlowNodeWithConnector,
-  findParentFlowNodes,
-  getConnectors,
+  condition,
+  decision,
+  insertNodeBefore,
   parseFromFile,
   stringifyToFile,
 } from "../src/main.ts";
-import {FlowCondition, FlowDecision} from "@salesforce/types/metadata";
+import type { FlowDecision } from "@salesforce/types/metadata";
 
 /**
  * Create a decision node with the specified connections
@@ -35,41 +35,15 @@ function createDecisionNode(
   conditionTarget: string,
   fieldName = "$Record.SomeField__c",
 ): FlowDecision {
-  // Create a condition that checks if the field equals "SomeValue"
-  const condition: FlowCondition = {
-    leftValueReference: fieldName,
-    operator: "EqualTo",
-    rightValue: {
-      stringValue: "SomeValue",
-    },
-    processMetadataValues: [],
-  };
-
-  return {
-    name: name,
-    label: "Custom Decision",
-    locationX: 0,
-    locationY: 0,
-    processMetadataValues: [],
-    defaultConnector: {
-      targetReference: defaultTarget,
-      processMetadataValues: [],
-    },
-    defaultConnectorLabel: "Default",
-    rules: [
-      {
-        name: "Condition1",
-        conditionLogic: "and",
-        conditions: [condition],
-        connector: {
-          targetReference: conditionTarget,
-          processMetadataValues: [],
-        },
-        label: "Condition 1",
-        processMetadataValues: [],
-      },
-    ],
-  } as FlowDecision;
+  // Route to the condition target if the field equals "SomeValue"
+  return decision(name)
+    .label("Custom Decision")
+    .rule("Condition1", condition(fieldName, "EqualTo", "SomeValue"), {
+      label: "Condition 1",
+      target: conditionTarget,
+    })
+    .defaultTo(defaultTarget, "Default")
+    .build();
 }
 
 /**
@@ -118,35 +92,16 @@ function main() {
 
     console.log(`Created decision node: ${decisionNode.name}`);
 
-    // Method 1: Find and update parent nodes manually
-    const parents = findParentFlowNodes(flow, targetName);
-    console.log(`Found ${parents.length} parent nodes`);
-
-    parents.forEach((parent) => {
-      console.log(`Updating connectors in parent: ${parent.name}`);
-      getConnectors(parent as BaseFlowNodeWithConnector).forEach(
-        (connector) => {
-          if (connector.targetReference === targetName) {
-            console.log(
-              `  Changing connector target from ${connector.targetReference} to ${decisionNode.name}`,
-            );
-            connector.targetReference = decisionNode.name || "";
-          }
-        },
+    // Insert the decision in front of the target subflow: all parents of the
+    // subflow are rerouted to the decision and the decision is added to
+    // flow.decisions
+    const { changes } = insertNodeBefore(flow, targetName, decisionNode);
+    changes.forEach((change) => {
+      console.log(
+        `  Changed ${change.path} from ${change.from ?? "nothing"} to ${change.to}`,
       );
     });
 
-    // Method 2: Alternative approach using the reparentNode function
-    // Uncomment the line below to use this approach instead
-    // const updatedCount = reparentNode(flow, targetName, decisionNode.name || "");
-    // console.log(`Updated ${updatedCount} connections using reparentNode function`);
-
-    // Add the decision node to the Flow
-    if (!flow.decisions) {
-      flow.decisions = [];
-    }
-    flow.decisions.push(decisionNode);
-
     // Write the modified Flow back to a file
     console.log(`Writing modified Flow to ${outputPath}...`);
     stringifyToFile(flow, outputPath);
@@ -0,0 +1,267 @@
+/**
+ * Generate src/lib/schema.ts from the @salesforce/types metadata definitions
+ *
+ * The schema lists the properties of every type reachable from `Flow` in the
+ * order the Metadata API serializes them: inherited properties first (from the
+ * root base type down), then the properties of the type itself, each group in
+ * declaration order. Numbers the API declares as doubles are typed `double`,
+ * Date properties `date`, `datetime` or `time` as the API declares them.
+ * It also lists the path of every array property below `Flow`.
+ *
+ * Usage:
+ * deno run --allow-read --allow-write --allow-run scripts/generate_schema.ts [--check] [path/to/metadata.d.ts]
+ *
+ * With `--check`, nothing is written: the script exits with code 1 if
+ * src/lib/schema.ts is out of date or if FLOW_ARRAY_PROPERTIES and
+ * NESTED_ARRAY_CONFIG drifted from the schema.
+ *
+ * Without a path, the definitions of the @salesforce/types version locked in
+ * deno.lock are read from the Deno npm cache.
+ */
+
+/**
+ * Property of a parsed type
+ */
+interface ParsedField {
+  name: string;
+  type: string;
+  array: boolean;
+}
+
+/**
+ * Type declared in the definitions
+ */
+interface ParsedType {
+  base?: string;
+  fields: ParsedField[];
+}
+
+const OUTPUT = new URL("../src/lib/schema.ts", import.meta.url);
+const PRIMITIVES: Record<string, string> = {
+  string: "string",
+  number: "number",
+  boolean: "boolean",
+  Date: "date",
+};
+// Properties whose xsd type in the Metadata API WSDL is more specific than
+// their TypeScript type: doubles are serialized with a decimal, e.g.
+// `<apiVersion>63.0</apiVersion>`, and Date properties hold dates by default
+const WSDL_TYPES: Record<string, string> = {
+  "Flow.apiVersion": "double",
+  "FlowElementReferenceOrValue.dateTimeValue": "datetime",
+  "FlowElementReferenceOrValue.numberValue": "double",
+  "FlowSchedule.startTime": "time",
+  "FlowWaitEvent.resumeTime": "time",
+};
+
+/**
+ * Locate the metadata definitions in the Deno npm cache
+ * @returns Path of metadata.d.ts
+ * @throws Error if the locked version is not cached
+ */
+async function findDefinitions(): Promise<string> {
+  const lock = JSON.parse(
+    await Deno.readTextFile(new URL("../deno.lock", import.meta.url)),
+  );
+  const version = Object.entries(lock.specifiers ?? {}).find(([specifier]) =>
+    specifier.startsWith("npm:@salesforce/types@")
+  )?.[1];
+  if (!version) throw new Error("@salesforce/types is not in deno.lock");
+
+  const info = await new Deno.Command(Deno.execPath(), {
+    args: ["info", "--json"],
+  }).output();
+  const { npmCache } = JSON.parse(new TextDecoder().decode(info.stdout));
+  return `${npmCache}/registry.npmjs.org/@salesforce/types/${version}/lib/metadata.d.ts`;
+}
+
+/**
+ * Parse the object types and string unions of the definitions
+ * @param source Content of metadata.d.ts
+ * @returns Object types and the names of string union types
+ */
+function parseDefinitions(
+  source: string,
+): { types: Map<string, ParsedType>; unions: Set<string> } {
+  const types = new Map<string, ParsedType>();
+  const unions = new Set<string>();
+
+  for (const match of source.matchAll(/^export type (\w+) = '.*;$/gm)) {
+    unions.add(match[1]);
+  }
+  for (
+    const match of source.matchAll(
+      /^export type (\w+) = (?:(\w+) & )?\{\n([\s\S]*?)\n\};$/gm,
+    )
+  ) {
+    const fields = [...match[3].matchAll(/^\s+(\w+)\??: (\w+)(\[\])?;$/gm)]
+      .map((field) => ({
+        name: field[1],
+        type: field[2],
+        array: field[3] !== undefined,
+      }));
+    types.set(match[1], { base: match[2], fields });
+  }
+
+  return { types, unions };
+}
+
+/**
+ * Build the schema of every type reachable from Flow
+ * @param types Parsed object types
+ * @param unions Names of string union types
+ * @returns Ordered fields by type name
+ * @throws Error for field types that cannot be mapped
+ */
+function buildSchema(
+  types: Map<string, ParsedType>,
+  unions: Set<string>,
+): Map<string, ParsedField[]> {
+  const schema = new Map<string, ParsedField[]>();
+
+  // Redeclared properties keep the position of the base type
+  const collectFields = (name: string): ParsedField[] => {
+    const type = types.get(name)!;
+    const inherited = type.base ? collectFields(type.base) : [];
+    return [
+      ...inherited,
+      ...type.fields.filter((field) =>
+        !inherited.some((other) => other.name === field.name)
+      ),
+    ];
+  };
+  const visit = (name: string) => {
+    if (schema.has(name)) return;
+    const fields = collectFields(name).map((field) => {
+      const wsdlType = WSDL_TYPES[`${name}.${field.name}`];
+      if (wsdlType) return { ...field, type: wsdlType };
+      if (PRIMITIVES[field.type]) {
+        return { ...field, type: PRIMITIVES[field.type] };
+      }
+      if (unions.has(field.type)) return { ...field, type: "string" };
+      if (types.has(field.type)) return field;
+      throw new Error(`Unknown type ${field.type} of ${name}.${field.name}`);
+    });
+    schema.set(name, fields);
+    fields.forEach((field) => {
+      if (types.has(field.type)) visit(field.type);
+    });
+  };
+  visit("Flow");
+
+  return schema;
+}
+
+/**
+ * Collect the path of every array property reachable from Flow
+ * Recursive types, such as screen fields within screen fields, are followed
+ * once.
+ * @param schema Ordered fields by type name
+ * @returns Sorted dotted paths, e.g. `decisions.rules.conditions`
+ */
+function collectArrayPaths(schema: Map<string, ParsedField[]>): string[] {
+  const paths: string[] = [];
+  const visit = (name: string, prefix: string, seen: string[]) =>
+    schema.get(name)!.forEach((field) => {
+      const path = prefix ? `${prefix}.${field.name}` : field.name;
+      if (field.array) paths.push(path);
+      if (schema.has(field.type) && !seen.includes(field.type)) {
+        visit(field.type, path, [...seen, field.type]);
+      }
+    });
+  visit("Flow", "", ["Flow"]);
+
+  return paths.sort();
+}
+
+/**
+ * Render the schema module
+ * @param schema Ordered fields by type name
+ * @returns TypeScript source of src/lib/schema.ts
+ */
+function renderSchema(schema: Map<string, ParsedField[]>): string {
+  const lines = [
+    "// This file is generated by scripts/generate_schema.ts, do not edit it.",
+    "",
+    "/**",
+    " * Flow metadata schema",
+    " *",
+    " * Properties of every type reachable from `Flow` in the order the Metadata",
+    " * API serializes them, with their type: `string`, `number`, `double`,",
+    " * `boolean`, `date`, `datetime`, `time` or the name of another type of the",
+    " * schema.",
+    " */",
+    'import type { FlowTypeSchema } from "./types.ts";',
+    "",
+    "/**",
+    " * Schema of the Flow metadata types by type name",
+    " */",
+    "export const FLOW_SCHEMA: Record<string, FlowTypeSchema> = {",
+  ];
+  [...schema.keys()].sort().forEach((name) => {
+    lines.push(`  ${name}: {`);
+    schema.get(name)!.forEach((field) =>
+      lines.push(
+        `    ${field.name}: { type: "${field.type}"${
+          field.array ? ", array: true" : ""
+        } },`,
+      )
+    );
+    lines.push("  },");
+  });
+  lines.push(
+    "};",
+    "",
+    "/**",
+    " * Path of every array property below Flow, e.g. `decisions.rules.conditions`",
+    " * Recursive types are followed once, e.g. `screens.fields.fields`.",
+    " */",
+    "export const FLOW_ARRAY_PATHS: string[] = [",
+    ...collectArrayPaths(schema).map((path) => `  "${path}",`),
+    "];",
+    "",
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Format TypeScript source with deno fmt
+ * @param source Source to format
+ * @returns Formatted source
+ */
+async function format(source: string): Promise<string> {
+  const file = await Deno.makeTempFile({ suffix: ".ts" });
+  try {
+    await Deno.writeTextFile(file, source);
+    await new Deno.Command(Deno.execPath(), { args: ["fmt", "--quiet", file] })
+      .output();
+    return await Deno.readTextFile(file);
+  } finally {
+    await Deno.remove(file);
+  }
+}
+
+if (import.meta.main) {
+  const check = Deno.args.includes("--check");
+  const path = Deno.args.find((arg) => arg !== "--check") ??
+    await findDefinitions();
+  const { types, unions } = parseDefinitions(await Deno.readTextFile(path));
+  const source = await format(renderSchema(buildSchema(types, unions)));
+
+  if (!check) {
+    await Deno.writeTextFile(OUTPUT, source);
+    console.log(`Generated ${OUTPUT.pathname}`);
+  } else {
+    // Imported lazily so generating works while schema.ts is broken
+    const { findArrayConfigDrift } = await import("../src/lib/helper.ts");
+    const problems = findArrayConfigDrift();
+    if (source !== await Deno.readTextFile(OUTPUT)) {
+      problems.unshift(
+        `${OUTPUT.pathname} is out of date, run deno task generate:schema`,
+      );
+    }
+    problems.forEach((problem) => console.error(problem));
+    if (problems.length > 0) Deno.exit(1);
+    console.log("Schema and array configuration are in sync");
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Command-line entry point for the sf-flow-parser library
+ *
+ * Normalizes Salesforce Flow XML files by running them through
+ * `parse` and `stringify` and validates their structure, which makes it
+ * usable as a formatter, as a pre-commit hook and in CI. The `merge` command
+ * can be registered as a git merge driver.
+ *
+ * Run with:
+ * deno run --allow-read --allow-write jsr:@damecek/sf-flow-parser/cli <command> [options] <paths...>
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import { parse, parseFromFile, stringify } from "./lib/flow.ts";
+import { collectFlowFiles } from "./lib/files.ts";
+import { mergeFlows } from "./lib/merge.ts";
+import { hasErrors, validateFlow } from "./lib/validation.ts";
+
+/**
+ * Usage text printed by `--help` and on invalid input
+ */
+export const USAGE = `Usage: sf-flow-parser <command> [options] <paths...>
+       sf-flow-parser merge <base> <ours> <theirs>
+
+Commands:
+  normalize   Parse and re-serialize Flow files (prints to stdout unless --write)
+  check       Exit with code 1 if any Flow file is not normalized
+  validate    Report structural problems, exit with code 1 on errors
+  merge       Three-way merge Flow files into <ours>, exit with code 1 on
+              conflicts (git merge driver: merge %O %A %B)
+
+Options:
+  -w, --write   Write normalized output back to the files
+  -h, --help    Show this help
+
+Paths may be files, directories (scanned recursively for .flow-meta.xml and
+.flow files) or glob patterns such as "force-app/**/*.flow-meta.xml".`;
+
+/**
+ * Supported commands
+ */
+const COMMANDS = ["normalize", "check", "validate", "merge"];
+
+/**
+ * Parsed command-line arguments
+ */
+export type CliOptions = {
+  command?: string;
+  write: boolean;
+  help: boolean;
+  paths: string[];
+};
+
+/**
+ * Parse raw command-line arguments
+ * @param args Arguments as passed to the program (usually Deno.args)
+ * @returns Parsed options
+ * @throws Error if an unknown option is given
+ * @example
+ * parseArgs(["normalize", "--write", "flows"]);
+ * // { command: "normalize", write: true, help: false, paths: ["flows"] }
+ */
+export function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { write: false, help: false, paths: [] };
+
+  args.forEach((arg) => {
+    if (arg === "-w" || arg === "--write") {
+      options.write = true;
+    } else if (arg === "-h" || arg === "--help") {
+      options.help = true;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (options.command === undefined) {
+      options.command = arg;
+    } else {
+      options.paths.push(arg);
+    }
+  });
+
+  return options;
+}
+
+/**
+ * Normalize a single Flow XML string
+ * @param xml XML string to normalize
+ * @returns Normalized XML string, equal to stringify(parse(xml))
+ */
+export function normalize(xml: string): string {
+  return stringify(parse(xml));
+}
+
+/**
+ * Write a string to stdout without adding a trailing newline
+ * @param text Text to write
+ */
+function writeToStdout(text: string): void {
+  const bytes = new TextEncoder().encode(text);
+  let written = 0;
+  while (written < bytes.length) {
+    written += Deno.stdout.writeSync(bytes.subarray(written));
+  }
+}
+
+/**
+ * Validate Flow files and print errors and warnings
+ * @param files Paths of the files to validate
+ * @returns 1 if any file has errors or cannot be parsed, 0 otherwise
+ */
+function validateFiles(files: string[]): number {
+  let exitCode = 0;
+
+  files.forEach((file) => {
+    let diagnostics;
+    try {
+      diagnostics = validateFlow(parse(Deno.readTextFileSync(file)));
+    } catch (error) {
+      console.error(`Error: ${file}: ${(error as Error).message}`);
+      exitCode = 1;
+      return;
+    }
+
+    diagnostics
+      .filter((diagnostic) => diagnostic.severity !== "info")
+      .forEach((diagnostic) => {
+        console.log(
+          `${file}: ${diagnostic.severity} [${diagnostic.code}] ${diagnostic.path}: ${diagnostic.message}`,
+        );
+      });
+    if (hasErrors(diagnostics)) {
+      exitCode = 1;
+    }
+  });
+
+  return exitCode;
+}
+
+/**
+ * Merge two Flow files changed from a common base and write the result over
+ * our file, as git expects from a merge driver
+ * Top-level elements with conflicts are written with both versions between
+ * conflict markers, so the conflicts cannot be committed unnoticed.
+ * @param basePath Path of the common ancestor (%O)
+ * @param oursPath Path of our version, receives the result (%A)
+ * @param theirsPath Path of their version (%B)
+ * @returns 0 on a clean merge, 1 on conflicts or if a file cannot be read
+ */
+function mergeFiles(
+  basePath: string,
+  oursPath: string,
+  theirsPath: string,
+): number {
+  let result;
+  try {
+    const flows = [basePath, oursPath, theirsPath].map((path) =>
+      parseFromFile(path)
+    ) as [Flow, Flow, Flow];
+    result = mergeFlows(...flows);
+    let xml = stringify(result.flow);
+    if (result.conflicts.length > 0) {
+      const theirs = mergeFlows(...flows, { prefer: "theirs" }).flow;
+      xml = markConflicts(xml, stringify(theirs));
+    }
+    Deno.writeTextFileSync(oursPath, xml);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+
+  result.conflicts.forEach((conflict) => {
+    console.error(`Conflict: ${conflict.path}`);
+  });
+  return result.conflicts.length > 0 ? 1 : 0;
+}
+
+/**
+ * Combine two versions of a Flow XML with conflict markers around the
+ * top-level elements that differ
+ * @param ours XML with the conflicting values of our side
+ * @param theirs XML with the conflicting values of their side
+ * @returns XML with git-style conflict markers
+ */
+function markConflicts(ours: string, theirs: string): string {
+  // Split into the lines before the first element, one block per top-level
+  // element and the closing tag
+  const split = (xml: string) =>
+    xml.split("\n").reduce<string[][]>((blocks, line) => {
+      if (blocks.length === 0 || /^( {4}<[^/]|<\/Flow>)/.test(line)) {
+        blocks.push([]);
+      }
+      blocks[blocks.length - 1].push(line);
+      return blocks;
+    }, []).map((block) => block.join("\n"));
+  const a = split(ours);
+  const b = split(theirs);
+
+  // Longest common subsequence of the blocks
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let [ourChanges, theirChanges]: string[][] = [[], []];
+  const flush = () => {
+    if (ourChanges.length > 0 || theirChanges.length > 0) {
+      lines.push(
+        "<<<<<<< ours",
+        ...ourChanges,
+        "=======",
+        ...theirChanges,
+        ">>>>>>> theirs",
+      );
+    }
+    [ourChanges, theirChanges] = [[], []];
+  };
+  let [i, j] = [0, 0];
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      lines.push(a[i++]);
+      j++;
+    } else if (
+      j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      ourChanges.push(a[i++]);
+    } else {
+      theirChanges.push(b[j++]);
+    }
+  }
+  flush();
+
+  return lines.join("\n");
+}
+
+/**
+ * Run the command-line interface
+ * @param args Command-line arguments (without the program name)
+ * @returns Process exit code: 0 on success, 1 if a check failed or a file
+ * could not be processed, 2 on invalid usage
+ * @example
+ * Deno.exit(runCli(["check", "force-app"]));
+ */
+export function runCli(args: string[]): number {
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (!COMMANDS.includes(options.command ?? "")) {
+    console.error(
+      options.command
+        ? `Unknown command: ${options.command}`
+        : "No command given",
+    );
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (options.paths.length === 0) {
+    console.error("No paths given");
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (options.command === "merge") {
+    if (options.paths.length !== 3) {
+      console.error(
+        "merge expects exactly three paths: <base> <ours> <theirs>",
+      );
+      console.error(USAGE);
+      return 2;
+    }
+    const [basePath, oursPath, theirsPath] = options.paths;
+    return mergeFiles(basePath, oursPath, theirsPath);
+  }
+
+  let files: string[];
+  try {
+    files = collectFlowFiles(options.paths);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+
+  if (options.command === "validate") {
+    return validateFiles(files);
+  }
+
+  let exitCode = 0;
+  files.forEach((file) => {
+    let xml: string;
+    let normalized: string;
+    try {
+      xml = Deno.readTextFileSync(file);
+      normalized = normalize(xml);
+    } catch (error) {
+      console.error(`Error: ${file}: ${(error as Error).message}`);
+      exitCode = 1;
+      return;
+    }
+
+    const changed = normalized !== xml;
+    if (options.write) {
+      if (changed) {
+        try {
+          Deno.writeTextFileSync(file, normalized);
+        } catch (error) {
+          console.error(`Error: ${file}: ${(error as Error).message}`);
+          exitCode = 1;
+          return;
+        }
+        console.log(`Normalized ${file}`);
+      }
+    } else if (options.command === "check") {
+      if (changed) {
+        console.log(`Not normalized: ${file}`);
+        exitCode = 1;
+      }
+    } else {
+      writeToStdout(normalized);
+    }
+  });
+
+  return exitCode;
+}
+
+if (import.meta.main) {
+  Deno.exit(runCli(Deno.args));
+}
@@ -0,0 +1,1290 @@
+/**
+ * Fluent builders for Flow nodes
+ *
+ * This module provides one builder per FLOW_ARRAY_NODES collection. Builders
+ * fill in the boilerplate every node needs (label, location,
+ * `processMetadataValues` and the array properties normalized by
+ * ensureArrayProperties), so the built node is ready to be pushed into a Flow
+ * or passed to insertNodeBefore / insertNodeAfter.
+ *
+ * @example
+ * const check = decision("Check_Status")
+ *   .rule("Is_New", condition("$Record.Status__c", "EqualTo", "New"), {
+ *     target: "Notify",
+ *   })
+ *   .defaultTo("Finish")
+ *   .build();
+ */
+import type {
+  FlowActionCall,
+  FlowApexPluginCall,
+  FlowAssignment,
+  FlowAssignmentOperator,
+  FlowCollectionProcessor,
+  FlowCollectionProcessorType,
+  FlowComparisonOperator,
+  FlowCondition,
+  FlowConnector,
+  FlowCustomError,
+  FlowDataType,
+  FlowDecision,
+  FlowElementReferenceOrValue,
+  FlowLoop,
+  FlowNode,
+  FlowOrchestratedStage,
+  FlowRecordCreate,
+  FlowRecordDelete,
+  FlowRecordFilter,
+  FlowRecordLookup,
+  FlowRecordRollback,
+  FlowRecordUpdate,
+  FlowScreen,
+  FlowScreenField,
+  FlowStageStep,
+  FlowSubflow,
+  FlowTransform,
+  FlowTransformValue,
+  FlowWait,
+  FlowWaitEvent,
+  InvocableActionType,
+  IterationOrder,
+  SortOrder,
+} from "@salesforce/types/metadata";
+import { processNestedArrays } from "./helper.ts";
+
+/**
+ * Value accepted wherever a Flow value is expected
+ * Strings, numbers and booleans become `stringValue`, `numberValue` and
+ * `booleanValue`; use ref() for element references.
+ */
+export type FlowValueInput =
+  | FlowElementReferenceOrValue
+  | string
+  | number
+  | boolean;
+
+/**
+ * Options for decision rules and wait events
+ */
+export interface BranchOptions {
+  /** Label of the branch, derived from its name by default */
+  label?: string;
+  /** Condition logic, `and` by default */
+  conditionLogic?: string;
+  /** Node the branch connects to */
+  target?: string;
+}
+
+/**
+ * Create an element reference value
+ * @param elementReference Name of the referenced element, e.g. `$Record.Id`
+ * @returns Value referencing the element
+ * @example
+ * assignment("Copy").assign("varName", ref("$Record.Name"));
+ */
+export function ref(elementReference: string): FlowElementReferenceOrValue {
+  return { elementReference };
+}
+
+/**
+ * Convert a plain value into a Flow value
+ * @param value String, number, boolean or an existing Flow value
+ * @returns Flow value
+ * @example
+ * toFlowValue("New"); // { stringValue: "New" }
+ * toFlowValue(true); // { booleanValue: true }
+ */
+export function toFlowValue(
+  value: FlowValueInput,
+): FlowElementReferenceOrValue {
+  switch (typeof value) {
+    case "string":
+      return { stringValue: value };
+    case "number":
+      return { numberValue: value };
+    case "boolean":
+      return { booleanValue: value };
+    default:
+      return value;
+  }
+}
+
+/**
+ * Create a condition for decision rules, wait events or collection filters
+ * @param leftValueReference Reference on the left side, e.g. `$Record.Status__c`
+ * @param operator Comparison operator
+ * @param rightValue Value on the right side, omitted for operators like IsNull
+ * @returns Flow condition
+ * @example
+ * condition("Amount", "GreaterThan", 100);
+ */
+export function condition(
+  leftValueReference: string,
+  operator: FlowComparisonOperator,
+  rightValue?: FlowValueInput,
+): FlowCondition {
+  const result: FlowCondition = {
+    leftValueReference,
+    operator,
+    processMetadataValues: [],
+  };
+  if (rightValue !== undefined) {
+    result.rightValue = toFlowValue(rightValue);
+  }
+  return result;
+}
+
+/**
+ * Create a connector pointing at a node
+ * @param targetReference Name of the target node
+ * @returns Flow connector
+ */
+export function connector(targetReference: string): FlowConnector {
+  return { targetReference, processMetadataValues: [] };
+}
+
+/**
+ * Derive a label from an API name, e.g. `Check_Status` becomes `Check Status`
+ * @param name API name
+ * @returns Label
+ */
+function labelFromName(name: string): string {
+  return name.replace(/_+/g, " ").trim();
+}
+
+/**
+ * Create a record filter
+ * @param field Field to filter on
+ * @param operator Filter operator, e.g. `EqualTo`
+ * @param value Value to compare with
+ * @returns Flow record filter
+ */
+function recordFilter(
+  field: string,
+  operator: string,
+  value?: FlowValueInput,
+): FlowRecordFilter {
+  const filter = {
+    field,
+    operator,
+    processMetadataValues: [],
+  } as unknown as FlowRecordFilter;
+  if (value !== undefined) {
+    filter.value = toFlowValue(value);
+  }
+  return filter;
+}
+
+/**
+ * Base class of all node builders
+ */
+export abstract class NodeBuilder<T extends FlowNode> {
+  /** FLOW_ARRAY_NODES collection the built node belongs to */
+  abstract readonly collection: string;
+
+  /** Node under construction */
+  protected readonly node: T;
+
+  /**
+   * Create a builder with the common node properties filled in
+   * @param name API name of the node
+   * @param properties Type-specific properties
+   */
+  protected constructor(name: string, properties: Omit<T, keyof FlowNode>) {
+    this.node = {
+      name,
+      label: labelFromName(name),
+      locationX: 0,
+      locationY: 0,
+      processMetadataValues: [],
+      ...properties,
+    } as unknown as T;
+  }
+
+  /**
+   * Set the label of the node
+   * @param label Label shown in Flow Builder
+   * @returns This builder
+   */
+  label(label: string): this {
+    this.node.label = label;
+    return this;
+  }
+
+  /**
+   * Set the description of the node
+   * @param description Description text
+   * @returns This builder
+   */
+  description(description: string): this {
+    this.node.description = description;
+    return this;
+  }
+
+  /**
+   * Set the canvas location of the node
+   * @param x Horizontal position
+   * @param y Vertical position
+   * @returns This builder
+   */
+  location(x: number, y: number): this {
+    this.node.locationX = x;
+    this.node.locationY = y;
+    return this;
+  }
+
+  /**
+   * Build the node
+   * Every call returns a new, independent object with its nested arrays
+   * normalized like ensureArrayProperties does after parsing.
+   * @returns The built node
+   */
+  build(): T {
+    const node = structuredClone(this.node);
+    processNestedArrays({ [this.collection]: [node] });
+    return node;
+  }
+
+  /**
+   * Set a connector property of the node
+   * @param property Connector property, e.g. `faultConnector`
+   * @param target Name of the target node
+   * @returns This builder
+   */
+  protected setConnector(property: string, target: string): this {
+    (this.node as Record<string, unknown>)[property] = connector(target);
+    return this;
+  }
+}
+
+/**
+ * Base class of builders for nodes with a regular `connector`
+ */
+export abstract class ConnectedNodeBuilder<
+  T extends FlowNode & { connector?: FlowConnector },
+> extends NodeBuilder<T> {
+  /**
+   * Connect the node to the next node
+   * @param target Name of the next node
+   * @returns This builder
+   */
+  connectTo(target: string): this {
+    return this.setConnector("connector", target);
+  }
+}
+
+/**
+ * Base class of builders for nodes with a `connector` and a `faultConnector`
+ */
+export abstract class FaultHandlingNodeBuilder<
+  T extends FlowNode & {
+    connector?: FlowConnector;
+    faultConnector?: FlowConnector;
+  },
+> extends ConnectedNodeBuilder<T> {
+  /**
+   * Connect the fault path of the node
+   * @param target Name of the node handling faults
+   * @returns This builder
+   */
+  faultTo(target: string): this {
+    return this.setConnector("faultConnector", target);
+  }
+}
+
+/**
+ * Builder for decision nodes
+ */
+export class DecisionBuilder extends NodeBuilder<FlowDecision> {
+  readonly collection = "decisions";
+
+  constructor(name: string) {
+    super(name, { rules: [] });
+  }
+
+  /**
+   * Add a rule (outcome) to the decision
+   * @param name API name of the rule
+   * @param conditions One or more conditions
+   * @param options Label, condition logic and target of the rule
+   * @returns This builder
+   */
+  rule(
+    name: string,
+    conditions: FlowCondition | FlowCondition[],
+    options: BranchOptions = {},
+  ): this {
+    this.node.rules.push(
+      {
+        name,
+        label: options.label ?? labelFromName(name),
+        conditionLogic: options.conditionLogic ?? "and",
+        conditions: Array.isArray(conditions) ? conditions : [conditions],
+        processMetadataValues: [],
+        ...(options.target ? { connector: connector(options.target) } : {}),
+      } as FlowDecision["rules"][number],
+    );
+    return this;
+  }
+
+  /**
+   * Connect the default outcome of the decision
+   * @param target Name of the node for the default outcome
+   * @param label Label of the default outcome, `Default Outcome` by default
+   * @returns This builder
+   */
+  defaultTo(target: string, label = "Default Outcome"): this {
+    this.node.defaultConnectorLabel = label;
+    return this.setConnector("defaultConnector", target);
+  }
+}
+
+/**
+ * Builder for assignment nodes
+ */
+export class AssignmentBuilder extends ConnectedNodeBuilder<FlowAssignment> {
+  readonly collection = "assignments";
+
+  constructor(name: string) {
+    super(name, { assignmentItems: [] });
+  }
+
+  /**
+   * Add an assignment item
+   * @param assignToReference Variable or field to assign to
+   * @param value Value to assign
+   * @param operator Assignment operator, `Assign` by default
+   * @returns This builder
+   */
+  assign(
+    assignToReference: string,
+    value: FlowValueInput,
+    operator: FlowAssignmentOperator = "Assign",
+  ): this {
+    this.node.assignmentItems.push({
+      assignToReference,
+      operator,
+      value: toFlowValue(value),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+}
+
+/**
+ * Builder for record lookup (Get Records) nodes
+ */
+export class RecordLookupBuilder
+  extends FaultHandlingNodeBuilder<FlowRecordLookup> {
+  readonly collection = "recordLookups";
+
+  constructor(name: string, object: string) {
+    super(name, {
+      object,
+      filters: [],
+      outputAssignments: [],
+      queriedFields: [],
+      getFirstRecordOnly: true,
+      storeOutputAutomatically: true,
+      assignNullValuesIfNoRecordsFound: false,
+    });
+  }
+
+  /**
+   * Add a filter
+   * @param field Field to filter on
+   * @param operator Filter operator, e.g. `EqualTo`
+   * @param value Value to compare with
+   * @returns This builder
+   */
+  filter(field: string, operator: string, value?: FlowValueInput): this {
+    this.node.filters.push(recordFilter(field, operator, value));
+    return this;
+  }
+
+  /**
+   * Set custom filter logic, e.g. `1 AND (2 OR 3)`
+   * @param logic Filter logic
+   * @returns This builder
+   */
+  filterLogic(logic: string): this {
+    this.node.filterLogic = logic;
+    return this;
+  }
+
+  /**
+   * Set the fields to query
+   * @param fields Field API names
+   * @returns This builder
+   */
+  fields(...fields: string[]): this {
+    this.node.queriedFields.push(...fields);
+    return this;
+  }
+
+  /**
+   * Return all matching records instead of only the first one
+   * @returns This builder
+   */
+  all(): this {
+    this.node.getFirstRecordOnly = false;
+    return this;
+  }
+
+  /**
+   * Sort the records
+   * @param field Field to sort by
+   * @param order Sort order, `Asc` by default
+   * @returns This builder
+   */
+  sort(field: string, order: SortOrder = "Asc"): this {
+    this.node.sortField = field;
+    this.node.sortOrder = order;
+    return this;
+  }
+
+  /**
+   * Store the result in a variable instead of storing it automatically
+   * @param reference Variable to store the result in
+   * @returns This builder
+   */
+  outputTo(reference: string): this {
+    this.node.outputReference = reference;
+    this.node.storeOutputAutomatically = false;
+    return this;
+  }
+}
+
+/**
+ * Builder for record create nodes
+ */
+export class RecordCreateBuilder
+  extends FaultHandlingNodeBuilder<FlowRecordCreate> {
+  readonly collection = "recordCreates";
+
+  constructor(name: string, object?: string) {
+    super(name, {
+      inputAssignments: [],
+      ...(object ? { object, storeOutputAutomatically: true } : {}),
+    });
+  }
+
+  /**
+   * Set a field of the created record
+   * @param field Field API name
+   * @param value Value of the field
+   * @returns This builder
+   */
+  set(field: string, value: FlowValueInput): this {
+    this.node.inputAssignments.push({
+      field,
+      value: toFlowValue(value),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Create the record(s) stored in a variable
+   * @param reference Record or record collection variable
+   * @returns This builder
+   */
+  inputReference(reference: string): this {
+    this.node.inputReference = reference;
+    return this;
+  }
+}
+
+/**
+ * Builder for record update nodes
+ */
+export class RecordUpdateBuilder
+  extends FaultHandlingNodeBuilder<FlowRecordUpdate> {
+  readonly collection = "recordUpdates";
+
+  constructor(name: string, object?: string) {
+    super(name, {
+      filters: [],
+      inputAssignments: [],
+      ...(object ? { object } : {}),
+    });
+  }
+
+  /**
+   * Add a filter selecting the records to update
+   * @param field Field to filter on
+   * @param operator Filter operator, e.g. `EqualTo`
+   * @param value Value to compare with
+   * @returns This builder
+   */
+  filter(field: string, operator: string, value?: FlowValueInput): this {
+    this.node.filters.push(recordFilter(field, operator, value));
+    return this;
+  }
+
+  /**
+   * Set custom filter logic, e.g. `1 AND (2 OR 3)`
+   * @param logic Filter logic
+   * @returns This builder
+   */
+  filterLogic(logic: string): this {
+    this.node.filterLogic = logic;
+    return this;
+  }
+
+  /**
+   * Set a field of the updated records
+   * @param field Field API name
+   * @param value New value of the field
+   * @returns This builder
+   */
+  set(field: string, value: FlowValueInput): this {
+    this.node.inputAssignments.push({
+      field,
+      value: toFlowValue(value),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Update the record(s) stored in a variable
+   * @param reference Record or record collection variable
+   * @returns This builder
+   */
+  inputReference(reference: string): this {
+    this.node.inputReference = reference;
+    return this;
+  }
+}
+
+/**
+ * Builder for record delete nodes
+ */
+export class RecordDeleteBuilder
+  extends FaultHandlingNodeBuilder<FlowRecordDelete> {
+  readonly collection = "recordDeletes";
+
+  constructor(name: string, object?: string) {
+    super(name, { filters: [], ...(object ? { object } : {}) });
+  }
+
+  /**
+   * Add a filter selecting the records to delete
+   * @param field Field to filter on
+   * @param operator Filter operator, e.g. `EqualTo`
+   * @param value Value to compare with
+   * @returns This builder
+   */
+  filter(field: string, operator: string, value?: FlowValueInput): this {
+    this.node.filters.push(recordFilter(field, operator, value));
+    return this;
+  }
+
+  /**
+   * Set custom filter logic, e.g. `1 AND (2 OR 3)`
+   * @param logic Filter logic
+   * @returns This builder
+   */
+  filterLogic(logic: string): this {
+    this.node.filterLogic = logic;
+    return this;
+  }
+
+  /**
+   * Delete the record(s) stored in a variable
+   * @param reference Record or record collection variable
+   * @returns This builder
+   */
+  inputReference(reference: string): this {
+    this.node.inputReference = reference;
+    return this;
+  }
+}
+
+/**
+ * Builder for record rollback nodes
+ */
+export class RecordRollbackBuilder
+  extends ConnectedNodeBuilder<FlowRecordRollback> {
+  readonly collection = "recordRollbacks";
+
+  constructor(name: string) {
+    super(name, {});
+  }
+}
+
+/**
+ * Builder for subflow nodes
+ */
+export class SubflowBuilder extends ConnectedNodeBuilder<FlowSubflow> {
+  readonly collection = "subflows";
+
+  constructor(name: string, flowName: string) {
+    super(name, { flowName, inputAssignments: [], outputAssignments: [] });
+  }
+
+  /**
+   * Pass a value to an input variable of the subflow
+   * @param name Name of the input variable
+   * @param value Value to pass
+   * @returns This builder
+   */
+  input(name: string, value: FlowValueInput): this {
+    this.node.inputAssignments.push({
+      name,
+      value: toFlowValue(value),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Store an output variable of the subflow
+   * @param name Name of the output variable
+   * @param assignToReference Variable to store the value in
+   * @returns This builder
+   */
+  output(name: string, assignToReference: string): this {
+    this.node.outputAssignments.push({
+      name,
+      assignToReference,
+      processMetadataValues: [],
+    });
+    return this;
+  }
+}
+
+/**
+ * Builder for loop nodes
+ */
+export class LoopBuilder extends NodeBuilder<FlowLoop> {
+  readonly collection = "loops";
+
+  constructor(name: string, collectionReference: string) {
+    super(name, { collectionReference, iterationOrder: "Asc" });
+  }
+
+  /**
+   * Set the iteration order
+   * @param order `Asc` or `Desc`
+   * @returns This builder
+   */
+  order(order: IterationOrder): this {
+    this.node.iterationOrder = order;
+    return this;
+  }
+
+  /**
+   * Store the current item in a variable instead of the loop itself
+   * @param reference Variable receiving the current item
+   * @returns This builder
+   */
+  assignNextValueTo(reference: string): this {
+    this.node.assignNextValueToReference = reference;
+    return this;
+  }
+
+  /**
+   * Connect the node executed for each item
+   * @param target Name of the first node of the loop body
+   * @returns This builder
+   */
+  eachTo(target: string): this {
+    return this.setConnector("nextValueConnector", target);
+  }
+
+  /**
+   * Connect the node executed after the last item
+   * @param target Name of the node after the loop
+   * @returns This builder
+   */
+  afterLastTo(target: string): this {
+    return this.setConnector("noMoreValuesConnector", target);
+  }
+}
+
+/**
+ * Builder for action call nodes
+ */
+export class ActionCallBuilder
+  extends FaultHandlingNodeBuilder<FlowActionCall> {
+  readonly collection = "actionCalls";
+
+  constructor(
+    name: string,
+    actionName: string,
+    actionType: InvocableActionType,
+  ) {
+    super(name, {
+      actionName,
+      actionType,
+      dataTypeMappings: [],
+      inputParameters: [],
+      outputParameters: [],
+    });
+  }
+
+  /**
+   * Pass a value to an input parameter of the action
+   * @param name Name of the parameter
+   * @param value Value to pass
+   * @returns This builder
+   */
+  input(name: string, value: FlowValueInput): this {
+    this.node.inputParameters.push({
+      name,
+      value: toFlowValue(value),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Store an output parameter of the action
+   * @param name Name of the parameter
+   * @param assignToReference Variable to store the value in
+   * @returns This builder
+   */
+  output(name: string, assignToReference: string): this {
+    this.node.outputParameters.push({
+      name,
+      assignToReference,
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Store all outputs automatically instead of assigning them manually
+   * @returns This builder
+   */
+  storeOutputAutomatically(): this {
+    this.node.storeOutputAutomatically = true;
+    return this;
+  }
+}
+
+/**
+ * Builder for Apex plugin call nodes
+ */
+export class ApexPluginCallBuilder
+  extends FaultHandlingNodeBuilder<FlowApexPluginCall> {
+  readonly collection = "apexPluginCalls";
+
+  constructor(name: string, apexClass: string) {
+    super(name, { apexClass, inputParameters: [], outputParameters: [] });
+  }
+
+  /**
+   * Pass a value to an input parameter of the plugin
+   * @param name Name of the parameter
+   * @param value Value to pass
+   * @returns This builder
+   */
+  input(name: string, value: FlowValueInput): this {
+    this.node.inputParameters.push({
+      name,
+      value: toFlowValue(value),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Store an output parameter of the plugin
+   * @param name Name of the parameter
+   * @param assignToReference Variable to store the value in
+   * @returns This builder
+   */
+  output(name: string, assignToReference: string): this {
+    this.node.outputParameters.push({
+      name,
+      assignToReference,
+      processMetadataValues: [],
+    });
+    return this;
+  }
+}
+
+/**
+ * Builder for collection processor (sort and filter) nodes
+ */
+export class CollectionProcessorBuilder
+  extends ConnectedNodeBuilder<FlowCollectionProcessor> {
+  readonly collection = "collectionProcessors";
+
+  constructor(
+    name: string,
+    collectionProcessorType: FlowCollectionProcessorType,
+    collectionReference: string,
+  ) {
+    super(name, {
+      collectionProcessorType,
+      collectionReference,
+      conditions: [],
+      mapItems: [],
+      sortOptions: [],
+    });
+  }
+
+  /**
+   * Add a filter condition (filter processors)
+   * @param conditionToAdd Condition to add, see condition()
+   * @returns This builder
+   */
+  condition(conditionToAdd: FlowCondition): this {
+    this.node.conditions.push(conditionToAdd);
+    this.node.conditionLogic ??= "and";
+    return this;
+  }
+
+  /**
+   * Set custom condition logic, e.g. `1 OR 2`
+   * @param logic Condition logic
+   * @returns This builder
+   */
+  conditionLogic(logic: string): this {
+    this.node.conditionLogic = logic;
+    return this;
+  }
+
+  /**
+   * Add a sort option (sort processors)
+   * @param field Field to sort by
+   * @param order Sort order, `Asc` by default
+   * @returns This builder
+   */
+  sort(field: string, order: SortOrder = "Asc"): this {
+    this.node.sortOptions.push({
+      sortField: field,
+      sortOrder: order,
+      doesPutEmptyStringAndNullFirst: false,
+      processMetadataValues: [],
+    });
+    return this;
+  }
+
+  /**
+   * Keep only the first records
+   * @param limit Maximum number of records
+   * @returns This builder
+   */
+  limit(limit: number): this {
+    this.node.limit = limit;
+    return this;
+  }
+}
+
+/**
+ * Builder for custom error nodes
+ */
+export class CustomErrorBuilder extends ConnectedNodeBuilder<FlowCustomError> {
+  readonly collection = "customErrors";
+
+  constructor(name: string) {
+    super(name, { customErrorMessages: [] });
+  }
+
+  /**
+   * Add an error message
+   * @param errorMessage Message text
+   * @param fieldSelection Field to show the message on, shown in a window if
+   * omitted
+   * @returns This builder
+   */
+  message(errorMessage: string, fieldSelection?: string): this {
+    this.node.customErrorMessages.push({
+      errorMessage,
+      isFieldError: fieldSelection !== undefined,
+      ...(fieldSelection ? { fieldSelection } : {}),
+      processMetadataValues: [],
+    });
+    return this;
+  }
+}
+
+/**
+ * Builder for screen nodes
+ */
+export class ScreenBuilder extends ConnectedNodeBuilder<FlowScreen> {
+  readonly collection = "screens";
+
+  constructor(name: string) {
+    super(name, {
+      actions: [],
+      allowBack: true,
+      allowFinish: true,
+      allowPause: true,
+      fields: [],
+      rules: [],
+      showFooter: true,
+      showHeader: true,
+      triggers: [],
+    });
+  }
+
+  /**
+   * Add a field to the screen
+   * @param field Screen field
+   * @returns This builder
+   */
+  field(field: FlowScreenField): this {
+    this.node.fields.push(field);
+    return this;
+  }
+
+  /**
+   * Add a display text field
+   * @param name API name of the field
+   * @param text Text to display
+   * @returns This builder
+   */
+  text(name: string, text: string): this {
+    return this.field({
+      name,
+      fieldText: text,
+      fieldType: "DisplayText",
+      processMetadataValues: [],
+    } as unknown as FlowScreenField);
+  }
+
+  /**
+   * Configure the navigation buttons
+   * @param options Buttons to allow
+   * @returns This builder
+   */
+  navigation(
+    options: { back?: boolean; finish?: boolean; pause?: boolean },
+  ): this {
+    if (options.back !== undefined) this.node.allowBack = options.back;
+    if (options.finish !== undefined) this.node.allowFinish = options.finish;
+    if (options.pause !== undefined) this.node.allowPause = options.pause;
+    return this;
+  }
+}
+
+/**
+ * Builder for transform nodes
+ */
+export class TransformBuilder extends ConnectedNodeBuilder<FlowTransform> {
+  readonly collection = "transforms";
+
+  constructor(name: string, dataType?: FlowDataType, objectType?: string) {
+    super(name, {
+      transformValues: [],
+      ...(dataType ? { dataType } : {}),
+      ...(objectType ? { objectType } : {}),
+    });
+  }
+
+  /**
+   * Produce a collection instead of a single value
+   * @returns This builder
+   */
+  collectionOutput(): this {
+    this.node.isCollection = true;
+    return this;
+  }
+
+  /**
+   * Add a transform value
+   * @param value Transform value
+   * @returns This builder
+   */
+  value(value: FlowTransformValue): this {
+    this.node.transformValues.push(value);
+    return this;
+  }
+}
+
+/**
+ * Builder for wait nodes
+ */
+export class WaitBuilder extends NodeBuilder<FlowWait> {
+  readonly collection = "waits";
+
+  constructor(name: string) {
+    super(name, { defaultConnectorLabel: "Default Path", waitEvents: [] });
+  }
+
+  /**
+   * Add a wait event (resume condition)
+   * @param name API name of the event
+   * @param properties Event properties such as `eventType` or `offset`
+   * @param options Label, condition logic and target of the event
+   * @returns This builder
+   */
+  event(
+    name: string,
+    properties: Partial<FlowWaitEvent>,
+    options: BranchOptions = {},
+  ): this {
+    this.node.waitEvents.push({
+      name,
+      label: options.label ?? labelFromName(name),
+      conditionLogic: options.conditionLogic ?? "and",
+      conditions: [],
+      filters: [],
+      inputParameters: [],
+      outputParameters: [],
+      processMetadataValues: [],
+      ...properties,
+      ...(options.target ? { connector: connector(options.target) } : {}),
+    });
+    return this;
+  }
+
+  /**
+   * Connect the default path of the wait
+   * @param target Name of the node for the default path
+   * @param label Label of the default path, `Default Path` by default
+   * @returns This builder
+   */
+  defaultTo(target: string, label = "Default Path"): this {
+    this.node.defaultConnectorLabel = label;
+    return this.setConnector("defaultConnector", target);
+  }
+
+  /**
+   * Connect the fault path of the wait
+   * @param target Name of the node handling faults
+   * @returns This builder
+   */
+  faultTo(target: string): this {
+    return this.setConnector("faultConnector", target);
+  }
+}
+
+/**
+ * Builder for orchestrated stage nodes
+ */
+export class OrchestratedStageBuilder
+  extends FaultHandlingNodeBuilder<FlowOrchestratedStage> {
+  readonly collection = "orchestratedStages";
+
+  constructor(name: string) {
+    super(name, {
+      exitActionInputParameters: [],
+      exitActionOutputParameters: [],
+      exitConditions: [],
+      stageSteps: [],
+    });
+  }
+
+  /**
+   * Add a step to the stage
+   * @param step Stage step
+   * @returns This builder
+   */
+  step(step: FlowStageStep): this {
+    this.node.stageSteps.push(step);
+    return this;
+  }
+}
+
+/**
+ * Start building a decision node
+ * @param name API name of the node
+ * @returns Decision builder
+ * @example
+ * decision("Is_VIP")
+ *   .rule("Yes", condition("$Record.VIP__c", "EqualTo", true), { target: "Notify" })
+ *   .defaultTo("Finish")
+ *   .build();
+ */
+export function decision(name: string): DecisionBuilder {
+  return new DecisionBuilder(name);
+}
+
+/**
+ * Start building an assignment node
+ * @param name API name of the node
+ * @returns Assignment builder
+ * @example
+ * assignment("Count").assign("counter", 1, "Add").connectTo("Next").build();
+ */
+export function assignment(name: string): AssignmentBuilder {
+  return new AssignmentBuilder(name);
+}
+
+/**
+ * Start building a record lookup (Get Records) node
+ * @param name API name of the node
+ * @param object SObject to query
+ * @returns Record lookup builder
+ * @example
+ * recordLookup("Get_Account", "Account").filter("Id", "EqualTo", ref("accountId")).build();
+ */
+export function recordLookup(
+  name: string,
+  object: string,
+): RecordLookupBuilder {
+  return new RecordLookupBuilder(name, object);
+}
+
+/**
+ * Start building a record create node
+ * @param name API name of the node
+ * @param object SObject to create, omit when using inputReference()
+ * @returns Record create builder
+ */
+export function recordCreate(
+  name: string,
+  object?: string,
+): RecordCreateBuilder {
+  return new RecordCreateBuilder(name, object);
+}
+
+/**
+ * Start building a record update node
+ * @param name API name of the node
+ * @param object SObject to update, omit when using inputReference()
+ * @returns Record update builder
+ */
+export function recordUpdate(
+  name: string,
+  object?: string,
+): RecordUpdateBuilder {
+  return new RecordUpdateBuilder(name, object);
+}
+
+/**
+ * Start building a record delete node
+ * @param name API name of the node
+ * @param object SObject to delete, omit when using inputReference()
+ * @returns Record delete builder
+ */
+export function recordDelete(
+  name: string,
+  object?: string,
+): RecordDeleteBuilder {
+  return new RecordDeleteBuilder(name, object);
+}
+
+/**
+ * Start building a record rollback node
+ * @param name API name of the node
+ * @returns Record rollback builder
+ */
+export function recordRollback(name: string): RecordRollbackBuilder {
+  return new RecordRollbackBuilder(name);
+}
+
+/**
+ * Start building a subflow node
+ * @param name API name of the node
+ * @param flowName API name of the Flow to call
+ * @returns Subflow builder
+ * @example
+ * subflow("Send_Mail", "Mail_Sender").input("recordId", ref("$Record.Id")).build();
+ */
+export function subflow(name: string, flowName: string): SubflowBuilder {
+  return new SubflowBuilder(name, flowName);
+}
+
+/**
+ * Start building a loop node
+ * @param name API name of the node
+ * @param collectionReference Collection to iterate over
+ * @returns Loop builder
+ * @example
+ * loop("Each_Contact", "contacts").eachTo("Update_Contact").afterLastTo("Finish").build();
+ */
+export function loop(name: string, collectionReference: string): LoopBuilder {
+  return new LoopBuilder(name, collectionReference);
+}
+
+/**
+ * Start building an action call node
+ * @param name API name of the node
+ * @param actionName Name of the action, e.g. the Apex class name
+ * @param actionType Type of the action, e.g. `apex` or `emailSimple`
+ * @returns Action call builder
+ */
+export function actionCall(
+  name: string,
+  actionName: string,
+  actionType: InvocableActionType,
+): ActionCallBuilder {
+  return new ActionCallBuilder(name, actionName, actionType);
+}
+
+/**
+ * Start building an Apex plugin call node
+ * @param name API name of the node
+ * @param apexClass Apex class implementing Process.Plugin
+ * @returns Apex plugin call builder
+ */
+export function apexPluginCall(
+  name: string,
+  apexClass: string,
+): ApexPluginCallBuilder {
+  return new ApexPluginCallBuilder(name, apexClass);
+}
+
+/**
+ * Start building a collection processor node
+ * @param name API name of the node
+ * @param type Processor type, e.g. `FilterCollectionProcessor`
+ * @param collectionReference Collection to process
+ * @returns Collection processor builder
+ */
+export function collectionProcessor(
+  name: string,
+  type: FlowCollectionProcessorType,
+  collectionReference: string,
+): CollectionProcessorBuilder {
+  return new CollectionProcessorBuilder(name, type, collectionReference);
+}
+
+/**
+ * Start building a custom error node
+ * @param name API name of the node
+ * @returns Custom error builder
+ */
+export function customError(name: string): CustomErrorBuilder {
+  return new CustomErrorBuilder(name);
+}
+
+/**
+ * Start building a screen node
+ * @param name API name of the node
+ * @returns Screen builder
+ */
+export function screen(name: string): ScreenBuilder {
+  return new ScreenBuilder(name);
+}
+
+/**
+ * Start building a transform node
+ * @param name API name of the node
+ * @param dataType Data type of the result
+ * @param objectType SObject type of the result, for SObject data types
+ * @returns Transform builder
+ */
+export function transform(
+  name: string,
+  dataType?: FlowDataType,
+  objectType?: string,
+): TransformBuilder {
+  return new TransformBuilder(name, dataType, objectType);
+}
+
+/**
+ * Start building a wait node
+ * @param name API name of the node
+ * @returns Wait builder
+ */
+export function wait(name: string): WaitBuilder {
+  return new WaitBuilder(name);
+}
+
+/**
+ * Start building an orchestrated stage node
+ * @param name API name of the node
+ * @returns Orchestrated stage builder
+ */
+export function orchestratedStage(name: string): OrchestratedStageBuilder {
+  return new OrchestratedStageBuilder(name);
+}
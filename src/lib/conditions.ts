@@ -0,0 +1,502 @@
+/**
+ * Flow condition expressions
+ *
+ * This module renders the conditions of decision rules, wait events and
+ * record filters as readable boolean expressions such as
+ * `$Record.Status__c = 'New' AND Amount > 100`, and parses such expressions
+ * back into conditions and their condition logic.
+ */
+import type {
+  FlowCondition,
+  FlowElementReferenceOrValue,
+  FlowRecordFilter,
+} from "@salesforce/types/metadata";
+import { formatTemporal, parseTemporal } from "./values.ts";
+
+/**
+ * Element holding conditions, e.g. a decision rule or a wait event
+ */
+export interface ConditionGroup {
+  conditions?: FlowCondition[];
+  /** `and`, `or` or a custom logic such as `1 AND (2 OR 3)` */
+  conditionLogic?: string;
+}
+
+/**
+ * Element holding record filters, e.g. a record lookup or the start node
+ */
+export interface FilterGroup {
+  filters?: FlowRecordFilter[];
+  /** `and`, `or` or a custom logic such as `1 AND (2 OR 3)` */
+  filterLogic?: string;
+}
+
+/**
+ * Operators rendered between the left and the right value
+ */
+const BINARY_OPERATORS: Record<string, string> = {
+  EqualTo: "=",
+  NotEqualTo: "!=",
+  GreaterThan: ">",
+  LessThan: "<",
+  GreaterThanOrEqualTo: ">=",
+  LessThanOrEqualTo: "<=",
+  StartsWith: "STARTS WITH",
+  EndsWith: "ENDS WITH",
+  Contains: "CONTAINS",
+  In: "IN",
+  NotIn: "NOT IN",
+};
+
+/**
+ * Operators with a boolean right value, rendered as postfix checks, e.g.
+ * `Amount IS NULL` or `Amount IS NOT NULL`
+ */
+const CHECK_OPERATORS: Record<string, [string, string]> = {
+  IsNull: ["IS NULL", "IS NOT NULL"],
+  IsChanged: ["IS CHANGED", "IS NOT CHANGED"],
+  WasSet: ["WAS SET", "WAS NOT SET"],
+  WasSelected: ["WAS SELECTED", "WAS NOT SELECTED"],
+  WasVisited: ["WAS VISITED", "WAS NOT VISITED"],
+};
+
+/**
+ * Render the conditions of a rule, wait event or the filters of a record
+ * element as a boolean expression
+ * Conditions take precedence over filters for elements having both, such as
+ * wait events.
+ * @param group Element holding `conditions`/`conditionLogic` or
+ * `filters`/`filterLogic`
+ * @returns Expression, empty if there are no conditions
+ * @example
+ * renderConditions(flow.decisions[0].rules[0]);
+ * // "Bypass_Logic.Should_Run = true AND (Amount > 100 OR Stage = 'Won')"
+ */
+export function renderConditions(group: ConditionGroup | FilterGroup): string {
+  const { conditions, conditionLogic } = group as ConditionGroup;
+  const { filters, filterLogic } = group as FilterGroup;
+  const [items, logic] = conditions?.length
+    ? [conditions, conditionLogic]
+    : [filters ?? [], filterLogic];
+  const rendered = items.map(renderCondition);
+
+  const normalized = (logic ?? "and").trim().toLowerCase();
+  if (normalized === "and" || normalized === "") {
+    return rendered.join(" AND ");
+  }
+  if (normalized === "or") return rendered.join(" OR ");
+
+  return (logic as string).replace(
+    /\d+/g,
+    (index) => rendered[Number(index) - 1] ?? index,
+  ).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Render a single condition or record filter
+ * @param condition Condition or record filter
+ * @returns Expression, e.g. `$Record.Status__c = 'New'`
+ */
+export function renderCondition(
+  condition: FlowCondition | FlowRecordFilter,
+): string {
+  const left = (condition as FlowCondition).leftValueReference ??
+    (condition as FlowRecordFilter).field ?? "";
+  const operator = condition.operator ?? "EqualTo";
+  const value = (condition as FlowCondition).rightValue ??
+    (condition as FlowRecordFilter).value;
+
+  if (CHECK_OPERATORS[operator]) {
+    const [positive, negative] = CHECK_OPERATORS[operator];
+    const checked = value?.booleanValue === undefined ||
+      String(value.booleanValue) === "true";
+    return `${left} ${checked ? positive : negative}`;
+  }
+
+  return `${left} ${BINARY_OPERATORS[operator] ?? operator} ${
+    renderValue(value)
+  }`;
+}
+
+/**
+ * Render a Flow value as it appears in a condition expression
+ * Text is single-quoted, numbers, booleans, dates and references are not.
+ * @param value Value to render
+ * @returns Rendered value, `null` if the value is empty
+ * @example
+ * renderValue({ stringValue: "New" }); // "'New'"
+ * renderValue({ elementReference: "$Record.Amount" }); // "$Record.Amount"
+ */
+export function renderValue(
+  value: FlowElementReferenceOrValue | undefined,
+): string {
+  if (!value) return "null";
+  if (value.elementReference !== undefined) return value.elementReference;
+  if (value.stringValue !== undefined) {
+    return `'${
+      String(value.stringValue).replace(/\\/g, "\\\\").replace(/'/g, "\\'")
+    }'`;
+  }
+  if (value.numberValue !== undefined) return String(value.numberValue);
+  if (value.booleanValue !== undefined) return String(value.booleanValue);
+  if (value.dateValue instanceof Date) {
+    return formatTemporal(value.dateValue, "date");
+  }
+  if (value.dateValue !== undefined) return String(value.dateValue);
+  if (value.dateTimeValue instanceof Date) {
+    return formatTemporal(value.dateTimeValue, "datetime");
+  }
+  if (value.dateTimeValue !== undefined) return String(value.dateTimeValue);
+  if (value.formulaExpression !== undefined) {
+    return `(${value.formulaExpression})`;
+  }
+  return String(
+    value.apexValue ?? value.sobjectValue ?? value.setupReference ?? "null",
+  );
+}
+
+/**
+ * Conditions parsed from an expression
+ */
+export interface ParsedConditions {
+  conditions: FlowCondition[];
+  /** `and`, `or` or a custom logic such as `1 AND (2 OR 3)` */
+  conditionLogic: string;
+}
+
+/**
+ * Record filters parsed from an expression
+ */
+export interface ParsedFilters {
+  filters: FlowRecordFilter[];
+  /** `and`, `or` or a custom logic such as `1 AND (2 OR 3)` */
+  filterLogic: string;
+}
+
+/**
+ * Token of a condition expression
+ */
+type Token = {
+  type: "(" | ")" | "string" | "symbol" | "word" | "literal";
+  value: string;
+  position: number;
+};
+
+/**
+ * Node of a parsed condition expression
+ */
+type ExpressionNode =
+  | { type: "condition"; index: number }
+  | { type: "not"; operand: ExpressionNode }
+  | { type: "and" | "or"; operands: ExpressionNode[] };
+
+/**
+ * Parse a boolean expression into decision rule or wait event conditions
+ * Accepts the syntax produced by renderConditions: comparisons such as
+ * `Amount > 100`, checks such as `Email IS NOT NULL`, combined with `AND`,
+ * `OR`, `NOT` and parentheses.
+ * @param expression Expression to parse
+ * @returns Conditions in order of appearance and the matching condition logic
+ * @throws Error if the expression is invalid
+ * @example
+ * const { conditions, conditionLogic } = parseConditions(
+ *   "$Record.Status__c = 'New' AND Amount > 100",
+ * );
+ * // conditionLogic === "and"
+ */
+export function parseConditions(expression: string): ParsedConditions {
+  const { comparisons, logic } = parseExpression(expression);
+  return {
+    conditions: comparisons.map(({ left, operator, value }) => {
+      const condition = {
+        leftValueReference: left,
+        operator,
+        processMetadataValues: [],
+      } as FlowCondition;
+      if (value) condition.rightValue = value;
+      return condition;
+    }),
+    conditionLogic: logic,
+  };
+}
+
+/**
+ * Parse a boolean expression into record filters, e.g. for record lookups,
+ * updates and deletes or the start node
+ * @param expression Expression to parse, with field names on the left side
+ * @returns Filters in order of appearance and the matching filter logic
+ * @throws Error if the expression is invalid or uses an operator record
+ * filters do not support
+ * @example
+ * const { filters, filterLogic } = parseFilters("Id = $Record.AccountId");
+ */
+export function parseFilters(expression: string): ParsedFilters {
+  const { comparisons, logic } = parseExpression(expression);
+  return {
+    filters: comparisons.map(({ left, operator, value, position }) => {
+      if (["WasSet", "WasSelected", "WasVisited"].includes(operator)) {
+        throw new Error(
+          `Invalid condition expression at position ${position}: operator ${operator} is not supported in record filters`,
+        );
+      }
+      const filter = {
+        field: left,
+        operator,
+        processMetadataValues: [],
+      } as FlowRecordFilter;
+      if (value) filter.value = value;
+      return filter;
+    }),
+    filterLogic: logic,
+  };
+}
+
+/**
+ * Parse an expression into comparisons and condition logic
+ * @param expression Expression to parse
+ * @returns Comparisons in order of appearance and the logic combining them
+ */
+function parseExpression(expression: string): {
+  comparisons: {
+    left: string;
+    operator: string;
+    value?: FlowElementReferenceOrValue;
+    position: number;
+  }[];
+  logic: string;
+} {
+  const tokens = tokenize(expression);
+  const comparisons: ReturnType<typeof parseExpression>["comparisons"] = [];
+  let current = 0;
+
+  const fail = (message: string, token = tokens[current]): never => {
+    const position = token?.position ?? expression.length;
+    throw new Error(
+      `Invalid condition expression at position ${position}: ${message}`,
+    );
+  };
+  const isKeyword = (offset: number, ...words: string[]) =>
+    words.every((word, index) => {
+      const token = tokens[current + offset + index];
+      return token?.type === "word" && token.value.toUpperCase() === word;
+    });
+
+  const parseOr = (): ExpressionNode => {
+    const operands = [parseAnd()];
+    while (isKeyword(0, "OR")) {
+      current++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    const operands = [parseUnary()];
+    while (isKeyword(0, "AND")) {
+      current++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isKeyword(0, "NOT")) {
+      current++;
+      return { type: "not", operand: parseUnary() };
+    }
+    if (tokens[current]?.type === "(") {
+      current++;
+      const node = parseOr();
+      if (tokens[current]?.type !== ")") fail("expected )");
+      current++;
+      return node;
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const leftToken = tokens[current];
+    if (leftToken?.type !== "word") fail("expected a reference");
+    current++;
+
+    const checkOperator = Object.entries(CHECK_OPERATORS).flatMap((
+      [operator, [positive, negative]],
+    ) => [
+      { operator, words: positive.split(" "), checked: true },
+      { operator, words: negative.split(" "), checked: false },
+    ]).find(({ words }) => isKeyword(0, ...words));
+    if (checkOperator) {
+      current += checkOperator.words.length;
+      comparisons.push({
+        left: leftToken.value,
+        operator: checkOperator.operator,
+        value: { booleanValue: checkOperator.checked },
+        position: leftToken.position,
+      });
+      return { type: "condition", index: comparisons.length };
+    }
+
+    const operator = parseOperator();
+    comparisons.push({
+      left: leftToken.value,
+      operator,
+      value: parseValue(),
+      position: leftToken.position,
+    });
+    return { type: "condition", index: comparisons.length };
+  };
+
+  const parseOperator = (): string => {
+    const token = tokens[current];
+    if (token?.type === "symbol") {
+      current++;
+      const symbol = token.value === "=="
+        ? "="
+        : token.value === "<>"
+        ? "!="
+        : token.value;
+      return Object.keys(BINARY_OPERATORS).find((operator) =>
+        BINARY_OPERATORS[operator] === symbol
+      )!;
+    }
+    const match = Object.entries(BINARY_OPERATORS)
+      .map(([operator, text]) => ({ operator, words: text.split(" ") }))
+      .filter(({ words }) => /^[A-Z ]+$/.test(words.join(" ")))
+      .sort((a, b) => b.words.length - a.words.length)
+      .find(({ words }) => isKeyword(0, ...words));
+    if (!match) return fail("expected an operator");
+    current += match.words.length;
+    return match.operator;
+  };
+
+  const parseValue = (): FlowElementReferenceOrValue | undefined => {
+    const token = tokens[current];
+    if (!token || token.type === "(" || token.type === ")") {
+      return fail("expected a value");
+    }
+    current++;
+    if (token.type === "string") return { stringValue: token.value };
+    if (token.type === "literal") {
+      if (/^-?\d+(\.\d+)?$/.test(token.value)) {
+        return { numberValue: Number(token.value) };
+      }
+      const type = token.value.includes("T") ? "datetime" : "date";
+      const date = parseTemporal(token.value, type);
+      if (!date) return fail("invalid date", token);
+      return type === "datetime"
+        ? { dateTimeValue: date }
+        : { dateValue: date };
+    }
+    if (token.type === "symbol") return fail("expected a value", token);
+    const word = token.value.toLowerCase();
+    if (word === "true" || word === "false") {
+      return { booleanValue: word === "true" };
+    }
+    if (word === "null") return undefined;
+    return { elementReference: token.value };
+  };
+
+  if (tokens.length === 0) fail("expected a condition");
+  const root = parseOr();
+  if (current < tokens.length) fail(`unexpected ${tokens[current].value}`);
+
+  return { comparisons, logic: formatLogic(root) };
+}
+
+/**
+ * Split a condition expression into tokens
+ * @param expression Expression to split
+ * @returns Tokens with their positions
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const patterns: [Token["type"], RegExp][] = [
+    ["literal", /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?/],
+    ["literal", /^-?\d+(\.\d+)?(?![\w$.])/],
+    ["symbol", /^(==|!=|<>|>=|<=|=|>|<)/],
+    ["word", /^\{![^{}]+\}/],
+    ["word", /^[\w$][\w$.]*/],
+  ];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const char = rest[0];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char, value: char, position });
+      position++;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      let value = "";
+      let end = position + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === "\\" && end + 1 < expression.length) end++;
+        value += expression[end];
+        end++;
+      }
+      if (end >= expression.length) {
+        throw new Error(
+          `Invalid condition expression at position ${position}: unterminated string`,
+        );
+      }
+      tokens.push({ type: "string", value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const pattern = patterns.find(([, regex]) => regex.test(rest));
+    if (!pattern) {
+      throw new Error(
+        `Invalid condition expression at position ${position}: unexpected ${char}`,
+      );
+    }
+    const [type, regex] = pattern;
+    const value = rest.match(regex)![0];
+    tokens.push({
+      type,
+      value: value.startsWith("{!") ? value.slice(2, -1).trim() : value,
+      position,
+    });
+    position += value.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Format a parsed expression as condition logic
+ * Expressions using only AND or only OR become `and` or `or`, anything else
+ * is numbered custom logic with parentheses around nested groups.
+ * @param node Root of the parsed expression
+ * @returns Condition logic
+ */
+function formatLogic(node: ExpressionNode): string {
+  if (node.type === "condition") return "and";
+  if (
+    (node.type === "and" || node.type === "or") &&
+    node.operands.every((operand) => operand.type === "condition")
+  ) {
+    return node.type;
+  }
+
+  const format = (child: ExpressionNode, parent?: string): string => {
+    switch (child.type) {
+      case "condition":
+        return String(child.index);
+      case "not":
+        return `NOT ${format(child.operand, "not")}`;
+      default: {
+        const text = child.operands.map((operand) =>
+          format(operand, child.type)
+        ).join(` ${child.type.toUpperCase()} `);
+        return parent ? `(${text})` : text;
+      }
+    }
+  };
+  return format(node);
+}
@@ -2,6 +2,7 @@
  * Constants file for Flow parser
  * Contains all property definitions and configurations
  */
+import type { NestedSortPolicy } from "./types.ts";
 
 /**
  * List of node types that should be included in getFlowNodes
@@ -26,6 +27,59 @@ export const FLOW_ARRAY_NODES = [
   "orchestratedStages",
 ];
 
+/**
+ * Properties identifying the FLOW_ARRAY_NODES collection a node belongs to
+ * Signatures are checked in order; a node matches a signature when it has all
+ * of its properties. Record rollbacks have no distinctive properties and are
+ * never inferred.
+ */
+export const NODE_COLLECTION_SIGNATURES: {
+  collection: string;
+  properties: string[];
+}[] = [
+  { collection: "transforms", properties: ["transformValues"] },
+  { collection: "screens", properties: ["fields"] },
+  { collection: "decisions", properties: ["rules"] },
+  { collection: "waits", properties: ["waitEvents"] },
+  { collection: "assignments", properties: ["assignmentItems"] },
+  {
+    collection: "collectionProcessors",
+    properties: ["collectionProcessorType"],
+  },
+  { collection: "loops", properties: ["nextValueConnector"] },
+  { collection: "loops", properties: ["noMoreValuesConnector"] },
+  { collection: "loops", properties: ["iterationOrder"] },
+  { collection: "actionCalls", properties: ["actionName"] },
+  { collection: "actionCalls", properties: ["actionType"] },
+  { collection: "apexPluginCalls", properties: ["apexClass"] },
+  { collection: "subflows", properties: ["flowName"] },
+  { collection: "customErrors", properties: ["customErrorMessages"] },
+  { collection: "orchestratedStages", properties: ["stageSteps"] },
+  { collection: "recordLookups", properties: ["queriedFields"] },
+  { collection: "recordLookups", properties: ["outputAssignments"] },
+  { collection: "recordLookups", properties: ["outputReference"] },
+  { collection: "recordLookups", properties: ["getFirstRecordOnly"] },
+  { collection: "recordUpdates", properties: ["filters", "inputAssignments"] },
+  { collection: "recordCreates", properties: ["inputAssignments"] },
+  { collection: "recordCreates", properties: ["assignRecordIdToReference"] },
+  { collection: "recordDeletes", properties: ["filters"] },
+];
+
+/**
+ * Connector property used for the regular path of nodes in each collection
+ * Collections not listed use `connector`.
+ */
+export const PRIMARY_CONNECTOR_PROPERTIES: Record<string, string> = {
+  decisions: "defaultConnector",
+  waits: "defaultConnector",
+  loops: "noMoreValuesConnector",
+};
+
+/**
+ * Name used for the start node, which has no name of its own in Flow metadata
+ */
+export const START_NODE_NAME = "$Start";
+
 /**
  * List of all Flow properties that should be arrays
  */
@@ -44,6 +98,23 @@ export const FLOW_ARRAY_PROPERTIES = [
   "variables",
 ];
 
+/**
+ * Flow array properties whose items are named elements sharing one namespace
+ * (nodes and resources such as variables, formulas and constants)
+ */
+export const FLOW_ELEMENT_PROPERTIES: string[] = FLOW_ARRAY_PROPERTIES.filter(
+  (prop) => prop !== "environments" && prop !== "processMetadataValues",
+);
+
+/**
+ * Flow array properties holding resources (variables, formulas, constants,
+ * text templates and choices) rather than nodes
+ */
+export const RESOURCE_PROPERTIES: string[] = FLOW_ELEMENT_PROPERTIES.filter(
+  (prop) =>
+    !FLOW_ARRAY_NODES.includes(prop) && prop !== "stages" && prop !== "steps",
+);
+
 /**
  * Configuration for nested array properties in Flow objects
  * Maps parent property to array of child properties that should be arrays
@@ -197,6 +268,8 @@ export const NESTED_ARRAY_CONFIG = {
 /**
  * Configuration for nested sorting in Flow objects
  * Maps parent property to array of child properties that should be sorted
+ * @deprecated Not used by the library, as decision rules and screen fields are
+ * order-significant. Use NESTED_SORT_POLICY instead.
  */
 export const NESTED_SORT_CONFIG: Record<string, { childArrays: string[] }> = {
   decisions: {
@@ -206,3 +279,71 @@ export const NESTED_SORT_CONFIG: Record<string, { childArrays: string[] }> = {
     childArrays: ["fields", "actions"],
   },
 };
+
+/**
+ * Sort policy of nested arrays by property name, applied at any depth
+ * Arrays that are not listed keep their order.
+ */
+export const NESTED_SORT_POLICY: Record<string, NestedSortPolicy> = {
+  // Evaluated or displayed in order, or referenced by position in a logic
+  assignmentItems: { ordered: true },
+  conditions: { ordered: true },
+  fields: { ordered: true },
+  filters: { ordered: true },
+  rules: { ordered: true },
+  // Keyed by name or field, order carries no meaning
+  inputAssignments: { ordered: false, keys: ["name", "field"] },
+  inputParameters: { ordered: false, keys: ["name"] },
+  processMetadataValues: { ordered: false, keys: ["name"] },
+};
+
+/**
+ * File name suffixes recognised as Flow metadata files when scanning directories
+ */
+export const FLOW_FILE_SUFFIXES = [".flow-meta.xml", ".flow"];
+
+/**
+ * Properties whose value is a reference to a Flow element, mapped to whether
+ * the reference reads or writes the element
+ * References may point at a field of the element, e.g. `Get_Account.Name`.
+ */
+export const REFERENCE_PROPERTIES: Record<string, "read" | "write"> = {
+  assignNextValueToReference: "write",
+  assignRecordIdToReference: "write",
+  assignToReference: "write",
+  choiceReferences: "read",
+  collectionReference: "read",
+  defaultSelectedChoiceReference: "read",
+  elementReference: "read",
+  inputReference: "read",
+  leftValueReference: "read",
+  outputReference: "write",
+  startElementReference: "read",
+  targetReference: "read",
+};
+
+/**
+ * Properties holding free text that may reference elements through merge
+ * fields such as `{!recordId}` or `{!Get_Account.Name}`, including the
+ * Flow-level `interviewLabel`
+ */
+export const MERGE_FIELD_PROPERTIES = [
+  "choiceText",
+  "errorMessage",
+  "fieldText",
+  "helpText",
+  "interviewLabel",
+  "stringValue",
+  "text",
+];
+
+/**
+ * Properties holding formula expressions, whose `{!...}` references are
+ * found with the formula tokenizer so that string literals are skipped
+ */
+export const FORMULA_PROPERTIES = [
+  "expression",
+  "filterFormula",
+  "formula",
+  "formulaExpression",
+];
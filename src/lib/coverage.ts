@@ -0,0 +1,311 @@
+/**
+ * Path coverage of Flow test runs
+ *
+ * This module measures which parts of a Flow a set of interpreter runs
+ * exercised: every element, and every outcome of an element such as decision
+ * rules, default paths, loop paths and fault paths. The result can be reported
+ * as text, JSON or in an lcov-like format for coverage tooling.
+ */
+import type { Flow, FlowDecision } from "@salesforce/types/metadata";
+import { getEdgeLabel } from "./diagram.ts";
+import { FlowGraph } from "./graph.ts";
+import type { ExecutionStep, FlowRunResult } from "./interpreter.ts";
+import type { ConnectorKind, FlowEdge } from "./types.ts";
+
+/**
+ * Execution count of an element
+ */
+export interface ElementCoverage {
+  /** Name of the element, `$Start` for the start node */
+  element: string;
+  /** Flow property holding the element, e.g. `decisions` */
+  collection: string;
+  /** Number of times the element was executed */
+  hits: number;
+}
+
+/**
+ * Execution count of an outcome of an element
+ */
+export interface BranchCoverage {
+  /** Name of the element the outcome belongs to */
+  element: string;
+  /** Kind of the outcome, e.g. `rule`, `default` or `fault` */
+  kind: ConnectorKind;
+  /** Rule, scheduled path or wait event name */
+  branch?: string;
+  /** Element the outcome leads to, undefined if the Flow ends there */
+  target?: string;
+  /** Readable label of the outcome, e.g. the rule label */
+  label: string;
+  /** Number of times the outcome was taken */
+  hits: number;
+}
+
+/**
+ * Number of covered items out of all items
+ */
+export interface CoverageCount {
+  covered: number;
+  total: number;
+}
+
+/**
+ * Coverage of a Flow across a set of runs
+ */
+export interface FlowCoverage {
+  /** API name of the Flow, its label if the name is unknown */
+  flow: string;
+  /** Number of runs analyzed */
+  runs: number;
+  /** Every element of the Flow in graph order */
+  elements: ElementCoverage[];
+  /** Every outcome of the elements except plain connectors */
+  branches: BranchCoverage[];
+  /** Covered and total counts of elements and branches */
+  summary: { elements: CoverageCount; branches: CoverageCount };
+}
+
+/**
+ * Output formats of formatCoverage
+ */
+export type CoverageFormat = "text" | "json" | "lcov";
+
+/**
+ * Options for formatCoverage
+ */
+export interface CoverageFormatOptions {
+  /** Source file named in lcov reports, `<flow>.flow-meta.xml` by default */
+  sourceFile?: string;
+}
+
+/**
+ * Compute the coverage of a Flow from interpreter runs
+ * Branches are all outgoing edges except plain connectors (which are covered
+ * with their element), plus decision rules and default outcomes that end the
+ * Flow because they have no connector.
+ * @param flow Flow object the runs executed
+ * @param runs Results of runFlow or their traces
+ * @returns Element and branch hit counts with a summary
+ * @example
+ * const coverage = computeCoverage(flow, [runFlow(flow, a), runFlow(flow, b)]);
+ * console.log(formatCoverage(coverage));
+ */
+export function computeCoverage(
+  flow: Flow,
+  runs: (FlowRunResult | ExecutionStep[])[],
+): FlowCoverage {
+  const graph = new FlowGraph(flow);
+  const steps = runs.flatMap((run) => Array.isArray(run) ? run : run.trace);
+  const countSteps = (match: (step: ExecutionStep) => boolean) =>
+    steps.filter(match).length;
+
+  const elements: ElementCoverage[] = graph.nodeNames.map((element) => ({
+    element,
+    collection: graph.getLocation(element)!.collection,
+    hits: countSteps((step) => step.element === element),
+  }));
+
+  const branches: BranchCoverage[] = graph.nodeNames.flatMap((element) => {
+    const node = graph.getNode(element)!;
+    let edges = graph.edgesFrom(element).filter((edge) =>
+      edge.kind !== "connector"
+    );
+    if (graph.getLocation(element)!.collection === "decisions") {
+      const outcome = (kind: ConnectorKind, branch?: string) =>
+        edges.find((edge) => edge.kind === kind && edge.branch === branch) ??
+          createOutcome(element, kind, branch);
+      edges = [
+        ...((node as FlowDecision).rules ?? []).map((rule) =>
+          outcome("rule", rule.name)
+        ),
+        outcome("default"),
+        ...edges.filter((edge) => !["rule", "default"].includes(edge.kind)),
+      ];
+    }
+
+    return edges.map((edge) => {
+      const branch: BranchCoverage = {
+        element,
+        kind: edge.kind,
+        label: getEdgeLabel(node, edge),
+        hits: countSteps((step) =>
+          step.element === element && step.kind === edge.kind &&
+          step.branch === edge.branch
+        ),
+      };
+      if (edge.branch !== undefined) branch.branch = edge.branch;
+      if (edge.target) branch.target = edge.target;
+      return branch;
+    });
+  });
+
+  const count = (items: { hits: number }[]): CoverageCount => ({
+    covered: items.filter((item) => item.hits > 0).length,
+    total: items.length,
+  });
+  return {
+    flow: (flow as { fullName?: string }).fullName || flow.label || "Flow",
+    runs: runs.length,
+    elements,
+    branches,
+    summary: { elements: count(elements), branches: count(branches) },
+  };
+}
+
+/**
+ * Format a coverage report
+ * The text report lists the totals followed by the uncovered elements and
+ * outcomes. The lcov report numbers the elements in graph order as lines and
+ * reports their outcomes as branches.
+ * @param coverage Coverage returned by computeCoverage
+ * @param format Output format, `text` by default
+ * @param options Format options
+ * @returns Report text
+ * @example
+ * Deno.writeTextFileSync(
+ *   "coverage/flow.lcov",
+ *   formatCoverage(coverage, "lcov", { sourceFile: "flows/My.flow-meta.xml" }),
+ * );
+ */
+export function formatCoverage(
+  coverage: FlowCoverage,
+  format: CoverageFormat = "text",
+  options: CoverageFormatOptions = {},
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(coverage, null, 2);
+    case "lcov":
+      return formatLcov(coverage, options);
+    default:
+      return formatText(coverage);
+  }
+}
+
+/**
+ * Create an outcome without a connector
+ * @param source Element the outcome belongs to
+ * @param kind Kind of the outcome
+ * @param branch Rule name for rule outcomes
+ * @returns Edge without a target
+ */
+function createOutcome(
+  source: string,
+  kind: ConnectorKind,
+  branch?: string,
+): FlowEdge {
+  return {
+    source,
+    target: "",
+    kind,
+    path: "",
+    ...(branch !== undefined ? { branch } : {}),
+  } as FlowEdge;
+}
+
+/**
+ * Format a coverage report as text
+ * @param coverage Coverage to format
+ * @returns Totals and uncovered items
+ */
+function formatText(coverage: FlowCoverage): string {
+  const { elements, branches } = coverage.summary;
+  const lines = [
+    `Coverage of ${coverage.flow} (${coverage.runs} ${
+      coverage.runs === 1 ? "run" : "runs"
+    })`,
+    `Elements: ${formatCount(elements)}`,
+    `Branches: ${formatCount(branches)}`,
+  ];
+
+  const uncoveredElements = coverage.elements.filter((item) => item.hits === 0);
+  if (uncoveredElements.length > 0) {
+    lines.push(
+      "",
+      "Uncovered elements:",
+      ...uncoveredElements.map((item) =>
+        `- ${item.element} (${item.collection})`
+      ),
+    );
+  }
+
+  const uncoveredBranches = coverage.branches.filter((item) => item.hits === 0);
+  if (uncoveredBranches.length > 0) {
+    lines.push(
+      "",
+      "Uncovered branches:",
+      ...uncoveredBranches.map((item) =>
+        `- ${item.element}: ${item.label || item.kind} (${item.kind})${
+          item.target ? ` → ${item.target}` : ""
+        }`
+      ),
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a coverage report in lcov format
+ * @param coverage Coverage to format
+ * @param options Format options
+ * @returns lcov record of the Flow
+ */
+function formatLcov(
+  coverage: FlowCoverage,
+  options: CoverageFormatOptions,
+): string {
+  const sourceFile = options.sourceFile ?? `${coverage.flow}.flow-meta.xml`;
+  const lines = ["TN:", `SF:${sourceFile}`];
+  const lineNumbers = new Map(
+    coverage.elements.map((item, index) => [item.element, index + 1]),
+  );
+
+  coverage.elements.forEach((item) =>
+    lines.push(`FN:${lineNumbers.get(item.element)},${item.element}`)
+  );
+  coverage.elements.forEach((item) =>
+    lines.push(`FNDA:${item.hits},${item.element}`)
+  );
+  lines.push(
+    `FNF:${coverage.summary.elements.total}`,
+    `FNH:${coverage.summary.elements.covered}`,
+  );
+
+  const branchIndexes = new Map<string, number>();
+  coverage.branches.forEach((item) => {
+    const index = branchIndexes.get(item.element) ?? 0;
+    branchIndexes.set(item.element, index + 1);
+    lines.push(
+      `BRDA:${lineNumbers.get(item.element)},0,${index},${
+        item.hits > 0 ? item.hits : "-"
+      }`,
+    );
+  });
+  lines.push(
+    `BRF:${coverage.summary.branches.total}`,
+    `BRH:${coverage.summary.branches.covered}`,
+  );
+
+  coverage.elements.forEach((item) =>
+    lines.push(`DA:${lineNumbers.get(item.element)},${item.hits}`)
+  );
+  lines.push(
+    `LF:${coverage.summary.elements.total}`,
+    `LH:${coverage.summary.elements.covered}`,
+    "end_of_record",
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format a coverage count with its percentage
+ * @param count Count to format
+ * @returns Text such as `3/4 (75.0%)`
+ */
+function formatCount(count: CoverageCount): string {
+  const percent = count.total === 0 ? 100 : count.covered / count.total * 100;
+  return `${count.covered}/${count.total} (${percent.toFixed(1)}%)`;
+}
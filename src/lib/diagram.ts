@@ -0,0 +1,273 @@
+/**
+ * Text diagrams of Flows
+ *
+ * This module renders the graph of a Flow as Mermaid flowchart or Graphviz
+ * DOT source, e.g. for documentation and pull request descriptions. Nodes are
+ * shaped by element type and edges are labelled with rule labels, default
+ * outcome labels, fault paths, loop paths, scheduled paths and wait events.
+ */
+import type { Flow, FlowNode } from "@salesforce/types/metadata";
+import { START_NODE_NAME } from "./constants.ts";
+import { FlowGraph } from "./graph.ts";
+import type { FlowEdge } from "./types.ts";
+
+/**
+ * Options for toMermaid and toDot
+ */
+export interface DiagramOptions {
+  /** Layout direction, top to bottom by default */
+  direction?: "TB" | "LR";
+}
+
+/**
+ * Node of a diagram
+ */
+type DiagramNode = {
+  /** Element name */
+  name: string;
+  /** Text shown in the node */
+  label: string;
+  /** Flow property holding the node, `start` for the start node */
+  collection: string;
+};
+
+/**
+ * Edge of a diagram
+ */
+type DiagramEdge = {
+  source: string;
+  target: string;
+  /** Text shown on the edge, empty for plain connectors */
+  label: string;
+  /** Whether the edge is a fault path */
+  fault: boolean;
+};
+
+/**
+ * Mermaid node shapes by collection, as opening and closing brackets
+ */
+const MERMAID_SHAPES: Record<string, [string, string]> = {
+  start: ["([", "])"],
+  decisions: ["{", "}"],
+  loops: ["{{", "}}"],
+  screens: ["[/", "/]"],
+  waits: ["((", "))"],
+  customErrors: [">", "]"],
+  actionCalls: ["[[", "]]"],
+  apexPluginCalls: ["[[", "]]"],
+  subflows: ["[[", "]]"],
+  recordLookups: ["[(", ")]"],
+  recordCreates: ["[(", ")]"],
+  recordUpdates: ["[(", ")]"],
+  recordDeletes: ["[(", ")]"],
+  recordRollbacks: ["[(", ")]"],
+};
+
+/**
+ * Graphviz node shapes by collection
+ */
+const DOT_SHAPES: Record<string, string> = {
+  start: "oval",
+  decisions: "diamond",
+  loops: "hexagon",
+  screens: "parallelogram",
+  waits: "octagon",
+  customErrors: "note",
+  actionCalls: "component",
+  apexPluginCalls: "component",
+  subflows: "component",
+  recordLookups: "cylinder",
+  recordCreates: "cylinder",
+  recordUpdates: "cylinder",
+  recordDeletes: "cylinder",
+  recordRollbacks: "cylinder",
+};
+
+/**
+ * Render a Flow as a Mermaid flowchart
+ * @param flow Flow object to render
+ * @param options Diagram options
+ * @returns Mermaid source starting with `flowchart TB`
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * console.log("```mermaid\n" + toMermaid(flow) + "\n```");
+ */
+export function toMermaid(flow: Flow, options: DiagramOptions = {}): string {
+  const { nodes, edges } = buildDiagram(flow);
+  const lines = [`flowchart ${options.direction ?? "TB"}`];
+
+  nodes.forEach((node) => {
+    const [open, close] = MERMAID_SHAPES[node.collection] ?? ["[", "]"];
+    lines.push(
+      `    ${toMermaidId(node.name)}${open}"${
+        escapeMermaid(node.label)
+      }"${close}`,
+    );
+  });
+
+  edges.forEach((edge) => {
+    const arrow = edge.fault ? "-.->" : "-->";
+    const label = edge.label ? `|"${escapeMermaid(edge.label)}"|` : "";
+    lines.push(
+      `    ${toMermaidId(edge.source)} ${arrow}${label} ${
+        toMermaidId(edge.target)
+      }`,
+    );
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a Flow as a Graphviz DOT digraph
+ * @param flow Flow object to render
+ * @param options Diagram options
+ * @returns DOT source, e.g. for `dot -Tsvg`
+ * @example
+ * Deno.writeTextFileSync("flow.dot", toDot(parseFromFile("path/to/flow.xml")));
+ */
+export function toDot(flow: Flow, options: DiagramOptions = {}): string {
+  const { nodes, edges } = buildDiagram(flow);
+  const lines = [
+    `digraph ${quoteDot(flow.label ?? "Flow")} {`,
+    `    rankdir=${options.direction ?? "TB"};`,
+    `    node [fontname="Helvetica", shape=box];`,
+    `    edge [fontname="Helvetica"];`,
+  ];
+
+  nodes.forEach((node) => {
+    const shape = DOT_SHAPES[node.collection];
+    const attributes = [`label=${quoteDot(node.label)}`];
+    if (shape) attributes.push(`shape=${shape}`);
+    lines.push(`    ${quoteDot(node.name)} [${attributes.join(", ")}];`);
+  });
+
+  edges.forEach((edge) => {
+    const attributes: string[] = [];
+    if (edge.label) attributes.push(`label=${quoteDot(edge.label)}`);
+    if (edge.fault) attributes.push("style=dashed", "color=red");
+    lines.push(
+      `    ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${
+        attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""
+      };`,
+    );
+  });
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Collect the nodes and labelled edges of a Flow
+ * Legacy Flows without a start node get one pointing at their
+ * startElementReference.
+ * @param flow Flow object to read
+ * @returns Diagram nodes and edges
+ */
+function buildDiagram(
+  flow: Flow,
+): { nodes: DiagramNode[]; edges: DiagramEdge[] } {
+  const graph = new FlowGraph(flow);
+  const nodes: DiagramNode[] = graph.nodeNames.map((name) => {
+    const collection = graph.getLocation(name)!.collection;
+    return {
+      name,
+      collection,
+      label: collection === "start"
+        ? "Start"
+        : graph.getNode(name)!.label || name,
+    };
+  });
+  const edges: DiagramEdge[] = graph.edges.map((edge) => ({
+    source: edge.source,
+    target: edge.target,
+    label: getEdgeLabel(graph.getNode(edge.source)!, edge),
+    fault: edge.kind === "fault",
+  }));
+
+  if (!flow.start && flow.startElementReference) {
+    nodes.unshift({
+      name: START_NODE_NAME,
+      label: "Start",
+      collection: "start",
+    });
+    edges.unshift({
+      source: START_NODE_NAME,
+      target: flow.startElementReference,
+      label: "",
+      fault: false,
+    });
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Get the label of an edge
+ * @param node Node the edge leaves from
+ * @param edge Edge to label
+ * @returns Label shown on the edge, empty for plain connectors
+ */
+export function getEdgeLabel(node: FlowNode, edge: FlowEdge): string {
+  const branches = {
+    rule: "rules",
+    scheduledPath: "scheduledPaths",
+    waitEvent: "waitEvents",
+  } as Record<string, string>;
+
+  switch (edge.kind) {
+    case "default":
+      return (node as { defaultConnectorLabel?: string })
+        .defaultConnectorLabel || "Default";
+    case "fault":
+      return "Fault";
+    case "nextValue":
+      return "For Each";
+    case "noMoreValues":
+      return "After Last";
+    case "rule":
+    case "scheduledPath":
+    case "waitEvent": {
+      const items = (node as unknown as Record<string, unknown>)[
+        branches[edge.kind]
+      ] as { name?: string; label?: string }[] | undefined;
+      const branch = items?.find((item) => item.name === edge.branch);
+      return branch?.label || edge.branch || "";
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Convert an element name into a Mermaid node id
+ * Ids are prefixed so names such as `end` or `graph` are not read as Mermaid
+ * keywords.
+ * @param name Element name
+ * @returns Id containing only letters, digits and underscores
+ * @example
+ * toMermaidId("$Start"); // "n__Start"
+ */
+function toMermaidId(name: string): string {
+  return `n_${name.replace(/[^A-Za-z0-9_]/g, "_")}`;
+}
+
+/**
+ * Escape text for a quoted Mermaid label
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/\n/g, " ");
+}
+
+/**
+ * Quote text as a DOT string
+ * @param text Text to quote
+ * @returns Quoted and escaped text
+ */
+function quoteDot(text: string): string {
+  return `"${
+    text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+  }"`;
+}
@@ -0,0 +1,461 @@
+/**
+ * Semantic diff of Flows
+ *
+ * This module compares two Flow objects element by element instead of line by
+ * line: elements are matched by name (the identity sortByName relies on), so
+ * reordering does not show up as a change, except for the items of
+ * order-significant arrays such as decision rules. The result lists added, removed
+ * and changed elements with their connector and property changes and can be
+ * formatted as Markdown for code review comments.
+ */
+import type { Flow, FlowNode } from "@salesforce/types/metadata";
+import {
+  FLOW_ELEMENT_PROPERTIES,
+  NESTED_SORT_POLICY,
+  START_NODE_NAME,
+} from "./constants.ts";
+import { getTypedConnectors } from "./nodes.ts";
+import type {
+  BaseFlowNodeWithConnector,
+  ConnectorChange,
+  NamedObject,
+} from "./types.ts";
+
+/**
+ * Kind of change of an element
+ */
+export type ElementChangeType = "added" | "removed" | "changed";
+
+/**
+ * Change of a single value
+ */
+export interface PropertyChange {
+  /**
+   * Path of the value relative to its element (or to the Flow for Flow
+   * properties); named array items are addressed by name, e.g.
+   * `rules[Is_New].conditions[0].operator`
+   */
+  path: string;
+  /** Value in the first Flow, undefined if the value was added */
+  before?: unknown;
+  /** Value in the second Flow, undefined if the value was removed */
+  after?: unknown;
+}
+
+/**
+ * Change of a named element
+ */
+export interface ElementDiff {
+  /** Flow property holding the element, e.g. `decisions`, or `start` */
+  collection: string;
+  /** Name of the element, `$Start` for the start node */
+  name: string;
+  /** Whether the element was added, removed or changed */
+  type: ElementChangeType;
+  /** Connectors that were added, retargeted or removed (changed nodes only) */
+  connectors: ConnectorChange[];
+  /** Property changes other than connectors (changed elements only) */
+  properties: PropertyChange[];
+}
+
+/**
+ * Result of diffFlows
+ */
+export interface FlowDiff {
+  /** Changes of Flow properties such as `label`, `status` or `apiVersion` */
+  properties: PropertyChange[];
+  /** Changes of nodes and resources in the order of FLOW_ELEMENT_PROPERTIES */
+  elements: ElementDiff[];
+}
+
+/**
+ * Options for diffFlows
+ */
+export interface DiffOptions {
+  /** Report changes of `locationX` and `locationY`, false by default */
+  includeLocation?: boolean;
+}
+
+/**
+ * Properties holding connectors, which are reported as connector changes
+ */
+const CONNECTOR_PROPERTIES = [
+  "connector",
+  "defaultConnector",
+  "faultConnector",
+  "nextValueConnector",
+  "noMoreValuesConnector",
+];
+
+/**
+ * Properties holding the canvas location of an element
+ */
+const LOCATION_PROPERTIES = ["locationX", "locationY"];
+
+/**
+ * Compare two Flows element by element
+ * @param before Original Flow
+ * @param after Modified Flow
+ * @param options Diff options
+ * @returns Flow property changes and added, removed and changed elements
+ * @example
+ * const diff = diffFlows(parseFromFile("old.flow-meta.xml"), parseFromFile("new.flow-meta.xml"));
+ * console.log(formatFlowDiff(diff));
+ */
+export function diffFlows(
+  before: Flow,
+  after: Flow,
+  options: DiffOptions = {},
+): FlowDiff {
+  const elements: ElementDiff[] = [];
+
+  if (before.start || after.start) {
+    const diff = diffElement(
+      "start",
+      START_NODE_NAME,
+      before.start,
+      after.start,
+      options,
+    );
+    if (diff) elements.push(diff);
+  }
+
+  FLOW_ELEMENT_PROPERTIES.forEach((collection) => {
+    const beforeElements = getNamedItems(before, collection);
+    const afterElements = getNamedItems(after, collection);
+    const names = [
+      ...new Set([...beforeElements.keys(), ...afterElements.keys()]),
+    ];
+
+    names.forEach((name) => {
+      const diff = diffElement(
+        collection,
+        name,
+        beforeElements.get(name),
+        afterElements.get(name),
+        options,
+      );
+      if (diff) elements.push(diff);
+    });
+  });
+
+  const properties: PropertyChange[] = [];
+  const flowKeys = [
+    ...new Set([...Object.keys(before), ...Object.keys(after)]),
+  ].filter((key) => key !== "start" && !FLOW_ELEMENT_PROPERTIES.includes(key));
+  flowKeys.forEach((key) =>
+    diffValues(
+      (before as Record<string, unknown>)[key],
+      (after as Record<string, unknown>)[key],
+      key,
+      properties,
+      options,
+    )
+  );
+
+  return { properties, elements };
+}
+
+/**
+ * Check whether a diff contains any change
+ * @param diff Diff returned by diffFlows
+ * @returns true if nothing changed
+ */
+export function isEmptyDiff(diff: FlowDiff): boolean {
+  return diff.properties.length === 0 && diff.elements.length === 0;
+}
+
+/**
+ * Format a diff as Markdown, e.g. for pull request comments
+ * @param diff Diff returned by diffFlows
+ * @returns Markdown text, `No changes` if the diff is empty
+ * @example
+ * console.log(formatFlowDiff(diffFlows(before, after)));
+ * // ### Changed
+ * // - `decisions` **Check_Status**
+ * //   - connector `rule` rules[0].connector: `Notify` → `Send_Mail`
+ */
+export function formatFlowDiff(diff: FlowDiff): string {
+  if (isEmptyDiff(diff)) return "No changes";
+
+  const lines: string[] = [];
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    if (lines.length > 0) lines.push("");
+    lines.push(`### ${title}`, ...entries);
+  };
+  const formatElement = (element: ElementDiff) =>
+    `- \`${element.collection}\` **${element.name}**`;
+
+  section(
+    "Flow properties",
+    diff.properties.map((change) => `- ${formatPropertyChange(change)}`),
+  );
+  section(
+    "Added",
+    diff.elements.filter((element) => element.type === "added").map(
+      formatElement,
+    ),
+  );
+  section(
+    "Removed",
+    diff.elements.filter((element) => element.type === "removed").map(
+      formatElement,
+    ),
+  );
+  section(
+    "Changed",
+    diff.elements.filter((element) => element.type === "changed").flatMap(
+      (element) => [
+        formatElement(element),
+        ...element.connectors.map((change) =>
+          `  - connector \`${change.kind}\` ${change.path}: ${
+            formatValue(change.from)
+          } → ${formatValue(change.to)}`
+        ),
+        ...element.properties.map((change) =>
+          `  - ${formatPropertyChange(change)}`
+        ),
+      ],
+    ),
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Compare two versions of an element
+ * @param collection Flow property holding the element
+ * @param name Name of the element
+ * @param before Element in the first Flow
+ * @param after Element in the second Flow
+ * @param options Diff options
+ * @returns The element diff, undefined if the element did not change
+ */
+function diffElement(
+  collection: string,
+  name: string,
+  before: object | undefined,
+  after: object | undefined,
+  options: DiffOptions,
+): ElementDiff | undefined {
+  if (!before || !after) {
+    return {
+      collection,
+      name,
+      type: before ? "removed" : "added",
+      connectors: [],
+      properties: [],
+    };
+  }
+
+  const properties: PropertyChange[] = [];
+  diffValues(before, after, "", properties, options);
+  const connectors = diffConnectors(
+    name,
+    before as BaseFlowNodeWithConnector,
+    after as BaseFlowNodeWithConnector,
+  );
+
+  if (properties.length === 0 && connectors.length === 0) return undefined;
+  return { collection, name, type: "changed", connectors, properties };
+}
+
+/**
+ * Compare the connectors of two versions of a node
+ * Connectors are matched by kind and branch, so reordered rules do not count
+ * as changes.
+ * @param name Name of the node
+ * @param before Node in the first Flow
+ * @param after Node in the second Flow
+ * @returns Added, retargeted and removed connectors
+ */
+function diffConnectors(
+  name: string,
+  before: BaseFlowNodeWithConnector,
+  after: BaseFlowNodeWithConnector,
+): ConnectorChange[] {
+  const index = (node: BaseFlowNodeWithConnector) =>
+    new Map(
+      getTypedConnectors(node).map((typed) => [
+        typed.branch === undefined
+          ? typed.kind
+          : `${typed.kind}:${typed.branch}`,
+        typed,
+      ]),
+    );
+  const beforeConnectors = index(before);
+  const afterConnectors = index(after);
+  const changes: ConnectorChange[] = [];
+
+  new Set([...beforeConnectors.keys(), ...afterConnectors.keys()]).forEach(
+    (key) => {
+      const from = beforeConnectors.get(key);
+      const to = afterConnectors.get(key);
+      const fromTarget = from?.connector.targetReference;
+      const toTarget = to?.connector.targetReference;
+      if (fromTarget === toTarget) return;
+      const typed = (to ?? from)!;
+      changes.push({
+        element: name,
+        kind: typed.kind,
+        path: typed.path,
+        from: fromTarget,
+        to: toTarget,
+      });
+    },
+  );
+
+  return changes;
+}
+
+/**
+ * Recursively compare two values and collect the differences
+ * Arrays of named objects are matched by name, other arrays by index. When
+ * the items of an order-significant named array (see NESTED_SORT_POLICY), such
+ * as decision rules, are reordered, the names in both orders are reported as a
+ * change of the array. A missing value and an empty array are considered
+ * equal.
+ * @param before Value in the first Flow
+ * @param after Value in the second Flow
+ * @param path Path of the value
+ * @param changes Array receiving the changes
+ * @param options Diff options
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: PropertyChange[],
+  options: DiffOptions,
+): void {
+  if (isEmpty(before) && isEmpty(after)) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (isNamedArray(before) && isNamedArray(after)) {
+      const beforeItems = new Map(before.map((item) => [item.name, item]));
+      const afterItems = new Map(after.map((item) => [item.name, item]));
+      const property = /(\w+)$/.exec(path)?.[1] ?? "";
+      if (NESTED_SORT_POLICY[property]?.ordered) {
+        const beforeNames = before.map((item) => item.name!);
+        const afterNames = after.map((item) => item.name!);
+        const common = (names: string[], other: string[]) =>
+          names.filter((name) => other.includes(name)).join("\n");
+        if (
+          common(beforeNames, afterNames) !== common(afterNames, beforeNames)
+        ) {
+          changes.push({ path, before: beforeNames, after: afterNames });
+        }
+      }
+      new Set([...beforeItems.keys(), ...afterItems.keys()]).forEach((name) =>
+        diffValues(
+          beforeItems.get(name),
+          afterItems.get(name),
+          `${path}[${name}]`,
+          changes,
+          options,
+        )
+      );
+    } else {
+      for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        diffValues(before[i], after[i], `${path}[${i}]`, changes, options);
+      }
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach((key) => {
+      if (CONNECTOR_PROPERTIES.includes(key)) return;
+      if (!options.includeLocation && LOCATION_PROPERTIES.includes(key)) return;
+      diffValues(
+        before[key],
+        after[key],
+        path ? `${path}.${key}` : key,
+        changes,
+        options,
+      );
+    });
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    const change: PropertyChange = { path };
+    if (before !== undefined) change.before = before;
+    if (after !== undefined) change.after = after;
+    changes.push(change);
+  }
+}
+
+/**
+ * Index the named items of a Flow array property by name
+ * @param flow Flow object to read
+ * @param collection Flow array property
+ * @returns Items by name, in document order
+ */
+function getNamedItems(flow: Flow, collection: string): Map<string, FlowNode> {
+  const items = flow[collection as keyof Flow];
+  if (!Array.isArray(items)) return new Map();
+  return new Map(
+    (items as FlowNode[])
+      .filter((item) => item?.name)
+      .map((item) => [item.name!, item]),
+  );
+}
+
+/**
+ * Check whether every item of an array is an object with a name
+ * @param items Array to check
+ * @returns true if all items are named
+ */
+function isNamedArray(items: unknown[]): items is NamedObject[] {
+  return items.length > 0 &&
+    items.every((item) => isPlainObject(item) && typeof item.name === "string");
+}
+
+/**
+ * Check whether a value is a plain object
+ * @param value Value to check
+ * @returns true for objects other than arrays and dates
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Check whether a value is missing or an empty array
+ * @param value Value to check
+ * @returns true for undefined, null and empty arrays
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Format a property change for formatFlowDiff
+ * @param change Change to format
+ * @returns One line description of the change
+ */
+function formatPropertyChange(change: PropertyChange): string {
+  if (change.before === undefined) {
+    return `${change.path}: added ${formatValue(change.after)}`;
+  }
+  if (change.after === undefined) {
+    return `${change.path}: removed ${formatValue(change.before)}`;
+  }
+  return `${change.path}: ${formatValue(change.before)} → ${
+    formatValue(change.after)
+  }`;
+}
+
+/**
+ * Format a value for formatFlowDiff
+ * @param value Value to format
+ * @returns Value as inline code, `none` for undefined
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return "none";
+  return `\`${typeof value === "string" ? value : JSON.stringify(value)}\``;
+}
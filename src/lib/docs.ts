@@ -0,0 +1,382 @@
+/**
+ * Markdown documentation of Flows
+ *
+ * This module describes a Flow for admins and reviewers: its metadata and
+ * trigger, its input and output variables, every element in execution order
+ * with readable conditions, and the subflows, Apex classes and objects it
+ * depends on.
+ */
+import type {
+  Flow,
+  FlowActionCall,
+  FlowApexPluginCall,
+  FlowAssignment,
+  FlowDecision,
+  FlowLoop,
+  FlowNode,
+  FlowRecordLookup,
+  FlowStart,
+  FlowSubflow,
+  FlowVariable,
+  FlowWait,
+} from "@salesforce/types/metadata";
+import { renderConditions, renderValue } from "./conditions.ts";
+import { getEdgeLabel } from "./diagram.ts";
+import { FlowGraph } from "./graph.ts";
+import type { FlowEdge } from "./types.ts";
+import { formatProperties } from "./values.ts";
+
+/**
+ * Readable element types by collection
+ */
+const ELEMENT_TYPES: Record<string, string> = {
+  start: "Start",
+  actionCalls: "Action",
+  apexPluginCalls: "Apex Plugin",
+  assignments: "Assignment",
+  collectionProcessors: "Collection Processor",
+  customErrors: "Custom Error",
+  decisions: "Decision",
+  loops: "Loop",
+  orchestratedStages: "Stage",
+  recordCreates: "Create Records",
+  recordDeletes: "Delete Records",
+  recordLookups: "Get Records",
+  recordRollbacks: "Roll Back Records",
+  recordUpdates: "Update Records",
+  screens: "Screen",
+  steps: "Step",
+  subflows: "Subflow",
+  transforms: "Transform",
+  waits: "Wait",
+};
+
+/**
+ * Operations on objects by record collection, for the dependency list
+ */
+const RECORD_OPERATIONS: Record<string, string> = {
+  recordLookups: "read",
+  recordCreates: "create",
+  recordUpdates: "update",
+  recordDeletes: "delete",
+};
+
+/**
+ * Order in which the outgoing edges of a node are followed, so the main path
+ * and the outcomes are documented before default, loop exit and fault paths
+ */
+const EDGE_ORDER = [
+  "connector",
+  "rule",
+  "scheduledPath",
+  "waitEvent",
+  "nextValue",
+  "default",
+  "noMoreValues",
+  "fault",
+];
+
+/**
+ * Assignment operators rendered as symbols
+ */
+const ASSIGNMENT_OPERATORS: Record<string, string> = {
+  Assign: "=",
+  Add: "+=",
+  Subtract: "-=",
+};
+
+/**
+ * Generate Markdown documentation of a Flow
+ * @param flow Flow object to document
+ * @returns Markdown text starting with the Flow label as heading
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * Deno.writeTextFileSync("flow.md", documentFlow(flow));
+ */
+export function documentFlow(flow: Flow): string {
+  const lines: string[] = [`# ${flow.label || "Flow"}`];
+  if (flow.description) lines.push("", flow.description);
+
+  lines.push("", "## Metadata", "", "| Property | Value |", "| --- | --- |");
+  getMetadata(flow).forEach(([property, value]) =>
+    lines.push(`| ${property} | ${escapeTable(value)} |`)
+  );
+
+  const variables = (flow.variables ?? []) as FlowVariable[];
+  const inputs = variables.filter((variable) => isTrue(variable.isInput));
+  const outputs = variables.filter((variable) => isTrue(variable.isOutput));
+  lines.push("", "## Variables");
+  if (inputs.length === 0 && outputs.length === 0) {
+    lines.push("", "No input or output variables.");
+  }
+  [["Input", inputs], ["Output", outputs]].forEach(([title, items]) => {
+    if ((items as FlowVariable[]).length === 0) return;
+    lines.push(
+      "",
+      `### ${title}`,
+      "",
+      "| Name | Type | Collection | Description |",
+      "| --- | --- | --- | --- |",
+      ...(items as FlowVariable[]).map((variable) =>
+        `| \`${variable.name}\` | ${formatDataType(variable)} | ${
+          isTrue(variable.isCollection) ? "Yes" : "No"
+        } | ${escapeTable(variable.description ?? "")} |`
+      ),
+    );
+  });
+
+  const graph = new FlowGraph(flow);
+  lines.push("", "## Elements");
+  getExecutionOrder(graph).forEach((name, index) => {
+    const node = graph.getNode(name)!;
+    const collection = graph.getLocation(name)!.collection;
+    const title = collection === "start"
+      ? "Start"
+      : `${node.label || name} (\`${name}\`)`;
+    lines.push(
+      "",
+      `### ${index + 1}. ${title}`,
+      "",
+      `*${ELEMENT_TYPES[collection] ?? collection}*`,
+    );
+    if (node.description) lines.push("", node.description);
+
+    const details = describeElement(collection, node);
+    if (details.length > 0) lines.push("", ...details);
+
+    const edges = sortEdges(graph.edgesFrom(name));
+    if (edges.length > 0) {
+      lines.push(
+        "",
+        ...edges.map((edge) => {
+          const label = getEdgeLabel(node, edge);
+          return `- ${label ? `${label} ` : ""}→ \`${edge.target}\``;
+        }),
+      );
+    }
+  });
+
+  lines.push("", "## Dependencies");
+  const dependencies = getDependencies(flow);
+  if (dependencies.length === 0) lines.push("", "No dependencies.");
+  dependencies.forEach(([title, items]) =>
+    lines.push("", `### ${title}`, "", ...items.map((item) => `- ${item}`))
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Collect the metadata rows of a Flow, including its trigger
+ * @param flow Flow object to read
+ * @returns Property and value pairs, missing values are skipped
+ */
+function getMetadata(flow: Flow): [string, string][] {
+  const start = flow.start as FlowStart | undefined;
+  const rows: [string, unknown][] = [
+    ["Label", flow.label],
+    ["API Name", (flow as { fullName?: string }).fullName],
+    ["Process Type", flow.processType],
+    ["API Version", formatProperties(flow.apiVersion, "double")],
+    ["Status", flow.status],
+    ["Run In Mode", flow.runInMode],
+    ["Trigger Type", start?.triggerType],
+    ["Record Trigger", start?.recordTriggerType],
+    ["Object", start?.object],
+    [
+      "Entry Conditions",
+      start?.filterFormula ??
+        (start?.filters?.length ? `\`${renderConditions(start)}\`` : ""),
+    ],
+    ["Schedule", start?.schedule && formatSchedule(start.schedule)],
+  ];
+  return rows
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([property, value]) => [property, String(value)]);
+}
+
+/**
+ * Describe the configuration of an element
+ * @param collection Flow property holding the element
+ * @param node Element to describe
+ * @returns Markdown lines, empty if there is nothing to add
+ */
+function describeElement(collection: string, node: FlowNode): string[] {
+  switch (collection) {
+    case "decisions":
+      return (node as FlowDecision).rules.map((rule) =>
+        `- **${rule.label || rule.name}**: \`${renderConditions(rule)}\``
+      );
+    case "waits":
+      return (node as FlowWait).waitEvents.map((event) => {
+        const conditions = renderConditions(event);
+        return `- **${event.label || event.name}**${
+          conditions ? `: \`${conditions}\`` : ""
+        }`;
+      });
+    case "assignments":
+      return (node as FlowAssignment).assignmentItems.map((item) =>
+        `- \`${item.assignToReference} ${
+          ASSIGNMENT_OPERATORS[item.operator ?? "Assign"] ?? item.operator
+        } ${renderValue(item.value)}\``
+      );
+    case "recordLookups":
+    case "recordCreates":
+    case "recordUpdates":
+    case "recordDeletes": {
+      const record = node as FlowRecordLookup & { inputReference?: string };
+      const lines: string[] = [];
+      if (record.object) lines.push(`- Object: \`${record.object}\``);
+      if (record.inputReference) {
+        lines.push(`- Records: \`${record.inputReference}\``);
+      }
+      if (record.filters?.length) {
+        lines.push(`- Filter: \`${renderConditions(record)}\``);
+      }
+      return lines;
+    }
+    case "actionCalls": {
+      const action = node as FlowActionCall;
+      return [`- Action: \`${action.actionName}\` (${action.actionType})`];
+    }
+    case "apexPluginCalls":
+      return [`- Apex class: \`${(node as FlowApexPluginCall).apexClass}\``];
+    case "subflows":
+      return [`- Flow: \`${(node as FlowSubflow).flowName}\``];
+    case "loops":
+      return [`- Collection: \`${(node as FlowLoop).collectionReference}\``];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Order the nodes of a Flow as they are executed
+ * Nodes are visited depth-first from the entry point, following the main path
+ * and outcomes before default, loop exit and fault paths. Unreachable nodes
+ * come last.
+ * @param graph Graph of the Flow
+ * @returns Node names in execution order
+ */
+function getExecutionOrder(graph: FlowGraph): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name) || !graph.hasNode(name)) return;
+    visited.add(name);
+    order.push(name);
+    sortEdges(graph.edgesFrom(name)).forEach((edge) => visit(edge.target));
+  };
+
+  const entryPoint = graph.entryPoint;
+  if (entryPoint) visit(entryPoint);
+  graph.nodeNames.forEach(visit);
+
+  return order;
+}
+
+/**
+ * Sort edges in the order they are documented and followed
+ * @param edges Outgoing edges of a node
+ * @returns Sorted copy of the edges
+ */
+function sortEdges(edges: readonly FlowEdge[]): FlowEdge[] {
+  return [...edges].sort((a, b) =>
+    EDGE_ORDER.indexOf(a.kind) - EDGE_ORDER.indexOf(b.kind)
+  );
+}
+
+/**
+ * Collect the subflows, Apex classes and objects a Flow depends on
+ * @param flow Flow object to read
+ * @returns Sections with their sorted entries, empty sections are skipped
+ */
+function getDependencies(flow: Flow): [string, string[]][] {
+  const subflows = new Set<string>();
+  const apex = new Set<string>();
+  const objects = new Map<string, Set<string>>();
+  const touch = (object: string | undefined, operation: string) => {
+    if (!object) return;
+    if (!objects.has(object)) objects.set(object, new Set());
+    objects.get(object)!.add(operation);
+  };
+
+  (flow.subflows ?? []).forEach((node) => {
+    if (node.flowName) subflows.add(node.flowName);
+  });
+  (flow.actionCalls ?? []).forEach((node) => {
+    if (node.actionType === "apex" && node.actionName) {
+      apex.add(node.actionName);
+    }
+  });
+  (flow.apexPluginCalls ?? []).forEach((node) => {
+    if (node.apexClass) apex.add(node.apexClass);
+  });
+
+  const start = flow.start as FlowStart | undefined;
+  if (start?.object) touch(start.object, "trigger");
+  Object.entries(RECORD_OPERATIONS).forEach(([collection, operation]) => {
+    const nodes = flow[collection as keyof Flow];
+    if (!Array.isArray(nodes)) return;
+    (nodes as { object?: string }[]).forEach((node) =>
+      touch(node.object, operation)
+    );
+  });
+
+  const sorted = (items: Iterable<string>) => [...items].sort();
+  const sections: [string, string[]][] = [
+    ["Subflows", sorted(subflows).map((name) => `\`${name}\``)],
+    ["Apex", sorted(apex).map((name) => `\`${name}\``)],
+    [
+      "Objects",
+      sorted(objects.keys()).map((object) =>
+        `\`${object}\` (${[...objects.get(object)!].join(", ")})`
+      ),
+    ],
+  ];
+  return sections.filter(([, items]) => items.length > 0);
+}
+
+/**
+ * Format the data type of a variable
+ * @param variable Variable to describe
+ * @returns Data type with the object type or Apex class, e.g. `SObject (Account)`
+ */
+function formatDataType(variable: FlowVariable): string {
+  const type = variable.objectType ?? variable.apexClass;
+  return type ? `${variable.dataType} (${type})` : variable.dataType;
+}
+
+/**
+ * Format the schedule of a scheduled Flow
+ * @param schedule Schedule of the start node
+ * @returns Frequency, start date and time as the Metadata API writes them
+ */
+function formatSchedule(schedule: NonNullable<FlowStart["schedule"]>): string {
+  const formatted = formatProperties(schedule, "FlowSchedule") as Record<
+    string,
+    unknown
+  >;
+  return [formatted.frequency, formatted.startDate, formatted.startTime]
+    .filter((value) => value !== undefined)
+    .join(" ");
+}
+
+/**
+ * Check whether a parsed boolean is true
+ * @param value Boolean or its XML text
+ * @returns true for `true` and `"true"`
+ */
+function isTrue(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * Escape text for a Markdown table cell
+ * @param text Text to escape
+ * @returns Text without line breaks and with escaped pipes
+ */
+function escapeTable(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
@@ -0,0 +1,211 @@
+/**
+ * Flow file discovery
+ *
+ * This module provides functions for resolving command-line style inputs
+ * (file paths, directories and glob patterns) into a list of Flow files.
+ */
+import { FLOW_FILE_SUFFIXES } from "./constants.ts";
+
+/**
+ * Directory names that are never descended into when scanning for Flow files
+ */
+const IGNORED_DIRECTORIES = new Set(["node_modules", ".git", ".sfdx", ".sf"]);
+
+/**
+ * Check whether a file name looks like a Flow metadata file
+ * @param path File path or name to check
+ * @returns true if the path ends with one of the FLOW_FILE_SUFFIXES
+ * @example
+ * isFlowFile("force-app/main/default/flows/My_Flow.flow-meta.xml"); // true
+ * isFlowFile("README.md"); // false
+ */
+export function isFlowFile(path: string): boolean {
+  return FLOW_FILE_SUFFIXES.some((suffix) => path.endsWith(suffix));
+}
+
+/**
+ * Check whether a string contains glob syntax
+ * @param pattern String to check
+ * @returns true if the string contains any of `*`, `?`, `[` or `{`
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern into a regular expression matching whole paths
+ * Supports `**` (any number of directories), `*` (anything except `/`),
+ * `?` (a single character except `/`), `[abc]` character classes and
+ * `{a,b}` alternatives.
+ * @param glob Glob pattern to convert
+ * @returns Regular expression anchored at both ends
+ * @example
+ * globToRegExp("flows/**\/*.flow-meta.xml").test("flows/a/b.flow-meta.xml"); // true
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    switch (char) {
+      case "*":
+        if (glob[i + 1] === "*") {
+          // "**/" matches zero or more whole directories
+          if (glob[i + 2] === "/") {
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+        } else {
+          source += "[^/]*";
+        }
+        break;
+      case "?":
+        source += "[^/]";
+        break;
+      case "[": {
+        const end = glob.indexOf("]", i + 1);
+        if (end === -1) {
+          source += "\\[";
+        } else {
+          source += `[${glob.slice(i + 1, end).replace(/^!/, "^")}]`;
+          i = end;
+        }
+        break;
+      }
+      case "{":
+        inGroup = true;
+        source += "(?:";
+        break;
+      case "}":
+        source += inGroup ? ")" : "\\}";
+        inGroup = false;
+        break;
+      case ",":
+        source += inGroup ? "|" : ",";
+        break;
+      default:
+        source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Recursively list all Flow files in a directory
+ * @param dir Directory to scan
+ * @returns Paths of all Flow files below the directory
+ */
+function walkFlowFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of Deno.readDirSync(dir)) {
+    const path = joinPath(dir, entry.name);
+    if (entry.isDirectory) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        files.push(...walkFlowFiles(path));
+      }
+    } else if (entry.isFile && isFlowFile(entry.name)) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Recursively list all files in a directory matching a glob pattern
+ * @param dir Directory to start scanning from (the static prefix of the glob)
+ * @param matcher Regular expression produced by globToRegExp
+ * @returns Paths of all matching files
+ */
+function walkGlob(dir: string, matcher: RegExp): string[] {
+  const files: string[] = [];
+
+  for (const entry of Deno.readDirSync(dir)) {
+    const path = joinPath(dir, entry.name);
+    if (entry.isDirectory) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        files.push(...walkGlob(path, matcher));
+      }
+    } else if (entry.isFile && matcher.test(path)) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Join a directory and an entry name without doubling the separator
+ * @param dir Directory path
+ * @param name Entry name
+ * @returns Joined path
+ */
+function joinPath(dir: string, name: string): string {
+  if (dir === ".") return name;
+  return dir.endsWith("/") ? `${dir}${name}` : `${dir}/${name}`;
+}
+
+/**
+ * Get the directory part of a glob before its first wildcard segment
+ * @param glob Glob pattern
+ * @returns Directory to start scanning from
+ */
+function getGlobBase(glob: string): string {
+  const segments = glob.split("/");
+  const staticSegments: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (isGlob(segment)) break;
+    staticSegments.push(segment);
+  }
+  if (staticSegments.length === 0) return ".";
+  return staticSegments.join("/") || "/";
+}
+
+/**
+ * Resolve file paths, directories and glob patterns into a list of Flow files
+ * Directories are scanned recursively for files ending with one of the
+ * FLOW_FILE_SUFFIXES. Explicit file paths are always included, regardless of
+ * their name. Glob patterns are matched against paths relative to the current
+ * working directory.
+ * @param inputs File paths, directories or glob patterns
+ * @returns Sorted list of unique file paths
+ * @throws Error if an input is neither an existing path nor a glob pattern
+ * @example
+ * const files = collectFlowFiles(["force-app", "legacy/*.flow"]);
+ * files.forEach((file) => console.log(file));
+ */
+export function collectFlowFiles(inputs: string[]): string[] {
+  const files = new Set<string>();
+
+  inputs.forEach((input) => {
+    let info: Deno.FileInfo | undefined;
+    try {
+      info = Deno.statSync(input);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+
+    if (info?.isDirectory) {
+      walkFlowFiles(input).forEach((file) => files.add(file));
+    } else if (info?.isFile) {
+      files.add(input);
+    } else if (isGlob(input)) {
+      const pattern = input.startsWith("./") ? input.slice(2) : input;
+      walkGlob(getGlobBase(pattern), globToRegExp(pattern)).forEach((file) =>
+        files.add(file)
+      );
+    } else {
+      throw new Error(`File not found: ${input}`);
+    }
+  });
+
+  return [...files].sort();
+}
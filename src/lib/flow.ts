@@ -1,22 +1,47 @@
 import type {Flow} from "@salesforce/types/metadata";
 import * as xmlLib from "@libs/xml";
-import {ensureArrayProperties, sortFlowArrays} from "./helper.ts";
+import {ensureArrayProperties, orderFlowProperties, replaceSelfClosingTags, sortFlowArrays} from "./helper.ts";
+import {hasRetainedSource, retainSource, stringifyLossless} from "./lossless.ts";
 import {XML_CONFIG} from "./types.ts";
+import {coerceFlowValues, formatFlowValues} from "./values.ts";
+
+/**
+ * Options for parse and parseFromFile
+ */
+export interface ParseOptions {
+  /**
+   * Keep the original XML so stringify reproduces it byte-for-byte when
+   * nothing changed and only re-emits changed, added and removed top-level
+   * elements, preserving comments, unknown elements and the original order.
+   * Applies to the returned Flow object only, not to copies of it. False by
+   * default.
+   */
+  lossless?: boolean;
+}
 
 /**
  * Parse XML string into a Flow object
+ * Values are converted to the types of the metadata schema, e.g. `locationX`
+ * becomes a number while a `stringValue` of `00123` stays a string.
  * @param xml XML string to parse
+ * @param options Parse options
  * @returns Flow object
  * @throws Error if XML is invalid or doesn't contain a Flow element
+ * @example
+ * const flow = parse(xml, { lossless: true });
+ * flow.label = "Renamed";
+ * stringify(flow); // Original XML with only the label element changed
  */
-export function parse(xml: string): Flow {
+export function parse(xml: string, options: ParseOptions = {}): Flow {
   try {
-    const parsed = xmlLib.parse(xml);
+    const parsed = xmlLib.parse(xml, XML_CONFIG.parseOptions);
     if (!parsed["Flow"]) {
       throw new Error("XML does not contain a Flow element");
     }
     const flow = parsed["Flow"] as Flow;
     ensureArrayProperties(flow);
+    coerceFlowValues(flow);
+    if (options.lossless) retainSource(flow, xml);
     return flow;
   } catch (error: any) {
     if (error.message === "XML does not contain a Flow element") {
@@ -29,13 +54,14 @@ export function parse(xml: string): Flow {
 /**
  * Parse Flow from XML file
  * @param path Path to XML file
+ * @param options Parse options
  * @returns Flow object
  * @throws Error if file cannot be read or XML is invalid
  */
-export function parseFromFile(path: string): Flow {
+export function parseFromFile(path: string, options: ParseOptions = {}): Flow {
   try {
     const xml = Deno.readTextFileSync(path);
-    return parse(xml);
+    return parse(xml, options);
   } catch (error) {
     if (error instanceof Deno.errors.NotFound) {
       throw new Error(`File not found: ${path}`);
@@ -49,16 +75,17 @@ export function parseFromFile(path: string): Flow {
 
 /**
  * Convert Flow object to XML string
+ * Flows parsed with `lossless: true` keep their original text, order and
+ * comments for unchanged elements; other Flows are sorted and normalized.
  * @param flow Flow object to stringify
  * @returns XML string
  */
 export function stringify(flow: Flow): string {
-  // Replace self-closing tags with proper XML tags
-  const replaceSelfClosingTags = (value: string) =>
-    value.replace(/<(\w+)([^>]*)\/>\n/g, "<$1$2></$1>\n");
+  if (hasRetainedSource(flow)) return stringifyLossless(flow);
 
-  // Sort all array properties by name before stringifying
-  const sortedFlow = sortFlowArrays(flow);
+  // Sort all array properties by name, then order the properties of every
+  // element and format their values as the Metadata API does
+  const sortedFlow = formatFlowValues(orderFlowProperties(sortFlowArrays(flow)!));
 
   // Convert to XML
   const xmlString = xmlLib.stringify({
@@ -0,0 +1,688 @@
+/**
+ * Flow formula expressions
+ *
+ * This module tokenizes and checks formula expressions such as
+ * `IF({!Amount} > 100, "Big", UPPER({!$Record.Name}))`. It extracts the
+ * `{!...}` references, function names and literals, reports syntax errors with
+ * their position, rewrites references without touching string literals and
+ * evaluates expressions for local Flow runs.
+ */
+
+/**
+ * Kind of a formula token
+ */
+export type FormulaTokenType =
+  | "reference"
+  | "function"
+  | "identifier"
+  | "string"
+  | "number"
+  | "boolean"
+  | "null"
+  | "operator"
+  | "("
+  | ")"
+  | ",";
+
+/**
+ * Token of a formula expression
+ */
+export interface FormulaToken {
+  type: FormulaTokenType;
+  /**
+   * Token value: the reference without `{!` and `}`, the text of a string
+   * literal without quotes, or the source text for other tokens
+   */
+  value: string;
+  /** Offset of the first character of the token in the expression */
+  start: number;
+  /** Offset after the last character of the token in the expression */
+  end: number;
+}
+
+/**
+ * Syntax error of a formula expression
+ */
+export interface FormulaError {
+  /** Offset of the problem in the expression */
+  position: number;
+  message: string;
+}
+
+/**
+ * Literal value of a formula expression
+ */
+export interface FormulaLiteral {
+  type: "string" | "number" | "boolean" | "null";
+  value: string;
+}
+
+/**
+ * Result of parseFormula
+ */
+export interface ParsedFormula {
+  /** All tokens in order of appearance */
+  tokens: FormulaToken[];
+  /** Distinct references in order of appearance, e.g. `$Record.Name` */
+  references: string[];
+  /** Distinct function names in upper case, e.g. `IF` */
+  functions: string[];
+  /** Literals in order of appearance */
+  literals: FormulaLiteral[];
+  /** Syntax errors, empty for a valid expression */
+  errors: FormulaError[];
+}
+
+/**
+ * Operators of formula expressions, longest first
+ */
+const OPERATORS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<>",
+  "<=",
+  ">=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "^",
+  "&",
+  "=",
+  "<",
+  ">",
+];
+
+/**
+ * Operators that may also prefix an operand
+ */
+const UNARY_OPERATORS = ["+", "-"];
+
+/**
+ * Split a formula expression into tokens
+ * Comments are skipped. Problems such as unterminated strings or unexpected
+ * characters are reported as errors and tokenizing continues after them.
+ * @param expression Formula expression
+ * @returns Tokens and tokenizer errors
+ * @example
+ * tokenizeFormula("LEN({!Name}) > 3").tokens.map((token) => token.type);
+ * // ["function", "(", "reference", ")", "operator", "number"]
+ */
+export function tokenizeFormula(
+  expression: string,
+): { tokens: FormulaToken[]; errors: FormulaError[] } {
+  const tokens: FormulaToken[] = [];
+  const errors: FormulaError[] = [];
+  let position = 0;
+
+  const push = (type: FormulaTokenType, value: string, end: number) => {
+    tokens.push({ type, value, start: position, end });
+    position = end;
+  };
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (rest.startsWith("/*")) {
+      const end = expression.indexOf("*/", position + 2);
+      if (end === -1) {
+        errors.push({ position, message: "Unterminated comment" });
+        position = expression.length;
+      } else {
+        position = end + 2;
+      }
+    } else if (rest.startsWith("{!")) {
+      const end = expression.indexOf("}", position);
+      if (end === -1) {
+        errors.push({ position, message: "Unterminated reference" });
+        push(
+          "reference",
+          expression.slice(position + 2).trim(),
+          expression.length,
+        );
+      } else {
+        const reference = expression.slice(position + 2, end).trim();
+        if (!reference) {
+          errors.push({ position, message: "Empty reference" });
+        }
+        push("reference", reference, end + 1);
+      }
+    } else if (char === '"' || char === "'") {
+      let value = "";
+      let end = position + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === "\\" && end + 1 < expression.length) end++;
+        value += expression[end];
+        end++;
+      }
+      if (end >= expression.length) {
+        errors.push({ position, message: "Unterminated string" });
+        push("string", value, expression.length);
+      } else {
+        push("string", value, end + 1);
+      }
+    } else if (/^\d/.test(rest) || /^\.\d/.test(rest)) {
+      const number = rest.match(/^\d*\.?\d+/)![0];
+      push("number", number, position + number.length);
+    } else if (/^[A-Za-z_$]/.test(rest)) {
+      const word = rest.match(/^[\w$.]+/)![0];
+      const next = expression.slice(position + word.length).trimStart();
+      const upper = word.toUpperCase();
+      const type: FormulaTokenType = next.startsWith("(")
+        ? "function"
+        : upper === "TRUE" || upper === "FALSE"
+        ? "boolean"
+        : upper === "NULL"
+        ? "null"
+        : "identifier";
+      push(type, word, position + word.length);
+    } else if (char === "(" || char === ")" || char === ",") {
+      push(char, char, position + 1);
+    } else {
+      const operator = OPERATORS.find((candidate) =>
+        rest.startsWith(candidate)
+      );
+      if (operator) {
+        push("operator", operator, position + operator.length);
+      } else {
+        errors.push({ position, message: `Unexpected character ${char}` });
+        position++;
+      }
+    }
+  }
+
+  return { tokens, errors };
+}
+
+/**
+ * Tokenize and check a formula expression
+ * References have to be written as merge fields (`{!Name}`); other words are
+ * function names when followed by `(`, or `TRUE`, `FALSE` and `NULL`.
+ * @param expression Formula expression
+ * @returns Tokens, references, functions, literals and syntax errors
+ * @example
+ * const { references, errors } = parseFormula(flow.formulas[0].expression);
+ * if (errors.length > 0) console.error(errors[0].message);
+ */
+export function parseFormula(expression: string): ParsedFormula {
+  const { tokens, errors } = tokenizeFormula(expression);
+  if (errors.length === 0) {
+    const error = checkSyntax(tokens, expression.length);
+    if (error) errors.push(error);
+  }
+
+  const unique = (values: string[]) => [...new Set(values)];
+  return {
+    tokens,
+    references: unique(
+      tokens.filter((token) => token.type === "reference" && token.value)
+        .map((token) => token.value),
+    ),
+    functions: unique(
+      tokens.filter((token) => token.type === "function")
+        .map((token) => token.value.toUpperCase()),
+    ),
+    literals: tokens
+      .filter((token) =>
+        ["string", "number", "boolean", "null"].includes(token.type)
+      )
+      .map((token) => ({
+        type: token.type as FormulaLiteral["type"],
+        value: token.value,
+      })),
+    errors,
+  };
+}
+
+/**
+ * Rewrite the references of a formula expression
+ * Only `{!...}` references are rewritten; string literals and comments that
+ * happen to contain the same text are left alone.
+ * @param expression Formula expression
+ * @param rewrite Function returning the new reference, or undefined to keep it
+ * @returns The expression with rewritten references
+ * @example
+ * rewriteFormulaReferences('{!old} & "{!old}"', (reference) =>
+ *   reference === "old" ? "new" : undefined
+ * ); // '{!new} & "{!old}"'
+ */
+export function rewriteFormulaReferences(
+  expression: string,
+  rewrite: (reference: string) => string | undefined,
+): string {
+  let result = "";
+  let position = 0;
+
+  tokenizeFormula(expression).tokens.forEach((token) => {
+    if (token.type !== "reference" || !token.value) return;
+    const replacement = rewrite(token.value);
+    if (replacement === undefined) return;
+    const source = expression.slice(token.start, token.end);
+    result += expression.slice(position, token.start) +
+      source.replace(token.value, replacement);
+    position = token.end;
+  });
+
+  return result + expression.slice(position);
+}
+
+/**
+ * Evaluate a formula expression
+ * Supports the formula operators and common logical, text, math and date
+ * functions (IF, CASE, AND, OR, NOT, ISBLANK, BLANKVALUE, LEN, UPPER, LEFT,
+ * CONTAINS, SUBSTITUTE, TEXT, VALUE, ROUND, MOD, TODAY, ...).
+ * @param expression Formula expression
+ * @param resolve Function returning the value of a `{!...}` reference
+ * @returns Value of the expression, null for blank values
+ * @throws Error if the expression is invalid or uses an unsupported function
+ * @example
+ * evaluateFormula("{!Amount} * 2", (reference) => values[reference]);
+ */
+export function evaluateFormula(
+  expression: string,
+  resolve: (reference: string) => unknown,
+): unknown {
+  const { tokens, errors } = parseFormula(expression);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid formula at position ${errors[0].position}: ${errors[0].message}`,
+    );
+  }
+  let current = 0;
+
+  const binary = (
+    operators: string[],
+    operand: () => unknown,
+    apply: (operator: string, left: unknown, right: unknown) => unknown,
+  ) =>
+  (): unknown => {
+    let value = operand();
+    while (
+      tokens[current]?.type === "operator" &&
+      operators.includes(tokens[current].value)
+    ) {
+      const operator = tokens[current++].value;
+      value = apply(operator, value, operand());
+    }
+    return value;
+  };
+
+  const parseUnary = (): unknown => {
+    const token = tokens[current];
+    if (token.type === "operator" && UNARY_OPERATORS.includes(token.value)) {
+      current++;
+      const value = toNumber(parseUnary());
+      return token.value === "-" && value !== null ? -value : value;
+    }
+    return parsePrimary();
+  };
+  const parsePower = binary(
+    ["^"],
+    parseUnary,
+    (_, left, right) => arithmetic(left, right, Math.pow),
+  );
+  const parseProduct = binary(
+    ["*", "/"],
+    parsePower,
+    (operator, left, right) =>
+      arithmetic(
+        left,
+        right,
+        operator === "*" ? (a, b) => a * b : (a, b) => a / b,
+      ),
+  );
+  const parseSum = binary(["+", "-", "&"], parseProduct, (
+    operator,
+    left,
+    right,
+  ) => {
+    if (operator === "&") return `${left ?? ""}${right ?? ""}`;
+    if (
+      operator === "+" &&
+      (typeof left === "string" || typeof right === "string") &&
+      (toNumber(left) === null || toNumber(right) === null)
+    ) {
+      return `${left ?? ""}${right ?? ""}`;
+    }
+    return arithmetic(
+      left,
+      right,
+      operator === "+" ? (a, b) => a + b : (a, b) => a - b,
+    );
+  });
+  const parseComparison = binary(
+    ["=", "==", "!=", "<>", "<", ">", "<=", ">="],
+    parseSum,
+    (operator, left, right) => {
+      switch (operator) {
+        case "=":
+        case "==":
+          return valuesEqual(left, right);
+        case "!=":
+        case "<>":
+          return !valuesEqual(left, right);
+        default: {
+          const order = compareValues(left, right);
+          if (order === undefined) return false;
+          return operator === "<"
+            ? order < 0
+            : operator === ">"
+            ? order > 0
+            : operator === "<="
+            ? order <= 0
+            : order >= 0;
+        }
+      }
+    },
+  );
+  const parseAnd = binary(
+    ["&&"],
+    parseComparison,
+    (_, left, right) => toBoolean(left) && toBoolean(right),
+  );
+  const parseExpression = binary(
+    ["||"],
+    parseAnd,
+    (_, left, right) => toBoolean(left) || toBoolean(right),
+  );
+
+  const parsePrimary = (): unknown => {
+    const token = tokens[current++];
+    switch (token.type) {
+      case "reference":
+        return resolve(token.value) ?? null;
+      case "string":
+        return token.value;
+      case "number":
+        return Number(token.value);
+      case "boolean":
+        return token.value.toUpperCase() === "TRUE";
+      case "null":
+        return null;
+      case "(": {
+        const value = parseExpression();
+        current++;
+        return value;
+      }
+      default: {
+        current++;
+        const args: unknown[] = [];
+        while (tokens[current].type !== ")") {
+          args.push(parseExpression());
+          if (tokens[current].type === ",") current++;
+        }
+        current++;
+        return callFunction(token.value.toUpperCase(), args);
+      }
+    }
+  };
+
+  return parseExpression();
+}
+
+/**
+ * Check whether a value is blank
+ * @param value Value to check
+ * @returns true for null, undefined, empty strings and empty arrays
+ */
+export function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === "" ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Compare two values for equality the way Flows do
+ * Blank values are equal to each other, numbers are equal to their text and
+ * booleans to `true`/`false`.
+ * @param left First value
+ * @param right Second value
+ * @returns true if the values are equal
+ */
+export function valuesEqual(left: unknown, right: unknown): boolean {
+  if (isBlank(left) || isBlank(right)) return isBlank(left) && isBlank(right);
+  if (typeof left === "boolean" || typeof right === "boolean") {
+    return toBoolean(left) === toBoolean(right);
+  }
+  if (typeof left === "number" || typeof right === "number") {
+    return toNumber(left) === toNumber(right);
+  }
+  return String(left) === String(right);
+}
+
+/**
+ * Order two values, numerically if both are numbers, otherwise as text
+ * @param left First value
+ * @param right Second value
+ * @returns Negative, zero or positive, undefined if a value is blank
+ */
+export function compareValues(
+  left: unknown,
+  right: unknown,
+): number | undefined {
+  if (isBlank(left) || isBlank(right)) return undefined;
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  return String(left).localeCompare(String(right));
+}
+
+/**
+ * Convert a value to a number
+ * @param value Number, numeric text or blank value
+ * @returns The number, null if the value is blank or not numeric
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+/**
+ * Convert a value to a boolean
+ * @param value Boolean or `true`/`false` text
+ * @returns true for true and `"true"` (any case)
+ */
+function toBoolean(value: unknown): boolean {
+  return value === true ||
+    (typeof value === "string" && value.toLowerCase() === "true");
+}
+
+/**
+ * Apply an arithmetic operator, treating blank values as blank
+ * @param left Left operand
+ * @param right Right operand
+ * @param apply Operation on numbers
+ * @returns Result, null if an operand is blank or not numeric
+ */
+function arithmetic(
+  left: unknown,
+  right: unknown,
+  apply: (a: number, b: number) => number,
+): number | null {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  return a === null || b === null ? null : apply(a, b);
+}
+
+/**
+ * Call a formula function
+ * @param name Function name in upper case
+ * @param args Evaluated arguments
+ * @returns Result of the function
+ * @throws Error if the function is not supported
+ */
+function callFunction(name: string, args: unknown[]): unknown {
+  const text = (index: number) => String(args[index] ?? "");
+  const number = (index: number) => toNumber(args[index]);
+  const round = (value: number, digits: number) =>
+    Math.round(value * 10 ** digits) / 10 ** digits;
+
+  switch (name) {
+    case "IF":
+      return toBoolean(args[0]) ? args[1] : args[2] ?? null;
+    case "CASE": {
+      for (let i = 1; i + 1 < args.length; i += 2) {
+        if (valuesEqual(args[0], args[i])) return args[i + 1];
+      }
+      return args.length % 2 === 0 ? args[args.length - 1] : null;
+    }
+    case "AND":
+      return args.every(toBoolean);
+    case "OR":
+      return args.some(toBoolean);
+    case "NOT":
+      return !toBoolean(args[0]);
+    case "ISBLANK":
+    case "ISNULL":
+      return isBlank(args[0]);
+    case "BLANKVALUE":
+    case "NULLVALUE":
+      return isBlank(args[0]) ? args[1] : args[0];
+    case "ISPICKVAL":
+      return valuesEqual(args[0], args[1]);
+    case "ISNUMBER":
+      return toNumber(args[0]) !== null;
+    case "LEN":
+      return text(0).length;
+    case "UPPER":
+      return text(0).toUpperCase();
+    case "LOWER":
+      return text(0).toLowerCase();
+    case "TRIM":
+      return text(0).trim();
+    case "LEFT":
+      return text(0).slice(0, Math.max(0, number(1) ?? 0));
+    case "RIGHT":
+      return (number(1) ?? 0) > 0 ? text(0).slice(-(number(1) as number)) : "";
+    case "MID": {
+      const start = Math.max(0, (number(1) ?? 1) - 1);
+      return text(0).slice(start, start + Math.max(0, number(2) ?? 0));
+    }
+    case "FIND":
+      return text(1).indexOf(text(0)) + 1;
+    case "CONTAINS":
+      return text(0).includes(text(1));
+    case "BEGINS":
+      return text(0).startsWith(text(1));
+    case "SUBSTITUTE":
+      return text(0).split(text(1)).join(text(2));
+    case "TEXT":
+      return isBlank(args[0]) ? "" : String(args[0]);
+    case "VALUE":
+      return number(0);
+    case "ABS":
+      return number(0) === null ? null : Math.abs(number(0) as number);
+    case "FLOOR":
+      return number(0) === null ? null : Math.floor(number(0) as number);
+    case "CEILING":
+      return number(0) === null ? null : Math.ceil(number(0) as number);
+    case "ROUND":
+      return number(0) === null ? null : round(number(0)!, number(1) ?? 0);
+    case "MOD":
+      return arithmetic(args[0], args[1], (a, b) => a % b);
+    case "MAX":
+      return Math.max(...args.map((_, index) => number(index) ?? -Infinity));
+    case "MIN":
+      return Math.min(...args.map((_, index) => number(index) ?? Infinity));
+    case "TODAY":
+      return new Date().toISOString().slice(0, 10);
+    case "NOW":
+      return new Date().toISOString();
+    default:
+      throw new Error(`Unsupported formula function: ${name}`);
+  }
+}
+
+/**
+ * Check the token sequence of a formula expression
+ * @param tokens Tokens of the expression
+ * @param length Length of the expression, the position of unexpected ends
+ * @returns The first syntax error, undefined if the expression is valid
+ */
+function checkSyntax(
+  tokens: FormulaToken[],
+  length: number,
+): FormulaError | undefined {
+  let current = 0;
+  let problem: FormulaError | undefined;
+
+  const fail = (message: string, position?: number): never => {
+    const token = tokens[current];
+    problem = position === undefined
+      ? {
+        position: token?.start ?? length,
+        message: `${message}, found ${token ? token.value : "end"}`,
+      }
+      : { position, message };
+    throw new Error(problem.message);
+  };
+
+  const parseExpression = (): void => {
+    parseOperand();
+    while (tokens[current]?.type === "operator") {
+      current++;
+      parseOperand();
+    }
+  };
+
+  const parseOperand = (): void => {
+    const token = tokens[current];
+    if (token?.type === "operator" && UNARY_OPERATORS.includes(token.value)) {
+      current++;
+      parseOperand();
+      return;
+    }
+    switch (token?.type) {
+      case "reference":
+      case "string":
+      case "number":
+      case "boolean":
+      case "null":
+        current++;
+        return;
+      case "identifier":
+        return fail(
+          `Unknown identifier ${token.value}, references must be written as {!${token.value}}`,
+          token.start,
+        );
+      case "function":
+        current += 2;
+        if (tokens[current]?.type !== ")") {
+          parseExpression();
+          while (tokens[current]?.type === ",") {
+            current++;
+            parseExpression();
+          }
+        }
+        if (tokens[current]?.type !== ")") fail("Expected ) or ,");
+        current++;
+        return;
+      case "(":
+        current++;
+        parseExpression();
+        if (tokens[current]?.type !== ")") fail("Expected )");
+        current++;
+        return;
+      default:
+        fail("Expected a value");
+    }
+  };
+
+  try {
+    if (tokens.length === 0) fail("Expected a value");
+    parseExpression();
+    if (current < tokens.length) fail("Expected an operator");
+  } catch (error) {
+    if (problem) return problem;
+    throw error;
+  }
+  return undefined;
+}
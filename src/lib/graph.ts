@@ -0,0 +1,217 @@
+/**
+ * Flow graph model
+ *
+ * This module provides the FlowGraph class, an indexed view of the nodes of a
+ * Flow and the connectors between them. The graph is a snapshot: it has to be
+ * rebuilt after the Flow is modified.
+ */
+import type { Flow, FlowNode } from "@salesforce/types/metadata";
+import { FLOW_ARRAY_NODES, START_NODE_NAME } from "./constants.ts";
+import { getTypedConnectors } from "./nodes.ts";
+import type { BaseFlowNodeWithConnector, FlowEdge } from "./types.ts";
+
+/**
+ * Location of a node within its Flow
+ */
+export interface FlowNodeLocation {
+  /** Flow property holding the node, e.g. `decisions` or `start` */
+  collection: string;
+  /** Index of the node in its collection, undefined for the start node */
+  index?: number;
+  /** Path of the node within the Flow, e.g. `decisions[2]` */
+  path: string;
+}
+
+/**
+ * Indexed graph of the nodes of a Flow and the connectors between them
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * const graph = new FlowGraph(flow);
+ * graph.edgesFrom("MyDecision").forEach((edge) => {
+ *   console.log(`${edge.kind} (${edge.branch ?? ""}) -> ${edge.target}`);
+ * });
+ */
+export class FlowGraph {
+  /** Flow the graph was built from */
+  readonly flow: Flow;
+
+  private readonly nodesByName = new Map<string, FlowNode>();
+  private readonly locations = new Map<string, FlowNodeLocation>();
+  private readonly outgoing = new Map<string, FlowEdge[]>();
+  private readonly incoming = new Map<string, FlowEdge[]>();
+  private readonly allEdges: FlowEdge[] = [];
+
+  /**
+   * Build a graph from a Flow
+   * Nodes are indexed by name; the start node is indexed by its name or by
+   * START_NODE_NAME if it has none. When a name is used more than once, the
+   * first node wins.
+   * @param flow Flow object to build the graph from
+   */
+  constructor(flow: Flow) {
+    this.flow = flow;
+
+    if (flow.start) {
+      this.addNode(flow.start.name || START_NODE_NAME, flow.start, {
+        collection: "start",
+        path: "start",
+      });
+    }
+
+    FLOW_ARRAY_NODES.forEach((collection) => {
+      const nodeArray = flow[collection as keyof Flow];
+      if (!Array.isArray(nodeArray)) return;
+      (nodeArray as FlowNode[]).forEach((node, index) => {
+        if (!node?.name) return;
+        this.addNode(node.name, node, {
+          collection,
+          index,
+          path: `${collection}[${index}]`,
+        });
+      });
+    });
+
+    this.nodesByName.forEach((node, source) => {
+      const nodePath = this.locations.get(source)!.path;
+      getTypedConnectors(node as BaseFlowNodeWithConnector).forEach(
+        (typed) => {
+          const edge: FlowEdge = {
+            ...typed,
+            path: `${nodePath}.${typed.path}`,
+            source,
+            target: typed.connector.targetReference,
+          };
+          this.allEdges.push(edge);
+          this.outgoing.get(source)!.push(edge);
+          if (!this.incoming.has(edge.target)) {
+            this.incoming.set(edge.target, []);
+          }
+          this.incoming.get(edge.target)!.push(edge);
+        },
+      );
+    });
+  }
+
+  /**
+   * Name of the node where execution begins
+   * This is the start node, or the `startElementReference` of Flows that
+   * have no start node.
+   */
+  get entryPoint(): string | undefined {
+    if (this.flow.start) {
+      return this.flow.start.name || START_NODE_NAME;
+    }
+    return this.flow.startElementReference || undefined;
+  }
+
+  /**
+   * Names of all nodes in the graph, start node first
+   */
+  get nodeNames(): string[] {
+    return [...this.nodesByName.keys()];
+  }
+
+  /**
+   * All nodes in the graph, start node first
+   */
+  get nodes(): FlowNode[] {
+    return [...this.nodesByName.values()];
+  }
+
+  /**
+   * All edges in the graph
+   */
+  get edges(): readonly FlowEdge[] {
+    return this.allEdges;
+  }
+
+  /**
+   * Check whether a node with the given name exists
+   * @param name Node name
+   * @returns true if the node exists
+   */
+  hasNode(name: string): boolean {
+    return this.nodesByName.has(name);
+  }
+
+  /**
+   * Get a node by name
+   * @param name Node name
+   * @returns FlowNode if found, undefined otherwise
+   */
+  getNode(name: string): FlowNode | undefined {
+    return this.nodesByName.get(name);
+  }
+
+  /**
+   * Get the location of a node within the Flow
+   * @param name Node name
+   * @returns Location if the node exists, undefined otherwise
+   */
+  getLocation(name: string): FlowNodeLocation | undefined {
+    return this.locations.get(name);
+  }
+
+  /**
+   * Get all edges leaving a node
+   * @param name Node name
+   * @returns Outgoing edges in the order returned by getConnectors
+   */
+  edgesFrom(name: string): readonly FlowEdge[] {
+    return this.outgoing.get(name) ?? [];
+  }
+
+  /**
+   * Get all edges pointing at a node
+   * Edges pointing at names that do not exist in the graph are indexed too.
+   * @param name Node name
+   * @returns Incoming edges
+   */
+  edgesTo(name: string): readonly FlowEdge[] {
+    return this.incoming.get(name) ?? [];
+  }
+
+  /**
+   * Get the names of the nodes a node connects to
+   * @param name Node name
+   * @returns Unique target names
+   */
+  successors(name: string): string[] {
+    return unique((this.outgoing.get(name) ?? []).map((edge) => edge.target));
+  }
+
+  /**
+   * Get the names of the nodes that connect to a node
+   * @param name Node name
+   * @returns Unique source names
+   */
+  predecessors(name: string): string[] {
+    return unique((this.incoming.get(name) ?? []).map((edge) => edge.source));
+  }
+
+  /**
+   * Add a node to the indexes unless its name is already taken
+   * @param name Node name
+   * @param node Node to add
+   * @param location Location of the node in the Flow
+   */
+  private addNode(
+    name: string,
+    node: FlowNode,
+    location: FlowNodeLocation,
+  ): void {
+    if (this.nodesByName.has(name)) return;
+    this.nodesByName.set(name, node);
+    this.locations.set(name, location);
+    this.outgoing.set(name, []);
+  }
+}
+
+/**
+ * Remove duplicates from an array, keeping the first occurrence
+ * @param values Values to deduplicate
+ * @returns New array without duplicates
+ */
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
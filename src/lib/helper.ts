@@ -1,6 +1,18 @@
 import type {Flow} from "@salesforce/types/metadata";
-import {FLOW_ARRAY_PROPERTIES, NESTED_ARRAY_CONFIG,} from "./constants.ts";
-import type {NamedObject, NestedArrayConfig} from "./types.ts";
+import {FLOW_ARRAY_PROPERTIES, NESTED_ARRAY_CONFIG, NESTED_SORT_POLICY,} from "./constants.ts";
+import {FLOW_ARRAY_PATHS, FLOW_SCHEMA} from "./schema.ts";
+import type {NamedObject, NestedArrayConfig, NestedSortPolicy} from "./types.ts";
+
+/**
+ * Replace self-closing tags with start and end tags, as written by Salesforce
+ * @param xml XML string with one element per line
+ * @returns XML string without self-closing tags
+ * @example
+ * replaceSelfClosingTags("<value/>\n"); // "<value></value>\n"
+ */
+export function replaceSelfClosingTags(xml: string): string {
+  return xml.replace(/<(\w+)([^>]*)\/>\n/g, "<$1$2></$1>\n");
+}
 
 /**
  * Helper function to ensure a property is always an array
@@ -40,6 +52,90 @@ export function ensureArrayProperties(flow: Flow): void {
 
   // Process nested arrays in Flow objects
   processNestedArrays(flow);
+
+  // Wrap single values of every other array property of the schema
+  normalizeArrays(flow, "Flow");
+}
+
+/**
+ * Wrap single values of array properties into arrays, driven by the schema
+ * Every property the metadata types declare as an array is handled at any
+ * depth, including nested objects such as a screen field's `visibilityRule`.
+ * Missing properties are left out; processNestedArrays creates the empty
+ * arrays listed in NESTED_ARRAY_CONFIG.
+ * @param value Value to normalize, modified in place
+ * @param type Name of the metadata type of the value, e.g. `FlowScreen`
+ * @example
+ * const screen = { name: "Form", fields: { name: "Email", visibilityRule: {
+ *   conditionLogic: "and", conditions: { leftValueReference: "show" } } } };
+ * normalizeArrays(screen, "FlowScreen");
+ * // screen.fields[0].visibilityRule.conditions is now an array
+ */
+export function normalizeArrays(value: unknown, type: string): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => normalizeArrays(item, type));
+    return;
+  }
+  const schema = FLOW_SCHEMA[type];
+  if (!schema || !value || typeof value !== "object") return;
+
+  const properties = value as Record<string, unknown>;
+  Object.entries(schema).forEach(([key, field]) => {
+    if (properties[key] === undefined || properties[key] === null) return;
+    if (field.array && !Array.isArray(properties[key])) {
+      properties[key] = [properties[key]];
+    }
+    normalizeArrays(properties[key], field.type);
+  });
+}
+
+/**
+ * Compare the array configuration with the schema
+ * FLOW_ARRAY_PROPERTIES must list exactly the array properties of Flow, and
+ * every path of NESTED_ARRAY_CONFIG must be an array in the schema.
+ * @param config Nested array configuration to check
+ * @param properties Flow array properties to check
+ * @returns Description of every difference, empty if they are in sync
+ * @example
+ * const problems = findArrayConfigDrift();
+ * if (problems.length > 0) throw new Error(problems.join("\n"));
+ */
+export function findArrayConfigDrift(
+  config: Record<string, NestedArrayConfig> = NESTED_ARRAY_CONFIG,
+  properties: string[] = FLOW_ARRAY_PROPERTIES,
+): string[] {
+  const problems: string[] = [];
+  const flowArrays = Object.keys(FLOW_SCHEMA.Flow)
+    .filter((key) => FLOW_SCHEMA.Flow[key].array);
+  flowArrays
+    .filter((prop) => !properties.includes(prop))
+    .forEach((prop) =>
+      problems.push(`FLOW_ARRAY_PROPERTIES misses the Flow array ${prop}`)
+    );
+  properties
+    .filter((prop) => !flowArrays.includes(prop))
+    .forEach((prop) =>
+      problems.push(`FLOW_ARRAY_PROPERTIES lists ${prop}, which is not a Flow array`)
+    );
+
+  // The start node is the only single object of the configuration
+  const collectPaths = (path: string, entry: NestedArrayConfig): string[] => [
+    ...(path === "start" ? [] : [path]),
+    ...entry.childArrays.map((child) => `${path}.${child}`),
+    ...(entry.recursive ? [`${path}.${entry.recursive}`] : []),
+    ...Object.entries(entry.nestedConfig ?? {}).flatMap(([child, nested]) =>
+      collectPaths(`${path}.${child}`, nested)
+    ),
+  ];
+  new Set(
+    Object.entries(config).flatMap(([prop, entry]) => collectPaths(prop, entry)),
+  ).forEach((path) => {
+    if (!FLOW_ARRAY_PATHS.includes(path)) {
+      problems.push(`NESTED_ARRAY_CONFIG path ${path} is not an array in the schema`);
+    }
+  });
+
+  return problems;
 }
 
 /**
@@ -152,7 +248,10 @@ export function sortByName<T extends NamedObject>(arr: T[]): T[] {
 
 /**
  * Sorts all array properties in a Flow object by name
+ * Nested arrays of the elements are sorted according to the policy of their
+ * property, order-significant arrays such as decision rules keep their order.
  * @param flow Flow object to sort
+ * @param config Sort policy of nested arrays by property name
  * @returns Flow object with sorted arrays (new object, doesn't modify the original)
  * @example
  * const flow = parseFromFile("path/to/flow.xml");
@@ -161,6 +260,7 @@ export function sortByName<T extends NamedObject>(arr: T[]): T[] {
  */
 export function sortFlowArrays(
   flow: Flow | null | undefined,
+  config: Record<string, NestedSortPolicy> = NESTED_SORT_POLICY,
 ): Flow | null | undefined {
   if (!flow) return flow;
 
@@ -174,5 +274,125 @@ export function sortFlowArrays(
     }
   });
 
+  // Sort the nested arrays of every property
+  Object.keys(sortedFlow).forEach((prop) => {
+    sortedFlow[prop] = Array.isArray(sortedFlow[prop])
+      ? sortedFlow[prop].map((item: unknown) => sortNestedArrays(item, config))
+      : sortNestedArrays(sortedFlow[prop], config);
+  });
+
   return sortedFlow as Flow;
 }
+
+/**
+ * Sorts the nested arrays of a value according to their sort policy
+ * Arrays without a policy and order-significant arrays keep their order but
+ * their items are still processed. Items are compared by the first policy key
+ * they have; items without any key keep their relative order after the others.
+ * @param value Value to sort, e.g. a Flow element
+ * @param config Sort policy of nested arrays by property name
+ * @returns Sorted copy of the value (doesn't modify the original)
+ * @example
+ * sortNestedArrays({
+ *   inputAssignments: [{ field: "Name" }, { field: "AccountId" }],
+ * });
+ * // { inputAssignments: [{ field: "AccountId" }, { field: "Name" }] }
+ */
+export function sortNestedArrays(
+  value: unknown,
+  config: Record<string, NestedSortPolicy> = NESTED_SORT_POLICY,
+): unknown {
+  if (
+    !value || typeof value !== "object" || Array.isArray(value) ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+
+  const sorted: Record<string, unknown> = {};
+  Object.entries(value).forEach(([prop, child]) => {
+    if (!Array.isArray(child)) {
+      sorted[prop] = sortNestedArrays(child, config);
+      return;
+    }
+    const items = child.map((item) => sortNestedArrays(item, config));
+    const policy = config[prop];
+    sorted[prop] = policy && !policy.ordered
+      ? sortByKeys(items, policy.keys)
+      : items;
+  });
+
+  return sorted;
+}
+
+/**
+ * Sorts items by the first of the keys each item has
+ * @param items Items to sort
+ * @param keys Properties to compare, in order of preference
+ * @returns Sorted array (new array, doesn't modify the original)
+ */
+function sortByKeys(items: unknown[], keys: string[]): unknown[] {
+  const keyOf = (item: unknown) => {
+    if (!item || typeof item !== "object") return undefined;
+    const key = keys.find((key) => (item as NamedObject)[key] !== undefined);
+    return key === undefined ? undefined : String((item as NamedObject)[key]);
+  };
+
+  return [...items].sort((a, b) => {
+    const keyA = keyOf(a);
+    const keyB = keyOf(b);
+    if (keyA === undefined || keyB === undefined) {
+      return Number(keyA === undefined) - Number(keyB === undefined);
+    }
+    return keyA.localeCompare(keyB);
+  });
+}
+
+/**
+ * Orders the properties of a value as the Metadata API serializes them
+ * Known properties follow the schema order (inherited properties first),
+ * attributes such as `@xmlns` come first and unknown properties last, so
+ * hand-built nodes serialize identically to retrieved ones.
+ * @param value Value to order, arrays are ordered item by item
+ * @param type Name of the metadata type of the value, e.g. `FlowDecision`
+ * @returns Ordered copy of the value (doesn't modify the original)
+ * @example
+ * orderProperties({ label: "Check", name: "Check" }, "FlowDecision");
+ * // { name: "Check", label: "Check" }
+ */
+export function orderProperties(value: unknown, type: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => orderProperties(item, type));
+  }
+  const schema = FLOW_SCHEMA[type];
+  if (!schema || !value || typeof value !== "object") return value;
+
+  const source = value as Record<string, unknown>;
+  const ordered: Record<string, unknown> = {};
+  Object.keys(source)
+    .filter((key) => key.startsWith("@"))
+    .forEach((key) => ordered[key] = source[key]);
+  Object.entries(schema).forEach(([key, field]) => {
+    if (key in source) ordered[key] = orderProperties(source[key], field.type);
+  });
+  Object.keys(source)
+    .filter((key) => !(key in ordered))
+    .forEach((key) => ordered[key] = source[key]);
+
+  return ordered;
+}
+
+/**
+ * Orders the properties of a Flow and all its elements as the Metadata API
+ * serializes them
+ * @param flow Flow object to order
+ * @returns Ordered Flow object (new object, doesn't modify the original)
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * flow.decisions.push(decision("Check").label("Check").build());
+ * const ordered = orderFlowProperties(flow);
+ * // The new decision lists name before label, as in retrieved files
+ */
+export function orderFlowProperties(flow: Flow): Flow {
+  return orderProperties(flow, "Flow") as Flow;
+}
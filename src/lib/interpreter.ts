@@ -0,0 +1,802 @@
+/**
+ * Local Flow interpreter
+ *
+ * This module runs the logic of autolaunched Flows without deploying them:
+ * starting at the entry point it follows the connectors of every node,
+ * evaluating decisions, assignments, loops, formulas and collection
+ * processors against in-memory variables. Record operations, actions, Apex
+ * plugins and subflows are delegated to pluggable handlers, so tests can stub
+ * them. A run returns the execution trace and the final variable values.
+ */
+import type {
+  Flow,
+  FlowAssignment,
+  FlowCollectionProcessor,
+  FlowCondition,
+  FlowCustomError,
+  FlowDecision,
+  FlowElementReferenceOrValue,
+  FlowLoop,
+  FlowNode,
+  FlowVariable,
+} from "@salesforce/types/metadata";
+import type { ConditionGroup } from "./conditions.ts";
+import {
+  compareValues,
+  evaluateFormula,
+  isBlank,
+  valuesEqual,
+} from "./formula.ts";
+import { FlowGraph } from "./graph.ts";
+import { getTypedConnectors } from "./nodes.ts";
+import type { BaseFlowNodeWithConnector, ConnectorKind } from "./types.ts";
+import { formatTemporal } from "./values.ts";
+
+/**
+ * Stub executing an element the interpreter cannot run itself, such as a
+ * record operation, action, Apex plugin or subflow
+ * @param node Element to execute
+ * @param context Access to the variables of the run
+ * @param inputs Evaluated `inputParameters` or `inputAssignments` by name
+ * @returns Output values by name, assigned according to the
+ * `outputParameters`/`outputAssignments` of actions, Apex plugins and subflows
+ * and stored under the element name if `storeOutputAutomatically` is set.
+ * Throwing an error takes the fault path of the element.
+ */
+export type ElementHandler = (
+  node: FlowNode,
+  context: ExecutionContext,
+  inputs: Record<string, unknown>,
+) => Record<string, unknown> | void;
+
+/**
+ * Access to the state of a Flow run, passed to element handlers
+ */
+export interface ExecutionContext {
+  /** Flow being run */
+  readonly flow: Flow;
+  /**
+   * Get the value of a reference such as `recordId`, `$Record.Name` or a
+   * formula; names are case-insensitive
+   */
+  get(reference: string): unknown;
+  /** Set the value of a variable or of a field, e.g. `account.Name` */
+  set(reference: string, value: unknown): void;
+  /** Evaluate a Flow value, resolving references and merge fields */
+  evaluate(value: FlowElementReferenceOrValue | undefined): unknown;
+}
+
+/**
+ * Options for runFlow
+ */
+export interface RunFlowOptions {
+  /** Initial values by variable name, e.g. `{ recordId: "001", $Record: {...} }` */
+  inputs?: Record<string, unknown>;
+  /**
+   * Element handlers by element name or by collection (e.g. `actionCalls`);
+   * a handler for the element name takes precedence
+   */
+  handlers?: Record<string, ElementHandler>;
+  /** Maximum number of executed elements before the run fails, 10000 by default */
+  maxSteps?: number;
+}
+
+/**
+ * Element executed during a run
+ */
+export interface ExecutionStep {
+  /** Name of the element, `$Start` for the start node */
+  element: string;
+  /** Flow property holding the element, e.g. `decisions` */
+  collection: string;
+  /** Kind of the path taken, undefined if the run ended at the element */
+  kind?: ConnectorKind;
+  /** Rule taken by a decision */
+  branch?: string;
+  /** Element executed next, undefined if the path has no connector */
+  target?: string;
+}
+
+/**
+ * Result of runFlow
+ */
+export interface FlowRunResult {
+  /** Whether the run reached its end or failed with an unhandled error */
+  status: "completed" | "failed";
+  /** Executed elements in order */
+  trace: ExecutionStep[];
+  /** Final values of all variables and stored element outputs by name */
+  variables: Record<string, unknown>;
+  /** Final values of the output variables by name */
+  outputs: Record<string, unknown>;
+  /** Message of the error that failed the run */
+  error?: string;
+}
+
+/**
+ * Pattern matching merge fields such as `{!recordId}`
+ */
+const MERGE_FIELD_PATTERN = /\{!([^{}]+)\}/g;
+
+/**
+ * Values of `$GlobalConstant` references
+ */
+const GLOBAL_CONSTANTS: Record<string, unknown> = {
+  True: true,
+  False: false,
+  EmptyString: "",
+};
+
+/**
+ * Run a Flow locally
+ * Execution starts at the start node (or `startElementReference`) and ends
+ * when a path has no connector. Errors in an element take its fault path and
+ * set `$Flow.FaultMessage`; without a fault path they fail the run.
+ * @param flow Flow object to run
+ * @param options Inputs, element handlers and limits
+ * @returns Trace, final variable values and status of the run
+ * @example
+ * const result = runFlow(flow, {
+ *   inputs: { $Record: { Amount: 500 } },
+ *   handlers: { actionCalls: () => ({ success: true }) },
+ * });
+ * assertEquals(result.outputs.discount, 50);
+ */
+export function runFlow(
+  flow: Flow,
+  options: RunFlowOptions = {},
+): FlowRunResult {
+  return new FlowRun(flow, options).run();
+}
+
+/**
+ * Combine condition results according to a condition or filter logic
+ * @param logic `and`, `or` or custom logic such as `1 AND (2 OR NOT 3)`;
+ * blank means `and`
+ * @param results Result of every condition, the first is number 1
+ * @returns Combined result
+ * @throws Error if the custom logic is invalid
+ */
+export function evaluateConditionLogic(
+  logic: string | undefined,
+  results: boolean[],
+): boolean {
+  const normalized = (logic ?? "").trim().toLowerCase();
+  if (normalized === "" || normalized === "and") return results.every(Boolean);
+  if (normalized === "or") return results.some(Boolean);
+
+  const tokens = normalized.match(/\d+|and|or|not|\(|\)|\S/g) ?? [];
+  let current = 0;
+  const fail = (): never => {
+    throw new Error(`Invalid condition logic: ${logic}`);
+  };
+  const parseOr = (): boolean => {
+    let value = parseAnd();
+    while (tokens[current] === "or") {
+      current++;
+      value = parseAnd() || value;
+    }
+    return value;
+  };
+  const parseAnd = (): boolean => {
+    let value = parseNot();
+    while (tokens[current] === "and") {
+      current++;
+      value = parseNot() && value;
+    }
+    return value;
+  };
+  const parseNot = (): boolean => {
+    const token = tokens[current++];
+    if (token === "not") return !parseNot();
+    if (token === "(") {
+      const value = parseOr();
+      if (tokens[current++] !== ")") fail();
+      return value;
+    }
+    if (!/^\d+$/.test(token ?? "")) fail();
+    const result = results[Number(token) - 1];
+    return result === undefined ? fail() : result;
+  };
+
+  const value = parseOr();
+  if (current < tokens.length) fail();
+  return value;
+}
+
+/**
+ * Evaluate a comparison of a condition or record filter
+ * @param left Value on the left side
+ * @param operator Comparison operator, e.g. `EqualTo` or `IsNull`
+ * @param right Value on the right side
+ * @returns Result of the comparison
+ * @throws Error for operators that need more context, such as `IsChanged`
+ */
+export function compareCondition(
+  left: unknown,
+  operator: string,
+  right: unknown,
+): boolean {
+  const order = () => compareValues(left, right);
+  switch (operator) {
+    case "EqualTo":
+      return valuesEqual(left, right);
+    case "NotEqualTo":
+      return !valuesEqual(left, right);
+    case "GreaterThan":
+      return (order() ?? 0) > 0;
+    case "LessThan":
+      return (order() ?? 0) < 0;
+    case "GreaterThanOrEqualTo":
+      return order() !== undefined && order()! >= 0;
+    case "LessThanOrEqualTo":
+      return order() !== undefined && order()! <= 0;
+    case "StartsWith":
+      return String(left ?? "").startsWith(String(right ?? ""));
+    case "EndsWith":
+      return String(left ?? "").endsWith(String(right ?? ""));
+    case "Contains":
+      return Array.isArray(left)
+        ? left.some((item) => isSameItem(item, right))
+        : String(left ?? "").includes(String(right ?? ""));
+    case "In":
+      return Array.isArray(right) &&
+        right.some((item) => isSameItem(item, left));
+    case "NotIn":
+      return !Array.isArray(right) ||
+        !right.some((item) => isSameItem(item, left));
+    case "IsNull":
+      return isBlank(left) === isChecked(right);
+    case "WasSet":
+      return !isBlank(left) === isChecked(right);
+    default:
+      throw new Error(`Unsupported operator: ${operator}`);
+  }
+}
+
+/**
+ * Check whether a parsed boolean is true
+ * @param value Boolean or its XML text
+ * @returns true for `true` and `"true"`
+ */
+function isTrue(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * Get the expected result of a check operator such as `IsNull`
+ * @param value Right value of the condition
+ * @returns false only for a false right value
+ */
+function isChecked(value: unknown): boolean {
+  return isBlank(value) || isTrue(value) ||
+    String(value).toLowerCase() === "true";
+}
+
+/**
+ * Compare collection items, records by identity and other values by value
+ * @param a First item
+ * @param b Second item
+ * @returns true if the items are the same
+ */
+function isSameItem(a: unknown, b: unknown): boolean {
+  return typeof a === "object" && a !== null ? a === b : valuesEqual(a, b);
+}
+
+/**
+ * Get a property of a record case-insensitively
+ * @param record Record or other object
+ * @param key Property name
+ * @returns The property name used by the record, the given name if missing
+ */
+function findKey(record: Record<string, unknown>, key: string): string {
+  return Object.keys(record).find((existing) =>
+    existing.toLowerCase() === key.toLowerCase()
+  ) ?? key;
+}
+
+/**
+ * Path taken after executing an element
+ */
+type Outcome = Omit<ExecutionStep, "element" | "collection">;
+
+/**
+ * State of a single Flow run
+ */
+class FlowRun implements ExecutionContext {
+  readonly flow: Flow;
+  private readonly graph: FlowGraph;
+  private readonly options: RunFlowOptions;
+  private readonly values = new Map<string, { name: string; value: unknown }>();
+  private readonly resources = new Map<
+    string,
+    { collection: string; resource: Record<string, unknown> }
+  >();
+  private readonly loops = new Map<
+    string,
+    { items: unknown[]; index: number }
+  >();
+
+  constructor(flow: Flow, options: RunFlowOptions) {
+    this.flow = flow;
+    this.graph = new FlowGraph(flow);
+    this.options = options;
+
+    ["formulas", "textTemplates"].forEach((collection) => {
+      const resources = flow[collection as keyof Flow];
+      if (!Array.isArray(resources)) return;
+      (resources as unknown as Record<string, unknown>[]).forEach((resource) =>
+        this.resources.set(String(resource.name).toLowerCase(), {
+          collection,
+          resource,
+        })
+      );
+    });
+    [...(flow.constants ?? []), ...(flow.variables ?? [])].forEach(
+      (resource) => {
+        const variable = resource as FlowVariable;
+        this.set(
+          variable.name!,
+          variable.value
+            ? this.evaluate(variable.value)
+            : isTrue(variable.isCollection)
+            ? []
+            : null,
+        );
+      },
+    );
+    Object.entries(options.inputs ?? {}).forEach(([name, value]) =>
+      this.set(name, value)
+    );
+  }
+
+  /**
+   * Execute the Flow from its entry point
+   * @returns Result of the run
+   */
+  run(): FlowRunResult {
+    const trace: ExecutionStep[] = [];
+    const maxSteps = this.options.maxSteps ?? 10000;
+    let current = this.graph.entryPoint;
+    let error: string | undefined;
+
+    while (current !== undefined) {
+      if (trace.length >= maxSteps) {
+        error = `Maximum number of ${maxSteps} steps exceeded`;
+        break;
+      }
+      const node = this.graph.getNode(current);
+      if (!node) {
+        error = `Element not found: ${current}`;
+        break;
+      }
+      const collection = this.graph.getLocation(current)!.collection;
+      const step: ExecutionStep = { element: current, collection };
+      trace.push(step);
+
+      let outcome: Outcome;
+      try {
+        outcome = this.execute(collection, node);
+      } catch (caught) {
+        const message = caught instanceof Error
+          ? caught.message
+          : String(caught);
+        const fault = (node as BaseFlowNodeWithConnector).faultConnector;
+        if (!fault) {
+          error = `${current}: ${message}`;
+          break;
+        }
+        this.set("$Flow.FaultMessage", message);
+        outcome = { kind: "fault", target: fault.targetReference };
+      }
+
+      Object.assign(step, outcome);
+      current = outcome.target;
+    }
+
+    const variables = Object.fromEntries(
+      [...this.values.values()].map(({ name, value }) => [name, value]),
+    );
+    const outputs = Object.fromEntries(
+      (this.flow.variables ?? [])
+        .filter((variable) => isTrue(variable.isOutput))
+        .map((variable) => [variable.name!, this.get(variable.name!)]),
+    );
+    const result: FlowRunResult = {
+      status: error === undefined ? "completed" : "failed",
+      trace,
+      variables,
+      outputs,
+    };
+    if (error !== undefined) result.error = error;
+    return result;
+  }
+
+  get(reference: string): unknown {
+    const [root, ...path] = reference.trim().split(".");
+    let value: unknown;
+
+    const entry = this.values.get(root.toLowerCase());
+    const resource = this.resources.get(root.toLowerCase());
+    if (entry) {
+      value = entry.value;
+    } else if (resource?.collection === "formulas") {
+      value = evaluateFormula(
+        String(resource.resource.expression ?? ""),
+        (inner) => this.get(inner),
+      );
+    } else if (resource?.collection === "textTemplates") {
+      value = this.mergeText(String(resource.resource.text ?? ""));
+    } else if (root === "$GlobalConstant") {
+      value = GLOBAL_CONSTANTS;
+    }
+
+    for (const key of path) {
+      if (typeof value !== "object" || value === null) return null;
+      const record = value as Record<string, unknown>;
+      value = record[findKey(record, key)];
+    }
+    return value ?? null;
+  }
+
+  set(reference: string, value: unknown): void {
+    const [root, ...path] = reference.trim().split(".");
+    const key = root.toLowerCase();
+    if (path.length === 0) {
+      this.values.set(key, { name: this.values.get(key)?.name ?? root, value });
+      return;
+    }
+
+    if (
+      typeof this.values.get(key)?.value !== "object" ||
+      !this.values.get(key)!.value
+    ) {
+      this.set(root, {});
+    }
+    let record = this.values.get(key)!.value as Record<string, unknown>;
+    path.slice(0, -1).forEach((segment) => {
+      const field = findKey(record, segment);
+      if (typeof record[field] !== "object" || record[field] === null) {
+        record[field] = {};
+      }
+      record = record[field] as Record<string, unknown>;
+    });
+    record[findKey(record, path[path.length - 1])] = value;
+  }
+
+  evaluate(value: FlowElementReferenceOrValue | undefined): unknown {
+    if (!value) return null;
+    if (value.elementReference !== undefined) {
+      return this.get(value.elementReference);
+    }
+    if (value.stringValue !== undefined) {
+      return this.mergeText(String(value.stringValue ?? ""));
+    }
+    if (value.numberValue !== undefined) return Number(value.numberValue);
+    if (value.booleanValue !== undefined) return isTrue(value.booleanValue);
+    if (value.formulaExpression !== undefined) {
+      return evaluateFormula(
+        value.formulaExpression,
+        (reference) => this.get(reference),
+      );
+    }
+    // Formulas and conditions compare dates as ISO text
+    if (value.dateValue instanceof Date) {
+      return formatTemporal(value.dateValue, "date");
+    }
+    if (value.dateTimeValue instanceof Date) {
+      return formatTemporal(value.dateTimeValue, "datetime");
+    }
+    return value.dateValue ?? value.dateTimeValue ?? value.apexValue ??
+      value.sobjectValue ?? null;
+  }
+
+  /**
+   * Execute a single element
+   * @param collection Flow property holding the element
+   * @param node Element to execute
+   * @returns Path taken after the element
+   */
+  private execute(collection: string, node: FlowNode): Outcome {
+    const handler = this.options.handlers?.[node.name ?? ""] ??
+      this.options.handlers?.[collection];
+    if (handler && collection !== "start") {
+      this.callHandler(collection, node, handler);
+      return this.follow(node, "connector");
+    }
+
+    switch (collection) {
+      case "start":
+        return this.follow(node, "connector");
+      case "decisions":
+        return this.executeDecision(node as FlowDecision);
+      case "assignments":
+        (node as FlowAssignment).assignmentItems.forEach((item) =>
+          this.assign(
+            item.assignToReference!,
+            item.operator ?? "Assign",
+            this.evaluate(item.value),
+          )
+        );
+        return this.follow(node, "connector");
+      case "loops":
+        return this.executeLoop(node as FlowLoop);
+      case "collectionProcessors":
+        this.executeCollectionProcessor(node as FlowCollectionProcessor);
+        return this.follow(node, "connector");
+      case "customErrors":
+        throw new Error(
+          (node as FlowCustomError).customErrorMessages
+            .map((message) => this.mergeText(message.errorMessage))
+            .join("\n"),
+        );
+      default:
+        throw new Error(`No handler for ${collection} element "${node.name}"`);
+    }
+  }
+
+  /**
+   * Get the outcome of following a connector of a node
+   * @param node Node to leave
+   * @param kind Kind of the connector
+   * @param branch Rule name for rule connectors
+   * @returns Outcome with the target of the connector, if any
+   */
+  private follow(
+    node: FlowNode,
+    kind: ConnectorKind,
+    branch?: string,
+  ): Outcome {
+    const typed = getTypedConnectors(node as BaseFlowNodeWithConnector).find(
+      (connector) => connector.kind === kind && connector.branch === branch,
+    );
+    if (!typed && kind === "connector") return {};
+    const outcome: Outcome = { kind };
+    if (branch !== undefined) outcome.branch = branch;
+    if (typed) outcome.target = typed.connector.targetReference;
+    return outcome;
+  }
+
+  /**
+   * Evaluate the rules of a decision in order
+   * @param node Decision to execute
+   * @returns Outcome of the first matching rule or the default outcome
+   */
+  private executeDecision(node: FlowDecision): Outcome {
+    const rule = (node.rules ?? []).find((candidate) =>
+      this.evaluateConditions(candidate)
+    );
+    return rule
+      ? this.follow(node, "rule", rule.name)
+      : this.follow(node, "default");
+  }
+
+  /**
+   * Advance a loop to its next item
+   * @param node Loop to execute
+   * @returns The next value path, or the after last path when done
+   */
+  private executeLoop(node: FlowLoop): Outcome {
+    const name = node.name!;
+    if (!this.loops.has(name)) {
+      const collection = this.get(node.collectionReference ?? "");
+      const items = Array.isArray(collection) ? [...collection] : [];
+      if (node.iterationOrder === "Desc") items.reverse();
+      this.loops.set(name, { items, index: 0 });
+    }
+
+    const state = this.loops.get(name)!;
+    if (state.index < state.items.length) {
+      this.set(
+        node.assignNextValueToReference || name,
+        state.items[state.index++],
+      );
+      return this.follow(node, "nextValue");
+    }
+    this.loops.delete(name);
+    return this.follow(node, "noMoreValues");
+  }
+
+  /**
+   * Sort or filter a collection and store the result under the element name
+   * @param node Collection processor to execute
+   */
+  private executeCollectionProcessor(node: FlowCollectionProcessor): void {
+    const collection = this.get(node.collectionReference);
+    let items = Array.isArray(collection) ? [...collection] : [];
+    const type = node.collectionProcessorType ?? node.elementSubtype;
+
+    if (type === "SortCollectionProcessor") {
+      const field = (item: unknown, name?: string) =>
+        name && typeof item === "object" && item !== null
+          ? (item as Record<string, unknown>)[
+            findKey(item as Record<string, unknown>, name)
+          ]
+          : item;
+      items.sort((a, b) => {
+        for (const option of node.sortOptions ?? []) {
+          const left = field(a, option.sortField);
+          const right = field(b, option.sortField);
+          if (isBlank(left) || isBlank(right)) {
+            if (isBlank(left) && isBlank(right)) continue;
+            const blankFirst = isTrue(option.doesPutEmptyStringAndNullFirst);
+            return isBlank(left) === blankFirst ? -1 : 1;
+          }
+          const order = compareValues(left, right) ?? 0;
+          if (order !== 0) return option.sortOrder === "Desc" ? -order : order;
+        }
+        return 0;
+      });
+    } else if (type === "FilterCollectionProcessor") {
+      const current = node.assignNextValueToReference ||
+        `currentItem_${node.name}`;
+      items = items.filter((item) => {
+        this.set(current, item);
+        return node.formula
+          ? isTrue(
+            evaluateFormula(node.formula, (reference) => this.get(reference)),
+          )
+          : this.evaluateConditions(node);
+      });
+    } else {
+      throw new Error(`Unsupported collection processor: ${type}`);
+    }
+
+    const limit = Number(node.limit ?? 0);
+    this.set(node.name!, limit > 0 ? items.slice(0, limit) : items);
+  }
+
+  /**
+   * Apply an assignment operator
+   * @param reference Variable or field to assign
+   * @param operator Assignment operator
+   * @param value Evaluated value
+   */
+  private assign(reference: string, operator: string, value: unknown): void {
+    const current = this.get(reference);
+    const list = Array.isArray(current) ? current : [];
+    const values = Array.isArray(value) ? value : [value];
+    const indexOf = () => list.findIndex((item) => isSameItem(item, value));
+
+    switch (operator) {
+      case "Assign":
+        return this.set(reference, value);
+      case "Add":
+        if (Array.isArray(current)) {
+          return this.set(reference, [...list, ...values]);
+        }
+        if (typeof current === "string" && typeof value === "string") {
+          return this.set(reference, current + value);
+        }
+        return this.set(reference, Number(current ?? 0) + Number(value ?? 0));
+      case "Subtract":
+        return this.set(reference, Number(current ?? 0) - Number(value ?? 0));
+      case "AddItem":
+        return this.set(reference, [...list, value]);
+      case "AddAtStart":
+        return this.set(reference, [...values, ...list]);
+      case "AssignCount":
+        return this.set(reference, Array.isArray(value) ? value.length : 0);
+      case "RemoveFirst":
+        return this.set(
+          reference,
+          list.filter((_, index) => index !== indexOf()),
+        );
+      case "RemoveAll":
+        return this.set(
+          reference,
+          list.filter((item) =>
+            !values.some((other) => isSameItem(item, other))
+          ),
+        );
+      case "RemoveUncommon":
+        return this.set(
+          reference,
+          list.filter((item) =>
+            values.some((other) => isSameItem(item, other))
+          ),
+        );
+      case "RemoveBeforeFirst":
+        return this.set(reference, indexOf() < 0 ? [] : list.slice(indexOf()));
+      case "RemoveAfterFirst":
+        return this.set(
+          reference,
+          indexOf() < 0 ? [] : list.slice(0, indexOf() + 1),
+        );
+      case "RemovePosition":
+        return this.set(
+          reference,
+          list.filter((_, index) => index !== Number(value) - 1),
+        );
+      default:
+        throw new Error(`Unsupported assignment operator: ${operator}`);
+    }
+  }
+
+  /**
+   * Evaluate the conditions of a rule or collection filter
+   * @param group Element holding `conditions` and `conditionLogic`
+   * @returns Whether the conditions are met
+   */
+  private evaluateConditions(group: ConditionGroup): boolean {
+    return evaluateConditionLogic(
+      group.conditionLogic,
+      (group.conditions ?? []).map((condition) =>
+        this.evaluateCondition(condition)
+      ),
+    );
+  }
+
+  /**
+   * Evaluate a single condition
+   * `IsChanged` compares `$Record` fields with `$Record__Prior`.
+   * @param condition Condition to evaluate
+   * @returns Whether the condition is met
+   */
+  private evaluateCondition(condition: FlowCondition): boolean {
+    const reference = condition.leftValueReference ?? "";
+    const left = this.get(reference);
+    const right = this.evaluate(condition.rightValue);
+
+    if (condition.operator === "IsChanged") {
+      const [root, ...path] = reference.split(".");
+      const prior = this.get([`${root}__Prior`, ...path].join("."));
+      return !valuesEqual(left, prior) === isChecked(right);
+    }
+    return compareCondition(left, condition.operator, right);
+  }
+
+  /**
+   * Call the handler of an element and assign its outputs
+   * @param collection Flow property holding the element
+   * @param node Element to execute
+   * @param handler Handler of the element
+   */
+  private callHandler(
+    collection: string,
+    node: FlowNode,
+    handler: ElementHandler,
+  ): void {
+    const element = node as FlowNode & {
+      inputParameters?: { name: string; value?: FlowElementReferenceOrValue }[];
+      inputAssignments?: {
+        name: string;
+        value?: FlowElementReferenceOrValue;
+      }[];
+      outputParameters?: { name: string; assignToReference?: string }[];
+      outputAssignments?: { name?: string; assignToReference?: string }[];
+      storeOutputAutomatically?: boolean;
+    };
+    const inputs = Object.fromEntries(
+      [...(element.inputParameters ?? []), ...(element.inputAssignments ?? [])]
+        .map((parameter) => [parameter.name, this.evaluate(parameter.value)]),
+    );
+
+    const outputs = handler(node, this, inputs);
+    if (!outputs) return;
+    if (!["actionCalls", "apexPluginCalls", "subflows"].includes(collection)) {
+      return;
+    }
+    const assignments = collection === "subflows"
+      ? element.outputAssignments ?? []
+      : element.outputParameters ?? [];
+    assignments.forEach(({ name, assignToReference }) => {
+      if (name && assignToReference) {
+        this.set(assignToReference, outputs[name] ?? null);
+      }
+    });
+    if (isTrue(element.storeOutputAutomatically)) this.set(node.name!, outputs);
+  }
+
+  /**
+   * Replace the merge fields of a text with their values
+   * @param text Text containing merge fields such as `{!recordId}`
+   * @returns Text with the values of the merge fields, blank values as empty
+   */
+  private mergeText(text: string): string {
+    return text.replace(MERGE_FIELD_PATTERN, (_, reference: string) => {
+      const value = this.get(reference);
+      return isBlank(value) ? "" : String(value);
+    });
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Layered layout of Flow graphs
+ *
+ * This module computes canvas positions for the nodes of a Flow: nodes are
+ * assigned to layers by their longest distance from the start (ignoring loop
+ * back edges), ordered within each layer to reduce edge crossings and spread
+ * out on a grid. The positions can be written back to `locationX` and
+ * `locationY` for the free-form canvas.
+ */
+import type { Flow, FlowNode } from "@salesforce/types/metadata";
+import { FlowGraph } from "./graph.ts";
+
+/**
+ * Options for the layered layout
+ */
+export interface LayoutOptions {
+  /** Horizontal distance between nodes of the same layer, 220 by default */
+  spacingX?: number;
+  /** Vertical distance between layers, 150 by default */
+  spacingY?: number;
+  /** Left edge of the layout, 50 by default */
+  originX?: number;
+  /** Top edge of the layout, 50 by default */
+  originY?: number;
+}
+
+/**
+ * Options for layoutFlow
+ */
+export interface LayoutFlowOptions extends LayoutOptions {
+  /**
+   * Only position nodes without coordinates (missing or at 0, 0), e.g. nodes
+   * added programmatically. They are placed relative to an already positioned
+   * predecessor where possible. False by default.
+   */
+  onlyMissing?: boolean;
+}
+
+/**
+ * Canvas position of a node
+ */
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Compute positions for all nodes of a Flow with a layered layout
+ * Nodes not reachable from the start are laid out as if they were additional
+ * entry points.
+ * @param flow Flow object to lay out
+ * @param options Layout options
+ * @returns Position of every node by name, the start node as `$Start`
+ * @example
+ * const positions = computeLayout(flow);
+ * console.log(positions.get("MyDecision")); // { x: 270, y: 200 }
+ */
+export function computeLayout(
+  flow: Flow,
+  options: LayoutOptions = {},
+): Map<string, LayoutPosition> {
+  const spacingX = options.spacingX ?? 220;
+  const spacingY = options.spacingY ?? 150;
+  const originX = options.originX ?? 50;
+  const originY = options.originY ?? 50;
+
+  const graph = new FlowGraph(flow);
+  const { order, backEdges } = orderNodes(graph);
+  const isForward = (source: string, target: string) =>
+    graph.hasNode(target) && !backEdges.has(`${source}->${target}`);
+
+  // Assign every node to the layer after its deepest forward predecessor
+  const ranks = new Map<string, number>();
+  topologicalOrder(graph, order, isForward).forEach((name) => {
+    const rank = Math.max(
+      -1,
+      ...graph.predecessors(name)
+        .filter((predecessor) => isForward(predecessor, name))
+        .map((predecessor) => ranks.get(predecessor) ?? 0),
+    ) + 1;
+    ranks.set(name, rank);
+  });
+
+  // Order the nodes of each layer by discovery, then by the average position
+  // of their predecessors to reduce crossings
+  const layers: string[][] = [];
+  order.forEach((name) => {
+    const rank = ranks.get(name)!;
+    (layers[rank] ??= []).push(name);
+  });
+  const positionInLayer = new Map<string, number>();
+  layers.forEach((layer, rank) => {
+    if (rank > 0) {
+      const barycenter = (name: string) => {
+        const positions = graph.predecessors(name)
+          .filter((predecessor) => ranks.get(predecessor) === rank - 1)
+          .map((predecessor) => positionInLayer.get(predecessor)!);
+        return positions.length > 0
+          ? positions.reduce((sum, value) => sum + value, 0) / positions.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      const keys = new Map(layer.map((name) => [name, barycenter(name)]));
+      layer.sort((a, b) => keys.get(a)! - keys.get(b)!);
+    }
+    const offset = -(layer.length - 1) / 2;
+    layer.forEach((name, index) => positionInLayer.set(name, offset + index));
+  });
+
+  const minPosition = Math.min(0, ...positionInLayer.values());
+  const positions = new Map<string, LayoutPosition>();
+  order.forEach((name) => {
+    positions.set(name, {
+      x: originX + (positionInLayer.get(name)! - minPosition) * spacingX,
+      y: originY + ranks.get(name)! * spacingY,
+    });
+  });
+
+  return positions;
+}
+
+/**
+ * Write layered layout coordinates to the nodes of a Flow
+ * Sets `locationX` and `locationY` of every node returned by getFlowNodes, or
+ * only of the nodes without coordinates when `onlyMissing` is set.
+ * @param flow Flow object to modify
+ * @param options Layout options
+ * @returns Names of the nodes that were positioned, the start node as `$Start`
+ * @example
+ * insertNodeBefore(flow, "Target", decision("Check").build());
+ * layoutFlow(flow, { onlyMissing: true });
+ * stringifyToFile(flow, "path/to/flow.xml");
+ */
+export function layoutFlow(
+  flow: Flow,
+  options: LayoutFlowOptions = {},
+): string[] {
+  const graph = new FlowGraph(flow);
+  const computed = computeLayout(flow, options);
+  const placed = new Map<string, LayoutPosition>();
+  const missing: string[] = [];
+
+  computed.forEach((_, name) => {
+    const node = graph.getNode(name)!;
+    if (options.onlyMissing && hasLocation(node)) {
+      placed.set(name, {
+        x: Number(node.locationX),
+        y: Number(node.locationY),
+      });
+    } else {
+      missing.push(name);
+    }
+  });
+
+  missing.forEach((name) => {
+    const position = computed.get(name)!;
+    const anchor = graph.predecessors(name).find((predecessor) =>
+      placed.has(predecessor)
+    );
+    const result = anchor
+      ? {
+        x: placed.get(anchor)!.x + position.x - computed.get(anchor)!.x,
+        y: placed.get(anchor)!.y + position.y - computed.get(anchor)!.y,
+      }
+      : position;
+    const node = graph.getNode(name)!;
+    node.locationX = result.x;
+    node.locationY = result.y;
+    placed.set(name, result);
+  });
+
+  return missing;
+}
+
+/**
+ * Check whether a node has canvas coordinates
+ * @param node Node to check
+ * @returns false if the coordinates are missing or both 0
+ */
+function hasLocation(node: FlowNode): boolean {
+  const x = Number(node.locationX ?? 0);
+  const y = Number(node.locationY ?? 0);
+  return x !== 0 || y !== 0;
+}
+
+/**
+ * Order the nodes of a graph depth-first from the entry point and find the
+ * edges closing cycles (loop back edges)
+ * @param graph Graph to traverse
+ * @returns Nodes in discovery order and back edges as `source->target`
+ */
+function orderNodes(
+  graph: FlowGraph,
+): { order: string[]; backEdges: Set<string> } {
+  const order: string[] = [];
+  const backEdges = new Set<string>();
+  const visited = new Set<string>();
+  const onStack = new Set<string>();
+
+  const visit = (name: string) => {
+    visited.add(name);
+    onStack.add(name);
+    order.push(name);
+    graph.successors(name).forEach((successor) => {
+      if (!graph.hasNode(successor)) return;
+      if (onStack.has(successor)) {
+        backEdges.add(`${name}->${successor}`);
+      } else if (!visited.has(successor)) {
+        visit(successor);
+      }
+    });
+    onStack.delete(name);
+  };
+
+  const entryPoint = graph.entryPoint;
+  if (entryPoint && graph.hasNode(entryPoint)) visit(entryPoint);
+  graph.nodeNames.forEach((name) => {
+    if (!visited.has(name)) visit(name);
+  });
+
+  return { order, backEdges };
+}
+
+/**
+ * Sort nodes so that every node comes after its forward predecessors
+ * @param graph Graph of the nodes
+ * @param order Nodes in discovery order, used to break ties
+ * @param isForward Check whether an edge is a forward edge
+ * @returns Nodes in topological order
+ */
+function topologicalOrder(
+  graph: FlowGraph,
+  order: string[],
+  isForward: (source: string, target: string) => boolean,
+): string[] {
+  const pending = new Map(
+    order.map((name) => [
+      name,
+      graph.predecessors(name).filter((predecessor) =>
+        isForward(predecessor, name)
+      ).length,
+    ]),
+  );
+  const sorted: string[] = [];
+  const queue = order.filter((name) => pending.get(name) === 0);
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    sorted.push(name);
+    graph.successors(name)
+      .filter((successor) => isForward(name, successor))
+      .forEach((successor) => {
+        const count = pending.get(successor)! - 1;
+        pending.set(successor, count);
+        if (count === 0) queue.push(successor);
+      });
+  }
+
+  return sorted;
+}
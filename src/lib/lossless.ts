@@ -0,0 +1,316 @@
+/**
+ * Lossless round-trip of Flow XML
+ *
+ * This module keeps the original XML of Flows parsed with `lossless: true`,
+ * split into the top-level elements of `<Flow>` with the whitespace and
+ * comments before them. When such a Flow is stringified, unchanged elements
+ * are copied from the original text, so comments, unknown elements and the
+ * original order survive and automated edits produce minimal diffs. Only
+ * changed, added and removed elements are re-emitted.
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import * as xmlLib from "@libs/xml";
+import { orderProperties, replaceSelfClosingTags } from "./helper.ts";
+import { FLOW_SCHEMA } from "./schema.ts";
+import { XML_CONFIG } from "./types.ts";
+import { formatProperties } from "./values.ts";
+
+/**
+ * Top-level element of the original XML
+ */
+interface SourceElement {
+  /** Tag name, i.e. the Flow property */
+  tag: string;
+  /** Whitespace and comments before the element */
+  leading: string;
+  /** Original text of the element */
+  raw: string;
+  /** Position within the array of the property, undefined for single values */
+  index?: number;
+  /** Parsed value of the element */
+  value: unknown;
+  /** JSON of the parsed value, used to detect changes */
+  snapshot: string;
+}
+
+/**
+ * Original XML of a Flow split into its top-level elements
+ */
+interface FlowSource {
+  /** Text up to and including the `<Flow>` start tag */
+  prefix: string;
+  elements: SourceElement[];
+  /** Whitespace and comments after the last element */
+  trailing: string;
+  /** Text from the `</Flow>` end tag */
+  suffix: string;
+}
+
+/**
+ * Original XML by Flow object
+ */
+const sources = new WeakMap<Flow, FlowSource>();
+
+/**
+ * Keep the original XML of a parsed Flow for lossless stringify
+ * @param flow Flow object parsed from the XML
+ * @param xml Original XML
+ * @throws Error if the top-level elements of the Flow cannot be read
+ */
+export function retainSource(flow: Flow, xml: string): void {
+  const source = splitSource(xml);
+  const properties = flow as unknown as Record<string, unknown>;
+  const counts = new Map<string, number>();
+
+  source.elements.forEach((element) => {
+    const value = properties[element.tag];
+    if (Array.isArray(value)) {
+      element.index = counts.get(element.tag) ?? 0;
+      counts.set(element.tag, element.index + 1);
+      element.value = value[element.index];
+    } else {
+      element.value = value;
+    }
+    element.snapshot = JSON.stringify(element.value);
+  });
+
+  sources.set(flow, source);
+}
+
+/**
+ * Check whether a Flow keeps its original XML
+ * @param flow Flow object to check
+ * @returns true if the Flow was parsed with `lossless: true`
+ */
+export function hasRetainedSource(flow: Flow): boolean {
+  return sources.has(flow);
+}
+
+/**
+ * Convert a Flow parsed with `lossless: true` back to XML
+ * Elements are matched to the original ones by identity, then by name or by
+ * position. Unchanged elements keep their original text, changed elements are
+ * re-emitted in place, new array items follow the last item of their property
+ * and new properties follow the last element whose tag sorts before theirs.
+ * @param flow Flow object to stringify
+ * @returns XML string, identical to the original if nothing changed
+ * @throws Error if the Flow has no retained source
+ */
+export function stringifyLossless(flow: Flow): string {
+  const source = sources.get(flow);
+  if (!source) throw new Error("Flow was not parsed in lossless mode");
+
+  const properties = flow as unknown as Record<string, unknown>;
+  const indent = /[ \t]*$/.exec(source.elements[0]?.leading ?? "")![0] ||
+    XML_CONFIG.options.format.indent;
+  const matches = matchElements(source.elements, properties);
+  const used = new Set(matches);
+
+  const lastIndexes = new Map<string, number>();
+  source.elements.forEach((element, index) =>
+    lastIndexes.set(element.tag, index)
+  );
+  // New properties follow the last element sorting before them
+  const added = new Map<number, string[]>();
+  Object.keys(properties)
+    .filter((tag) =>
+      !lastIndexes.has(tag) && !tag.startsWith("@") && !tag.startsWith("#")
+    )
+    .sort()
+    .forEach((tag) => {
+      const anchor = source.elements.findLastIndex((element) =>
+        element.tag < tag
+      );
+      added.set(anchor, [...(added.get(anchor) ?? []), tag]);
+    });
+
+  let xml = source.prefix;
+  const emit = (tag: string, items: unknown[]) =>
+    items.forEach((item) =>
+      xml += `\n${indent}${renderElement(tag, item, indent)}`
+    );
+  const emitAdded = (anchor: number) =>
+    added.get(anchor)?.forEach((tag) => emit(tag, toItems(properties[tag])));
+
+  emitAdded(-1);
+  source.elements.forEach((element, index) => {
+    const value = matches[index];
+    if (value !== undefined && value !== null) {
+      xml += element.leading +
+        (JSON.stringify(value) === element.snapshot
+          ? element.raw
+          : renderElement(element.tag, value, indent));
+    }
+    if (
+      lastIndexes.get(element.tag) === index && element.index !== undefined
+    ) {
+      emit(
+        element.tag,
+        toItems(properties[element.tag]).filter((item) => !used.has(item)),
+      );
+    }
+    emitAdded(index);
+  });
+
+  return xml + source.trailing + source.suffix;
+}
+
+/**
+ * Find the current value of every original element
+ * @param elements Original elements
+ * @param properties Current Flow properties
+ * @returns Current value by element position, undefined for removed elements
+ */
+function matchElements(
+  elements: SourceElement[],
+  properties: Record<string, unknown>,
+): unknown[] {
+  const matches: unknown[] = elements.map((element) =>
+    element.index === undefined ? properties[element.tag] : undefined
+  );
+  const used = new Set<unknown>();
+  const claim = (
+    index: number,
+    find: (item: unknown, position: number) => boolean,
+  ) => {
+    const element = elements[index];
+    if (element.index === undefined || matches[index] !== undefined) return;
+    const items = toItems(properties[element.tag]);
+    const match = items.find((item, position) =>
+      !used.has(item) && find(item, position)
+    );
+    if (match === undefined) return;
+    used.add(match);
+    matches[index] = match;
+  };
+
+  // Match by identity first, so renamed and moved items keep their place
+  elements.forEach((element, index) =>
+    claim(index, (item) => item === element.value)
+  );
+  elements.forEach((element, index) => {
+    const name = getName(element.value);
+    claim(
+      index,
+      (item, position) =>
+        name === undefined
+          ? position === element.index
+          : getName(item) === name,
+    );
+  });
+
+  return matches;
+}
+
+/**
+ * Split Flow XML into its top-level elements
+ * @param xml Original XML
+ * @returns Prefix, elements, trailing text and suffix
+ * @throws Error if there is no Flow element or an element is not closed
+ */
+function splitSource(xml: string): FlowSource {
+  const start = /<Flow(?:\s[^>]*)?>/.exec(xml);
+  if (!start) throw new Error("XML does not contain a Flow element");
+
+  let position = start.index + start[0].length;
+  const prefix = xml.slice(0, position);
+  const elements: SourceElement[] = [];
+  const trivia = /\s+|<!--[\s\S]*?-->|<\?[\s\S]*?\?>/y;
+
+  for (;;) {
+    let leading = "";
+    trivia.lastIndex = position;
+    for (let match = trivia.exec(xml); match; match = trivia.exec(xml)) {
+      leading += match[0];
+      position = trivia.lastIndex;
+    }
+
+    if (xml.startsWith("</Flow", position) || position >= xml.length) {
+      return {
+        prefix,
+        elements,
+        trailing: leading,
+        suffix: xml.slice(position),
+      };
+    }
+    const tag = /<([\w:.-]+)/y;
+    tag.lastIndex = position;
+    const match = tag.exec(xml);
+    if (!match) {
+      throw new Error(`Unexpected content at position ${position}`);
+    }
+
+    const end = findElementEnd(xml, position);
+    elements.push({
+      tag: match[1],
+      leading,
+      raw: xml.slice(position, end),
+      value: undefined,
+      snapshot: "",
+    });
+    position = end;
+  }
+}
+
+/**
+ * Find the end of the element starting at a position
+ * @param xml XML text
+ * @param start Position of the start tag
+ * @returns Position after the end tag
+ * @throws Error if the element is not closed
+ */
+function findElementEnd(xml: string, start: number): number {
+  const tags =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<(\/?)[\w:.-]+(?:"[^"]*"|'[^']*'|[^>"'])*?(\/?)>/g;
+  tags.lastIndex = start;
+  let depth = 0;
+
+  for (let match = tags.exec(xml); match; match = tags.exec(xml)) {
+    if (match[0].startsWith("<!") || match[0].startsWith("<?")) continue;
+    if (match[1]) depth--;
+    else if (!match[2]) depth++;
+    if (depth === 0) return tags.lastIndex;
+  }
+
+  throw new Error(`Unclosed element at position ${start}`);
+}
+
+/**
+ * Render a top-level element with its properties in schema order and its
+ * values formatted as the Metadata API writes them
+ * @param tag Tag name
+ * @param value Value of the element
+ * @param indent Indentation of the element
+ * @returns XML of the element, nested lines indented
+ */
+function renderElement(tag: string, value: unknown, indent: string): string {
+  const type = FLOW_SCHEMA.Flow[tag]?.type ?? "";
+  const ordered = formatProperties(orderProperties(value, type), type);
+  const xml = xmlLib.stringify({ [tag]: ordered }, XML_CONFIG.options);
+  return replaceSelfClosingTags(`${xml}\n`)
+    .replace(/^<\?xml[^>]*\?>\s*/, "")
+    .trimEnd()
+    .split("\n")
+    .join(`\n${indent}`);
+}
+
+/**
+ * Get the items of a property
+ * @param value Array, single value or undefined
+ * @returns Array of the defined values
+ */
+function toItems(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === null ? [] : [value];
+}
+
+/**
+ * Get the name of an element
+ * @param value Element value
+ * @returns The `name` property, undefined if missing
+ */
+function getName(value: unknown): string | undefined {
+  return typeof value === "object" && value !== null
+    ? (value as { name?: string }).name
+    : undefined;
+}
@@ -0,0 +1,205 @@
+/**
+ * Three-way merge of Flows
+ *
+ * This module merges two Flows that were changed independently from a common
+ * base. Elements of every Flow array property are matched by name, so changes
+ * to different elements never conflict, no matter where they are in the XML.
+ * Changes to the same element are merged property by property and only
+ * incompatible changes of the same value are reported as conflicts.
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import type { NamedObject } from "./types.ts";
+
+/**
+ * Value changed differently on both sides of a merge
+ */
+export interface MergeConflict {
+  /**
+   * Path of the value; named array items are addressed by name, e.g.
+   * `decisions[Check].rules[Is_Big].connector.targetReference`
+   */
+  path: string;
+  /** Value in the common base, undefined if it did not exist */
+  base?: unknown;
+  /** Value on our side, undefined if it was removed */
+  ours?: unknown;
+  /** Value on their side, undefined if it was removed */
+  theirs?: unknown;
+}
+
+/**
+ * Options for mergeFlows
+ */
+export interface MergeOptions {
+  /** Side conflicting values are taken from, `ours` by default */
+  prefer?: "ours" | "theirs";
+}
+
+/**
+ * Result of mergeFlows
+ */
+export interface MergeResult {
+  /** Merged Flow; conflicting values are taken from the preferred side */
+  flow: Flow;
+  /** Conflicts that have to be resolved manually, empty on a clean merge */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Merge two Flows changed independently from a common base
+ * Items of arrays of named objects (nodes, resources, rules, screen fields,
+ * ...) are matched by name; other arrays are treated as single values.
+ * Values changed on one side only are taken from that side, values changed on
+ * both sides in different ways are conflicts.
+ * @param base Common ancestor of both Flows
+ * @param ours Our version of the Flow
+ * @param theirs Their version of the Flow
+ * @param options Merge options
+ * @returns Merged Flow and the conflicts, the inputs are not modified
+ * @example
+ * const { flow, conflicts } = mergeFlows(base, ours, theirs);
+ * if (conflicts.length === 0) stringifyToFile(flow, "merged.flow-meta.xml");
+ */
+export function mergeFlows(
+  base: Flow,
+  ours: Flow,
+  theirs: Flow,
+  options: MergeOptions = {},
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const flow = mergeValues(
+    base,
+    ours,
+    theirs,
+    "",
+    conflicts,
+    options.prefer ?? "ours",
+  ) as Flow;
+  return { flow: structuredClone(flow), conflicts };
+}
+
+/**
+ * Recursively merge three versions of a value
+ * @param base Value in the common base
+ * @param ours Value on our side
+ * @param theirs Value on their side
+ * @param path Path of the value
+ * @param conflicts Array receiving the conflicts
+ * @param prefer Side conflicting values are taken from
+ * @returns Merged value, the preferred value if it conflicts
+ */
+function mergeValues(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string,
+  conflicts: MergeConflict[],
+  prefer: "ours" | "theirs",
+): unknown {
+  if (isEqualValue(ours, theirs)) return ours;
+  if (isEqualValue(base, ours)) return theirs;
+  if (isEqualValue(base, theirs)) return ours;
+
+  if (isPlainObject(base) && isPlainObject(ours) && isPlainObject(theirs)) {
+    const merged: Record<string, unknown> = {};
+    new Set([...Object.keys(ours), ...Object.keys(theirs)]).forEach((key) => {
+      const value = mergeValues(
+        base[key],
+        ours[key],
+        theirs[key],
+        path ? `${path}.${key}` : key,
+        conflicts,
+        prefer,
+      );
+      if (value !== undefined) merged[key] = value;
+    });
+    return merged;
+  }
+
+  if (isNamedArray(base) && isNamedArray(ours) && isNamedArray(theirs)) {
+    const index = (items: NamedObject[] | undefined) =>
+      new Map((items ?? []).map((item) => [item.name!, item]));
+    const baseItems = index(base);
+    const ourItems = index(ours);
+    const theirItems = index(theirs);
+    const merged: unknown[] = [];
+    new Set([...ourItems.keys(), ...theirItems.keys()]).forEach((name) => {
+      const value = mergeValues(
+        baseItems.get(name),
+        ourItems.get(name),
+        theirItems.get(name),
+        `${path}[${name}]`,
+        conflicts,
+        prefer,
+      );
+      if (value !== undefined) merged.push(value);
+    });
+    return merged;
+  }
+
+  const conflict: MergeConflict = { path };
+  if (base !== undefined) conflict.base = base;
+  if (ours !== undefined) conflict.ours = ours;
+  if (theirs !== undefined) conflict.theirs = theirs;
+  conflicts.push(conflict);
+  return prefer === "ours" ? ours : theirs;
+}
+
+/**
+ * Deeply compare two values ignoring key order
+ * A missing value and an empty array are considered equal, like
+ * ensureArrayProperties makes them.
+ * @param a First value
+ * @param b Second value
+ * @returns true if the values are equal
+ */
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length &&
+      a.every((item, index) => isEqualValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqualValue(a[key], b[key]));
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+/**
+ * Check whether a value is an array of named objects
+ * Missing values and empty arrays count as named arrays, so items added to an
+ * empty collection are merged by name as well.
+ * @param value Value to check
+ * @returns true if every item is an object with a name
+ */
+function isNamedArray(
+  value: unknown,
+): value is NamedObject[] | undefined {
+  if (value === undefined) return true;
+  return Array.isArray(value) &&
+    value.every((item) => isPlainObject(item) && typeof item.name === "string");
+}
+
+/**
+ * Check whether a value is a plain object
+ * @param value Value to check
+ * @returns true for objects other than arrays and dates
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Check whether a value is missing or an empty array
+ * @param value Value to check
+ * @returns true for undefined, null and empty arrays
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null ||
+    (Array.isArray(value) && value.length === 0);
+}
@@ -5,12 +5,85 @@
  * - Finding nodes by name
  * - Getting all nodes from a Flow
  * - Finding parent nodes that connect to a specific node
- * - Getting all connectors from a node
+ * - Getting all connectors from a node, optionally with their kind and path
  * - Reparenting nodes (changing connections)
+ * - Removing nodes and reconnecting their parents
+ * - Inserting new nodes before or after existing nodes
  */
 import type {Flow, FlowConnector, FlowNode} from "@salesforce/types/metadata";
-import {FLOW_ARRAY_NODES} from "./constants.ts";
-import type {BaseFlowNodeWithConnector} from "./types.ts";
+import {
+  FLOW_ARRAY_NODES,
+  FLOW_ELEMENT_PROPERTIES,
+  NODE_COLLECTION_SIGNATURES,
+  PRIMARY_CONNECTOR_PROPERTIES,
+  START_NODE_NAME,
+} from "./constants.ts";
+import {processNestedArrays} from "./helper.ts";
+import type {
+  BaseFlowNodeWithConnector,
+  ConnectorChange,
+  ConnectorKind,
+  TypedConnector,
+} from "./types.ts";
+
+/**
+ * Options for removeNode
+ */
+export interface RemoveNodeOptions {
+  /**
+   * Node the parents of the removed node should be connected to instead.
+   * Defaults to the primary successor of the removed node; `null` removes the
+   * parent connectors instead of retargeting them.
+   */
+  reconnectTo?: string | null;
+}
+
+/**
+ * Options for insertNodeBefore
+ */
+export interface InsertNodeOptions {
+  /**
+   * FLOW_ARRAY_NODES collection to add the node to, e.g. `decisions`.
+   * Inferred from the properties of the node by default.
+   */
+  collection?: string;
+}
+
+/**
+ * Options for insertNodeAfter
+ */
+export interface InsertNodeAfterOptions extends InsertNodeOptions {
+  /**
+   * Connector of the source node to insert the new node on: a connector
+   * property (`connector`, `defaultConnector`, `faultConnector`,
+   * `nextValueConnector`, `noMoreValuesConnector`) or the name of a rule,
+   * scheduled path or wait event. Defaults to the primary connector of the
+   * source node.
+   */
+  via?: string;
+}
+
+/**
+ * Result of insertNodeBefore and insertNodeAfter
+ */
+export interface InsertNodeResult {
+  /** Flow property the node was added to, e.g. `decisions` */
+  collection: string;
+  /** Every connector that was created or retargeted */
+  changes: ConnectorChange[];
+}
+
+/**
+ * Result of removeNode
+ */
+export interface RemoveNodeResult {
+  /** The node that was removed */
+  removed: FlowNode;
+  /** Flow property the node was removed from, e.g. `decisions` */
+  collection: string;
+  /** Every connector that was retargeted or removed */
+  changes: ConnectorChange[];
+}
 
 /**
  * Get all nodes from a Flow object
@@ -102,6 +175,84 @@ export function getConnectors(
   return connectors.filter(Boolean) as FlowConnector[];
 }
 
+/**
+ * Get all connectors from a Flow node together with their kind and location
+ * Connectors are returned in the same order as by getConnectors.
+ * @param node Flow node to get connectors from
+ * @returns Array of TypedConnector objects
+ * @example
+ * const node = findFlowNodeByName(flow, "MyDecision");
+ * if (node) {
+ *   getTypedConnectors(node).forEach(({ kind, path, connector }) => {
+ *     console.log(`${kind} at ${path} -> ${connector.targetReference}`);
+ *   });
+ * }
+ */
+export function getTypedConnectors(
+  node: BaseFlowNodeWithConnector,
+): TypedConnector[] {
+  const connectors: TypedConnector[] = [];
+
+  const addConnector = (
+    kind: TypedConnector["kind"],
+    connector: FlowConnector | undefined,
+    path: string,
+    branch?: string,
+  ) => {
+    if (!connector) return;
+    connectors.push(
+      branch === undefined
+        ? { kind, connector, path }
+        : { kind, connector, path, branch },
+    );
+  };
+
+  addConnector("connector", node.connector, "connector");
+  addConnector("default", node.defaultConnector, "defaultConnector");
+  addConnector("nextValue", node.nextValueConnector, "nextValueConnector");
+  addConnector(
+    "noMoreValues",
+    node.noMoreValuesConnector,
+    "noMoreValuesConnector",
+  );
+  addConnector("fault", node.faultConnector, "faultConnector");
+
+  if (Array.isArray(node.rules)) {
+    node.rules.forEach((rule, index) =>
+      addConnector(
+        "rule",
+        rule.connector,
+        `rules[${index}].connector`,
+        rule.name,
+      )
+    );
+  }
+
+  if (Array.isArray(node.scheduledPaths)) {
+    node.scheduledPaths.forEach((path, index) =>
+      addConnector(
+        "scheduledPath",
+        path.connector,
+        `scheduledPaths[${index}].connector`,
+        path.name,
+      )
+    );
+  }
+
+  if (Array.isArray(node.waitEvents)) {
+    node.waitEvents.forEach((event, index) =>
+      addConnector(
+        "waitEvent",
+        event.connector,
+        `waitEvents[${index}].connector`,
+        event.name,
+      )
+    );
+  }
+
+  return connectors;
+}
+
 /**
  * Find all parent nodes that connect to a child node
  * @param flow Flow object to search
@@ -145,3 +296,481 @@ export function reparentNode(
     );
   });
 }
+
+/**
+ * Get the primary successor of a node, i.e. where execution continues on the
+ * regular path: the `connector`, the `defaultConnector` of decisions and waits
+ * or the `noMoreValuesConnector` of loops
+ * @param node Flow node to inspect
+ * @returns Name of the primary successor, undefined if the node has none
+ * @example
+ * const loop = findFlowNodeByName(flow, "Each_Item");
+ * console.log(getPrimarySuccessor(loop)); // node after the loop
+ */
+export function getPrimarySuccessor(
+  node: BaseFlowNodeWithConnector,
+): string | undefined {
+  return (
+    node.connector ?? node.defaultConnector ?? node.noMoreValuesConnector
+  )?.targetReference;
+}
+
+/**
+ * Find the collection and index of a node in a Flow
+ * @param flow Flow object to search
+ * @param name Name of the node
+ * @returns Collection name and index, undefined if the node is not in any
+ * FLOW_ARRAY_NODES collection
+ */
+function findNodeCollection(
+  flow: Flow,
+  name: string,
+): { collection: string; index: number } | undefined {
+  for (const collection of FLOW_ARRAY_NODES) {
+    const nodeArray = flow[collection as keyof Flow];
+    if (!Array.isArray(nodeArray)) continue;
+    const index = (nodeArray as FlowNode[]).findIndex((node) =>
+      node.name === name
+    );
+    if (index !== -1) return { collection, index };
+  }
+  return undefined;
+}
+
+/**
+ * Call a function for every node of a Flow together with its name and path
+ * @param flow Flow object to iterate
+ * @param callback Function to call for each node
+ */
+function forEachNode(
+  flow: Flow,
+  callback: (node: FlowNode, name: string, path: string) => void,
+): void {
+  if (flow.start) {
+    callback(flow.start, flow.start.name || START_NODE_NAME, "start");
+  }
+  FLOW_ARRAY_NODES.forEach((collection) => {
+    const nodeArray = flow[collection as keyof Flow];
+    if (!Array.isArray(nodeArray)) return;
+    (nodeArray as FlowNode[]).forEach((node, index) =>
+      callback(node, node.name || "", `${collection}[${index}]`)
+    );
+  });
+}
+
+/**
+ * Delete a connector from a node, given its path relative to the node
+ * @param node Node owning the connector
+ * @param path Path returned by getTypedConnectors, e.g. `rules[0].connector`
+ */
+function deleteConnector(node: object, path: string): void {
+  const holder = node as Record<string, unknown>;
+  const match = path.match(/^(\w+)\[(\d+)\]\.connector$/);
+  if (match) {
+    const items = holder[match[1]] as Record<string, unknown>[];
+    delete items[Number(match[2])].connector;
+  } else {
+    delete holder[path];
+  }
+}
+
+/**
+ * Retarget or remove every connector pointing at a node
+ * @param flow Flow object to modify
+ * @param name Name of the node whose incoming connectors should change
+ * @param target New target, undefined to remove the connectors
+ * @returns Every connector that was changed
+ */
+function redirectConnectors(
+  flow: Flow,
+  name: string,
+  target: string | undefined,
+): ConnectorChange[] {
+  const changes: ConnectorChange[] = [];
+
+  forEachNode(flow, (node, nodeName, nodePath) => {
+    getTypedConnectors(node as BaseFlowNodeWithConnector).forEach((typed) => {
+      if (typed.connector.targetReference !== name) return;
+      if (target === undefined) {
+        deleteConnector(node, typed.path);
+      } else {
+        typed.connector.targetReference = target;
+      }
+      const change: ConnectorChange = {
+        element: nodeName,
+        kind: typed.kind,
+        path: `${nodePath}.${typed.path}`,
+        from: name,
+      };
+      if (target !== undefined) change.to = target;
+      changes.push(change);
+    });
+  });
+
+  if (flow.startElementReference === name) {
+    const change: ConnectorChange = {
+      element: START_NODE_NAME,
+      kind: "connector",
+      path: "startElementReference",
+      from: name,
+    };
+    if (target === undefined) {
+      delete (flow as Partial<Flow>).startElementReference;
+    } else {
+      flow.startElementReference = target;
+      change.to = target;
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+/**
+ * Remove a node from a Flow and reconnect its parents
+ * The node is removed from whichever FLOW_ARRAY_NODES collection holds it.
+ * Every connector pointing at it (including rule, scheduled path and wait
+ * event connectors) is retargeted to its primary successor, to the node given
+ * in `reconnectTo`, or removed if there is no successor or `reconnectTo` is
+ * `null`.
+ * @param flow Flow object to modify
+ * @param name Name of the node to remove
+ * @param options Options controlling how the parents are reconnected
+ * @returns The removed node and every connector that was changed
+ * @throws Error if the node or the reconnect target does not exist
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * const { changes } = removeNode(flow, "Obsolete_Assignment");
+ * changes.forEach((c) => console.log(`${c.path}: ${c.from} -> ${c.to}`));
+ */
+export function removeNode(
+  flow: Flow,
+  name: string,
+  options: RemoveNodeOptions = {},
+): RemoveNodeResult {
+  const location = findNodeCollection(flow, name);
+  if (!location) {
+    throw new Error(`Node not found: ${name}`);
+  }
+
+  const nodeArray = flow[location.collection as keyof Flow] as FlowNode[];
+  const removed = nodeArray[location.index];
+
+  let target: string | undefined;
+  if (options.reconnectTo === undefined) {
+    target = getPrimarySuccessor(removed as BaseFlowNodeWithConnector);
+    if (target === name) target = undefined;
+  } else if (options.reconnectTo !== null) {
+    target = options.reconnectTo;
+    if (target === name) {
+      throw new Error(`Cannot reconnect node ${name} to itself`);
+    }
+    if (!findFlowNodeByName(flow, target)) {
+      throw new Error(`Node not found: ${target}`);
+    }
+  }
+
+  nodeArray.splice(location.index, 1);
+  const changes = redirectConnectors(flow, name, target);
+
+  return { removed, collection: location.collection, changes };
+}
+
+/**
+ * Connector kinds of the connector properties that can be used as `via` in
+ * insertNodeAfter
+ */
+const CONNECTOR_PROPERTY_KINDS: Record<string, ConnectorKind> = {
+  connector: "connector",
+  defaultConnector: "default",
+  faultConnector: "fault",
+  nextValueConnector: "nextValue",
+  noMoreValuesConnector: "noMoreValues",
+};
+
+/**
+ * Connector kinds of the node properties holding named branches
+ */
+const BRANCH_PROPERTY_KINDS = {
+  rules: "rule",
+  scheduledPaths: "scheduledPath",
+  waitEvents: "waitEvent",
+} as const;
+
+/**
+ * Determine the FLOW_ARRAY_NODES collection a node belongs to from its
+ * properties, using NODE_COLLECTION_SIGNATURES
+ * @param node Node to inspect
+ * @returns Collection name, undefined if the node matches no signature
+ * @example
+ * inferNodeCollection({ name: "Check", rules: [] }); // "decisions"
+ */
+export function inferNodeCollection(node: object): string | undefined {
+  const properties = node as Record<string, unknown>;
+  return NODE_COLLECTION_SIGNATURES.find((signature) =>
+    signature.properties.every((prop) => properties[prop] !== undefined)
+  )?.collection;
+}
+
+/**
+ * Check whether any element of a Flow already uses a name
+ * Names are compared case-insensitively, like Salesforce does.
+ * @param flow Flow object to search
+ * @param name Name to look for
+ * @returns true if the name is taken
+ */
+export function isElementNameTaken(flow: Flow, name: string): boolean {
+  const lowerName = name.toLowerCase();
+  return FLOW_ELEMENT_PROPERTIES.some((prop) => {
+    const elements = flow[prop as keyof Flow];
+    return Array.isArray(elements) &&
+      elements.some((element: { name?: string }) =>
+        element?.name?.toLowerCase() === lowerName
+      );
+  });
+}
+
+/**
+ * Validate a node that is about to be inserted and resolve its collection
+ * @param flow Flow object the node will be added to
+ * @param node Node to insert
+ * @param options Insert options
+ * @returns Collection the node should be added to
+ * @throws Error if the node has no name, the name is taken or the
+ * collection cannot be determined
+ */
+function resolveInsertCollection(
+  flow: Flow,
+  node: FlowNode,
+  options: InsertNodeOptions,
+): string {
+  if (!node.name) {
+    throw new Error("Node to insert must have a name");
+  }
+  if (isElementNameTaken(flow, node.name)) {
+    throw new Error(`Element name already in use: ${node.name}`);
+  }
+
+  const collection = options.collection ?? inferNodeCollection(node);
+  if (!collection) {
+    throw new Error(
+      `Cannot determine collection of node ${node.name}, pass the collection option`,
+    );
+  }
+  if (!FLOW_ARRAY_NODES.includes(collection)) {
+    throw new Error(`Unknown node collection: ${collection}`);
+  }
+  return collection;
+}
+
+/**
+ * Add a node to a collection of a Flow, normalizing its nested arrays
+ * @param flow Flow object to modify
+ * @param collection Collection to add the node to
+ * @param node Node to add
+ * @returns Path of the added node, e.g. `decisions[3]`
+ */
+function addNodeToCollection(
+  flow: Flow,
+  collection: string,
+  node: FlowNode,
+): string {
+  const flowRecord = flow as unknown as Record<string, FlowNode[]>;
+  if (!Array.isArray(flowRecord[collection])) {
+    flowRecord[collection] = [];
+  }
+  processNestedArrays({ [collection]: [node] });
+  flowRecord[collection].push(node);
+  return `${collection}[${flowRecord[collection].length - 1}]`;
+}
+
+/**
+ * Point the primary connector of a newly added node at a target, unless the
+ * node already has a primary connector
+ * @param node Newly added node
+ * @param collection Collection of the node
+ * @param path Path of the node within the Flow
+ * @param target Target to connect to, undefined to leave the node unconnected
+ * @returns The created connector change, undefined if nothing changed
+ */
+function connectPrimary(
+  node: FlowNode,
+  collection: string,
+  path: string,
+  target: string | undefined,
+): ConnectorChange | undefined {
+  const property = PRIMARY_CONNECTOR_PROPERTIES[collection] ?? "connector";
+  const holder = node as unknown as Record<string, FlowConnector | undefined>;
+  if (target === undefined || holder[property]) return undefined;
+
+  holder[property] = { targetReference: target, processMetadataValues: [] };
+  return {
+    element: node.name || "",
+    kind: CONNECTOR_PROPERTY_KINDS[property],
+    path: `${path}.${property}`,
+    to: target,
+  };
+}
+
+/**
+ * Insert a new node in front of an existing node
+ * Every connector pointing at the target (including rule, scheduled path and
+ * wait event connectors) is retargeted to the new node, and the primary
+ * connector of the new node is pointed at the target unless it already has
+ * one. The node is added to the collection matching its type. Nothing is
+ * modified if an error is thrown.
+ * @param flow Flow object to modify
+ * @param targetName Name of the node to insert the new node before
+ * @param newNode Node to insert
+ * @param options Insert options
+ * @returns Collection of the new node and every connector that was changed
+ * @throws Error if the target does not exist or the new node is invalid
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * insertNodeBefore(flow, "My_Subflow", myDecision);
+ * stringifyToFile(flow, "path/to/flow.xml");
+ */
+export function insertNodeBefore(
+  flow: Flow,
+  targetName: string,
+  newNode: FlowNode,
+  options: InsertNodeOptions = {},
+): InsertNodeResult {
+  if (!findFlowNodeByName(flow, targetName)) {
+    throw new Error(`Node not found: ${targetName}`);
+  }
+  const collection = resolveInsertCollection(flow, newNode, options);
+
+  const changes = redirectConnectors(flow, targetName, newNode.name);
+  const path = addNodeToCollection(flow, collection, newNode);
+  const change = connectPrimary(newNode, collection, path, targetName);
+  if (change) changes.push(change);
+
+  return { collection, changes };
+}
+
+/**
+ * Insert a new node behind an existing node
+ * The chosen connector of the source node is pointed at the new node (it is
+ * created if missing), and the primary connector of the new node is pointed
+ * at the previous target of that connector unless it already has one. The
+ * node is added to the collection matching its type. Nothing is modified if
+ * an error is thrown.
+ * @param flow Flow object to modify
+ * @param sourceName Name of the node to insert the new node after, or
+ * START_NODE_NAME for the start node
+ * @param newNode Node to insert
+ * @param options Insert options, including the connector to insert on
+ * @returns Collection of the new node and every connector that was changed
+ * @throws Error if the source or the connector does not exist or the new
+ * node is invalid
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * // Handle errors of a record update with a new action
+ * insertNodeAfter(flow, "Update_Account", logError, { via: "faultConnector" });
+ */
+export function insertNodeAfter(
+  flow: Flow,
+  sourceName: string,
+  newNode: FlowNode,
+  options: InsertNodeAfterOptions = {},
+): InsertNodeResult {
+  const isStart = flow.start !== undefined &&
+    (flow.start.name || START_NODE_NAME) === sourceName;
+  const source = isStart ? flow.start : findFlowNodeByName(flow, sourceName);
+  if (!source) {
+    throw new Error(`Node not found: ${sourceName}`);
+  }
+  const sourcePath = isStart ? "start" : findNodePath(flow, sourceName);
+  const sourceCollection = isStart ? "start" : sourcePath.split("[")[0];
+
+  // Resolve the connector to insert on before changing anything
+  const via = options.via ??
+    PRIMARY_CONNECTOR_PROPERTIES[sourceCollection] ?? "connector";
+  let holder: Record<string, unknown>;
+  let kind: ConnectorKind;
+  let connectorPath: string;
+  if (via in CONNECTOR_PROPERTY_KINDS) {
+    holder = source as unknown as Record<string, unknown>;
+    kind = CONNECTOR_PROPERTY_KINDS[via];
+    connectorPath = `${sourcePath}.${via}`;
+  } else {
+    const branch = findBranch(source as BaseFlowNodeWithConnector, via);
+    if (!branch) {
+      throw new Error(`Connector not found: ${via} on ${sourceName}`);
+    }
+    holder = branch.item;
+    kind = branch.kind;
+    connectorPath = `${sourcePath}.${branch.path}.connector`;
+  }
+  const property = via in CONNECTOR_PROPERTY_KINDS ? via : "connector";
+
+  const collection = resolveInsertCollection(flow, newNode, options);
+  const newName = newNode.name!;
+
+  const existing = holder[property] as FlowConnector | undefined;
+  const previousTarget = existing?.targetReference;
+  if (existing) {
+    existing.targetReference = newName;
+  } else {
+    holder[property] = { targetReference: newName, processMetadataValues: [] };
+  }
+
+  const change: ConnectorChange = {
+    element: sourceName,
+    kind,
+    path: connectorPath,
+    to: newName,
+  };
+  if (previousTarget !== undefined) change.from = previousTarget;
+  const changes = [change];
+
+  const path = addNodeToCollection(flow, collection, newNode);
+  const primaryChange = connectPrimary(
+    newNode,
+    collection,
+    path,
+    previousTarget,
+  );
+  if (primaryChange) changes.push(primaryChange);
+
+  return { collection, changes };
+}
+
+/**
+ * Get the path of a node that is known to exist in a FLOW_ARRAY_NODES
+ * collection
+ * @param flow Flow object to search
+ * @param name Name of the node
+ * @returns Path of the node, e.g. `decisions[0]`
+ */
+function findNodePath(flow: Flow, name: string): string {
+  const location = findNodeCollection(flow, name)!;
+  return `${location.collection}[${location.index}]`;
+}
+
+/**
+ * Find a rule, scheduled path or wait event of a node by name
+ * @param node Node to search
+ * @param name Name of the branch
+ * @returns The branch, its connector kind and its path relative to the node, undefined if the
+ * node has no branch with that name
+ */
+function findBranch(
+  node: BaseFlowNodeWithConnector,
+  name: string,
+): { item: Record<string, unknown>; kind: ConnectorKind; path: string } | undefined {
+  for (const [prop, kind] of Object.entries(BRANCH_PROPERTY_KINDS)) {
+    const items = node[prop as keyof typeof BRANCH_PROPERTY_KINDS];
+    if (!Array.isArray(items)) continue;
+    const index = items.findIndex((item) => item.name === name);
+    if (index !== -1) {
+      return {
+        item: items[index] as unknown as Record<string, unknown>,
+        kind,
+        path: `${prop}[${index}]`,
+      };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,420 @@
+/**
+ * In-memory record store for the Flow interpreter
+ *
+ * This module provides a local stand-in for the Salesforce database: records
+ * are kept per object in memory, seeded from JSON fixtures, and the store
+ * supplies the handlers that run the record elements of a Flow (Get, Create,
+ * Update, Delete and Roll Back Records) with runFlow.
+ */
+import type {
+  FlowRecordCreate,
+  FlowRecordDelete,
+  FlowRecordFilter,
+  FlowRecordLookup,
+  FlowRecordUpdate,
+} from "@salesforce/types/metadata";
+import { compareValues, isBlank } from "./formula.ts";
+import {
+  compareCondition,
+  type ElementHandler,
+  evaluateConditionLogic,
+  type ExecutionContext,
+} from "./interpreter.ts";
+
+/**
+ * Fields of a record by name
+ */
+export type RecordData = Record<string, unknown>;
+
+/**
+ * In-memory SObject store providing record element handlers for runFlow
+ * Changes are pending until commit() and can be discarded with rollback(), so
+ * Roll Back Records restores the state of the last commit. Records get fake
+ * 18-character ids that are unique within the store.
+ * @example
+ * const store = RecordStore.fromJSON(Deno.readTextFileSync("accounts.json"));
+ * const result = runFlow(flow, { handlers: store.handlers() });
+ * assertEquals(store.records("Account")[0].Rating, "Hot");
+ */
+export class RecordStore {
+  private data = new Map<string, RecordData[]>();
+  private committed = new Map<string, RecordData[]>();
+  private readonly objects = new Map<string, string>();
+  private nextId = 1;
+
+  /**
+   * Create a store
+   * @param seed Committed records by object name, records without `Id` get one
+   */
+  constructor(seed: Record<string, RecordData[]> = {}) {
+    Object.entries(seed).forEach(([object, records]) =>
+      records.forEach((record) => this.insert(object, record))
+    );
+    this.commit();
+  }
+
+  /**
+   * Create a store from a JSON fixture
+   * @param json Object mapping object names to arrays of records, e.g.
+   * `{ "Account": [{ "Name": "Acme" }] }`
+   * @returns Store with the committed records
+   * @throws Error if the JSON does not map object names to arrays
+   */
+  static fromJSON(json: string): RecordStore {
+    const seed = JSON.parse(json);
+    if (
+      typeof seed !== "object" || seed === null || Array.isArray(seed) ||
+      !Object.values(seed).every(Array.isArray)
+    ) {
+      throw new Error("Record fixture must map object names to arrays");
+    }
+    return new RecordStore(seed);
+  }
+
+  /**
+   * Get copies of the records of an object
+   * @param object Object name, case-insensitive
+   * @returns Records in insertion order
+   */
+  records(object: string): RecordData[] {
+    return (this.data.get(object.toLowerCase()) ?? []).map((record) => ({
+      ...record,
+    }));
+  }
+
+  /**
+   * Insert a record
+   * @param object Object name
+   * @param record Fields of the record, a missing `Id` is generated
+   * @returns Id of the record
+   * @throws Error if a record with the same id exists
+   */
+  insert(object: string, record: RecordData): string {
+    const id = String(getField(record, "Id") ?? this.generateId());
+    if (this.findById(id)) throw new Error(`Duplicate record id: ${id}`);
+    const key = object.toLowerCase();
+    if (!this.objects.has(key)) this.objects.set(key, object);
+    if (!this.data.has(key)) this.data.set(key, []);
+    this.data.get(key)!.push({ ...record, Id: id });
+    return id;
+  }
+
+  /**
+   * Keep the current records as the state restored by rollback()
+   */
+  commit(): void {
+    this.committed = copyData(this.data);
+  }
+
+  /**
+   * Discard all changes since the last commit
+   */
+  rollback(): void {
+    this.data = copyData(this.committed);
+  }
+
+  /**
+   * Serialize the records in the format read by fromJSON
+   * @returns Records by object name
+   */
+  toJSON(): Record<string, RecordData[]> {
+    return Object.fromEntries(
+      [...this.data.keys()].map((key) => [
+        this.objects.get(key) ?? key,
+        this.records(key),
+      ]),
+    );
+  }
+
+  /**
+   * Get the handlers running record elements against this store
+   * @returns Handlers for `recordLookups`, `recordCreates`, `recordUpdates`,
+   * `recordDeletes` and `recordRollbacks`
+   */
+  handlers(): Record<string, ElementHandler> {
+    return {
+      recordLookups: (node, context) =>
+        this.lookup(node as FlowRecordLookup, context),
+      recordCreates: (node, context) =>
+        this.create(node as FlowRecordCreate, context),
+      recordUpdates: (node, context) =>
+        this.update(node as FlowRecordUpdate, context),
+      recordDeletes: (node, context) =>
+        this.delete(node as FlowRecordDelete, context),
+      recordRollbacks: () => this.rollback(),
+    };
+  }
+
+  /**
+   * Run a Get Records element
+   * @param node Record lookup to run
+   * @param context Context of the run
+   */
+  private lookup(node: FlowRecordLookup, context: ExecutionContext): void {
+    const records = this.query(node.object, node, context);
+    if (node.sortField && node.sortOrder) {
+      const field = node.sortField;
+      const direction = node.sortOrder === "Desc" ? -1 : 1;
+      records.sort((a, b) => {
+        const left = getField(a, field);
+        const right = getField(b, field);
+        if (isBlank(left) || isBlank(right)) {
+          return Number(isBlank(left)) - Number(isBlank(right));
+        }
+        return (compareValues(left, right) ?? 0) * direction;
+      });
+    }
+
+    const fields = node.queriedFields ?? [];
+    const results = records.map((record) =>
+      fields.length === 0 ? { ...record } : Object.fromEntries(
+        ["Id", ...fields.filter((field) => field.toLowerCase() !== "id")]
+          .map((field) => [field, getField(record, field) ?? null]),
+      )
+    );
+    const first = isTrue(node.getFirstRecordOnly);
+    const output = first ? results[0] ?? null : results;
+
+    if (node.outputReference) context.set(node.outputReference, output);
+    if (isTrue(node.storeOutputAutomatically)) context.set(node.name!, output);
+    (node.outputAssignments ?? []).forEach((assignment) => {
+      if (records.length > 0) {
+        context.set(
+          assignment.assignToReference,
+          getField(records[0], assignment.field) ?? null,
+        );
+      } else if (isTrue(node.assignNullValuesIfNoRecordsFound)) {
+        context.set(assignment.assignToReference, null);
+      }
+    });
+  }
+
+  /**
+   * Run a Create Records element
+   * Records of `inputReference` get their new `Id` set.
+   * @param node Record create to run
+   * @param context Context of the run
+   */
+  private create(node: FlowRecordCreate, context: ExecutionContext): void {
+    if (node.inputReference) {
+      const object = node.object ??
+        getObjectType(context, node.inputReference);
+      toRecords(context.get(node.inputReference)).forEach((record) => {
+        if (!isBlank(getField(record, "Id"))) {
+          throw new Error(
+            `Record already has an id: ${getField(record, "Id")}`,
+          );
+        }
+        record.Id = this.insert(object, record);
+      });
+      return;
+    }
+
+    if (!node.object) throw new Error("Record element has no object");
+    const id = this.insert(
+      node.object,
+      evaluateAssignments(node.inputAssignments, context),
+    );
+    if (node.assignRecordIdToReference) {
+      context.set(node.assignRecordIdToReference, id);
+    }
+    if (isTrue(node.storeOutputAutomatically)) context.set(node.name!, id);
+  }
+
+  /**
+   * Run an Update Records element
+   * @param node Record update to run
+   * @param context Context of the run
+   */
+  private update(node: FlowRecordUpdate, context: ExecutionContext): void {
+    if (node.inputReference) {
+      toRecords(context.get(node.inputReference)).forEach((record) =>
+        Object.assign(this.getStored(record), record)
+      );
+      return;
+    }
+
+    const fields = evaluateAssignments(node.inputAssignments, context);
+    this.query(node.object, node, context).forEach((record) =>
+      Object.entries(fields).forEach(([field, value]) => {
+        const stored = this.findById(String(record.Id))!;
+        stored[findKey(stored, field)] = value;
+      })
+    );
+  }
+
+  /**
+   * Run a Delete Records element
+   * @param node Record delete to run
+   * @param context Context of the run
+   */
+  private delete(node: FlowRecordDelete, context: ExecutionContext): void {
+    const records = node.inputReference
+      ? toRecords(context.get(node.inputReference)).map((record) =>
+        this.getStored(record)
+      )
+      : this.query(node.object, node, context);
+    const ids = new Set(records.map((record) => String(record.Id)));
+    this.data.forEach((stored, key) =>
+      this.data.set(key, stored.filter((record) => !ids.has(String(record.Id))))
+    );
+  }
+
+  /**
+   * Find copies of the records of an object matching the filters of an element
+   * @param object Object name
+   * @param element Element holding `filters` and `filterLogic`
+   * @param context Context of the run, used to evaluate filter values
+   * @returns Matching records
+   * @throws Error if the object is missing
+   */
+  private query(
+    object: string | undefined,
+    element: { filters?: FlowRecordFilter[]; filterLogic?: string },
+    context: ExecutionContext,
+  ): RecordData[] {
+    if (!object) throw new Error("Record element has no object");
+    const filters = element.filters ?? [];
+    const values = filters.map((filter) => context.evaluate(filter.value));
+    return this.records(object).filter((record) =>
+      evaluateConditionLogic(
+        element.filterLogic,
+        filters.map((filter, index) =>
+          compareCondition(
+            getField(record, filter.field ?? ""),
+            filter.operator ?? "EqualTo",
+            values[index],
+          )
+        ),
+      )
+    );
+  }
+
+  /**
+   * Find a stored record by id
+   * @param id Record id
+   * @returns The stored record, undefined if missing
+   */
+  private findById(id: string): RecordData | undefined {
+    for (const records of this.data.values()) {
+      const record = records.find((candidate) => candidate.Id === id);
+      if (record) return record;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the stored record of a record variable
+   * @param record Record with an `Id`
+   * @returns The stored record
+   * @throws Error if the record has no id or does not exist
+   */
+  private getStored(record: RecordData): RecordData {
+    const id = getField(record, "Id");
+    if (isBlank(id)) throw new Error("Record has no id");
+    const stored = this.findById(String(id));
+    if (!stored) throw new Error(`Record not found: ${id}`);
+    return stored;
+  }
+
+  /**
+   * Generate a new record id
+   * @returns Fake 18-character id
+   */
+  private generateId(): string {
+    return `a00${String(this.nextId++).padStart(15, "0")}`;
+  }
+}
+
+/**
+ * Check whether a parsed boolean is true
+ * @param value Boolean or its XML text
+ * @returns true for `true` and `"true"`
+ */
+function isTrue(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * Get the property name of a record matching a field case-insensitively
+ * @param record Record to read
+ * @param field Field name
+ * @returns The property name used by the record, the given name if missing
+ */
+function findKey(record: RecordData, field: string): string {
+  return Object.keys(record).find((key) =>
+    key.toLowerCase() === field.toLowerCase()
+  ) ?? field;
+}
+
+/**
+ * Get a field of a record case-insensitively
+ * @param record Record to read
+ * @param field Field name
+ * @returns Value of the field
+ */
+function getField(record: RecordData, field: string): unknown {
+  return record[findKey(record, field)];
+}
+
+/**
+ * Get the records of a record or record collection variable
+ * @param value Value of the variable
+ * @returns Records, empty for blank values
+ */
+function toRecords(value: unknown): RecordData[] {
+  if (Array.isArray(value)) return value as RecordData[];
+  return typeof value === "object" && value !== null
+    ? [value as RecordData]
+    : [];
+}
+
+/**
+ * Evaluate the field assignments of a create or update element
+ * @param assignments Field assignments
+ * @param context Context of the run
+ * @returns Field values by name
+ */
+function evaluateAssignments(
+  assignments: FlowRecordCreate["inputAssignments"] | undefined,
+  context: ExecutionContext,
+): RecordData {
+  return Object.fromEntries(
+    (assignments ?? []).map((assignment) => [
+      assignment.field!,
+      context.evaluate(assignment.value),
+    ]),
+  );
+}
+
+/**
+ * Get the object type of the variable a reference points at
+ * @param context Context of the run
+ * @param reference Record or record collection variable
+ * @returns Object type of the variable
+ * @throws Error if the variable has no object type
+ */
+function getObjectType(context: ExecutionContext, reference: string): string {
+  const name = reference.split(".")[0].toLowerCase();
+  const variable = (context.flow.variables ?? []).find((candidate) =>
+    candidate.name?.toLowerCase() === name
+  );
+  if (!variable?.objectType) {
+    throw new Error(`Cannot determine the object of ${reference}`);
+  }
+  return variable.objectType;
+}
+
+/**
+ * Deep copy the records of a store
+ * @param data Records by object key
+ * @returns Copy with copied records
+ */
+function copyData(data: Map<string, RecordData[]>): Map<string, RecordData[]> {
+  return new Map(
+    [...data].map(([key, records]) => [
+      key,
+      records.map((record) => structuredClone(record)),
+    ]),
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Element references within a Flow
+ *
+ * Flow elements refer to each other by name in reference properties such as
+ * `elementReference`, `assignToReference` or connector `targetReference`, and
+ * through `{!Name}` merge fields in formula expressions and free text such as
+ * text templates. This module finds and rewrites all of them.
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import {
+  FORMULA_PROPERTIES,
+  MERGE_FIELD_PROPERTIES,
+  REFERENCE_PROPERTIES,
+  START_NODE_NAME,
+} from "./constants.ts";
+import { parseFormula, rewriteFormulaReferences } from "./formula.ts";
+import type { FlowReference, ReferenceChange, ReferenceRole } from "./types.ts";
+
+/**
+ * Pattern matching merge fields such as `{!recordId}` or `{!$Record.Name}`
+ */
+const MERGE_FIELD_PATTERN = /\{!([^{}]+)\}/g;
+
+/**
+ * String value found while walking a Flow
+ */
+type StringSite = {
+  /** Object or array holding the value */
+  holder: Record<string, unknown> | unknown[];
+  /** Key of the value within the holder */
+  key: string | number;
+  /** Property the value belongs to, the array property for array items */
+  property: string;
+  /** Path of the value within the Flow */
+  path: string;
+  /** Name of the top-level element containing the value */
+  element?: string;
+  /** The value itself */
+  value: string;
+};
+
+/**
+ * Get the element name a reference starts with
+ * @param reference Reference such as `Get_Account.Owner.Name`
+ * @returns Root element name, e.g. `Get_Account`
+ */
+export function getReferenceRoot(reference: string): string {
+  return reference.trim().split(".")[0];
+}
+
+/**
+ * Check whether a reference points at an element or one of its fields
+ * Element names are compared case-insensitively, like Salesforce does.
+ * @param reference Reference such as `Get_Account.Name`
+ * @param name Element name
+ * @returns true if the reference starts with the element name
+ */
+export function referencesElement(reference: string, name: string): boolean {
+  return getReferenceRoot(reference).toLowerCase() === name.toLowerCase();
+}
+
+/**
+ * Find every usage of an element
+ * Looks at reference properties (conditions, assignment items, input and
+ * output assignments, record filters, connectors, ...) and at `{!Name}` merge
+ * fields in formulas, text templates, screen texts and the interview label;
+ * merge fields inside string literals of formulas are not references.
+ * References to fields of the element, e.g. `Get_Account.Name`, are usages of
+ * the element too.
+ * @param flow Flow object to search
+ * @param name Name of the variable, formula, constant, text template or node
+ * @returns Every usage in document order, empty if the element is unused
+ * @example
+ * const writes = findReferences(flow, "recordId")
+ *   .filter((usage) => usage.role === "write");
+ * writes.forEach((usage) => console.log(`${usage.element}: ${usage.path}`));
+ */
+export function findReferences(flow: Flow, name: string): FlowReference[] {
+  const references: FlowReference[] = [];
+
+  walkStrings(flow, (site) => {
+    const add = (reference: string, role: ReferenceRole) => {
+      if (!referencesElement(reference, name)) return;
+      references.push({
+        element: site.element,
+        path: site.path,
+        property: site.property,
+        role,
+        reference,
+      });
+    };
+
+    if (site.property in REFERENCE_PROPERTIES) {
+      add(site.value.trim(), REFERENCE_PROPERTIES[site.property]);
+    } else if (FORMULA_PROPERTIES.includes(site.property)) {
+      parseFormula(site.value).references.forEach((reference) =>
+        add(reference, "read")
+      );
+    } else if (MERGE_FIELD_PROPERTIES.includes(site.property)) {
+      for (const match of site.value.matchAll(MERGE_FIELD_PATTERN)) {
+        add(match[1].trim(), "read");
+      }
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Rewrite every element reference and merge field in a Flow
+ * @param flow Flow object to modify
+ * @param rewrite Function returning the new reference, or undefined to keep it
+ * @returns Every value that was changed
+ * @example
+ * rewriteReferences(flow, (reference) =>
+ *   reference === "oldVar" ? "newVar" : undefined
+ * );
+ */
+export function rewriteReferences(
+  flow: Flow,
+  rewrite: (reference: string) => string | undefined,
+): ReferenceChange[] {
+  const changes: ReferenceChange[] = [];
+
+  walkStrings(flow, (site) => {
+    let updated: string;
+    if (site.property in REFERENCE_PROPERTIES) {
+      updated = rewrite(site.value) ?? site.value;
+    } else if (FORMULA_PROPERTIES.includes(site.property)) {
+      updated = rewriteFormulaReferences(site.value, rewrite);
+    } else if (MERGE_FIELD_PROPERTIES.includes(site.property)) {
+      updated = site.value.replace(
+        MERGE_FIELD_PATTERN,
+        (mergeField, reference: string) => {
+          const replacement = rewrite(reference.trim());
+          return replacement === undefined
+            ? mergeField
+            : mergeField.replace(reference.trim(), replacement);
+        },
+      );
+    } else {
+      return;
+    }
+
+    if (updated !== site.value) {
+      (site.holder as Record<string | number, unknown>)[site.key] = updated;
+      changes.push({
+        element: site.element,
+        path: site.path,
+        from: site.value,
+        to: updated,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Call a visitor for every string value in a Flow
+ * @param flow Flow object to walk
+ * @param visit Visitor called with every string value and its location
+ */
+function walkStrings(flow: Flow, visit: (site: StringSite) => void): void {
+  const walk = (
+    value: unknown,
+    holder: StringSite["holder"],
+    key: string | number,
+    property: string,
+    path: string,
+    element?: string,
+  ): void => {
+    if (typeof value === "string") {
+      visit({ holder, key, property, path, element, value });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) =>
+        walk(item, value, index, property, `${path}[${index}]`, element)
+      );
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([childKey, child]) =>
+        walk(
+          child,
+          value as Record<string, unknown>,
+          childKey,
+          childKey,
+          `${path}.${childKey}`,
+          element,
+        )
+      );
+    }
+  };
+
+  Object.entries(flow).forEach(([prop, value]) => {
+    const root = flow as unknown as Record<string, unknown>;
+    if (prop === "start") {
+      walk(value, root, prop, prop, prop, START_NODE_NAME);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) =>
+        walk(
+          item,
+          value,
+          index,
+          prop,
+          `${prop}[${index}]`,
+          (item as { name?: string })?.name,
+        )
+      );
+    } else {
+      walk(value, root, prop, prop, prop);
+    }
+  });
+}
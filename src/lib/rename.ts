@@ -0,0 +1,96 @@
+/**
+ * Renaming Flow elements
+ *
+ * This module renames nodes and resources (variables, formulas, constants,
+ * text templates, ...) and rewrites every reference to them.
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import { FLOW_ELEMENT_PROPERTIES } from "./constants.ts";
+import { isElementNameTaken } from "./nodes.ts";
+import { getReferenceRoot, rewriteReferences } from "./references.ts";
+import type { ReferenceChange } from "./types.ts";
+
+/**
+ * Pattern for valid element API names: starts with a letter, contains only
+ * letters, digits and single underscores and does not end with an underscore
+ */
+const ELEMENT_NAME_PATTERN = /^[A-Za-z](?:[A-Za-z0-9]|_(?!_))*(?<!_)$/;
+
+/**
+ * Result of renameElement
+ */
+export interface RenameElementResult {
+  /** Flow property holding the renamed element, e.g. `variables` */
+  collection: string;
+  /** Every reference that was rewritten */
+  changes: ReferenceChange[];
+}
+
+/**
+ * Rename a node or resource and rewrite every reference to it
+ * Rewrites connector targets, reference properties such as
+ * `elementReference`, `leftValueReference`, `assignToReference` and
+ * `collectionReference` (including field references like `Get_Account.Name`)
+ * and `{!Name}` merge fields in formulas, text templates, screen texts and
+ * the interview label. The Flow is left untouched if the rename is not possible.
+ * @param flow Flow object to modify
+ * @param oldName Current name of the element
+ * @param newName New name of the element
+ * @returns Collection of the element and all rewritten references
+ * @throws Error if the element does not exist, the new name is invalid or
+ * already used by another element
+ * @example
+ * const { changes } = renameElement(flow, "varTotal", "totalAmount");
+ * changes.forEach((change) => console.log(`${change.path}: ${change.to}`));
+ */
+export function renameElement(
+  flow: Flow,
+  oldName: string,
+  newName: string,
+): RenameElementResult {
+  const found = findElement(flow, oldName);
+  if (!found) {
+    throw new Error(`Element not found: ${oldName}`);
+  }
+  if (!ELEMENT_NAME_PATTERN.test(newName)) {
+    throw new Error(`Invalid element name: ${newName}`);
+  }
+  if (
+    newName.toLowerCase() !== oldName.toLowerCase() &&
+    isElementNameTaken(flow, newName)
+  ) {
+    throw new Error(`Element name already in use: ${newName}`);
+  }
+
+  const changes = rewriteReferences(flow, (reference) => {
+    const root = getReferenceRoot(reference);
+    return root.toLowerCase() === oldName.toLowerCase()
+      ? newName + reference.trim().slice(root.length)
+      : undefined;
+  });
+  found.element.name = newName;
+
+  return { collection: found.collection, changes };
+}
+
+/**
+ * Find an element by name across all Flow element properties
+ * @param flow Flow object to search
+ * @param name Name of the element, compared case-insensitively
+ * @returns The element and its collection, undefined if not found
+ */
+function findElement(
+  flow: Flow,
+  name: string,
+): { element: { name: string }; collection: string } | undefined {
+  const lowerName = name.toLowerCase();
+  for (const collection of FLOW_ELEMENT_PROPERTIES) {
+    const elements = flow[collection as keyof Flow];
+    if (!Array.isArray(elements)) continue;
+    const element = (elements as { name: string }[]).find((item) =>
+      item?.name?.toLowerCase() === lowerName
+    );
+    if (element) return { element, collection };
+  }
+  return undefined;
+}
@@ -0,0 +1,133 @@
+/**
+ * Flow resource maintenance
+ *
+ * This module finds and removes resources (variables, formulas, constants,
+ * text templates and choices) that are not used anywhere in a Flow.
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import { RESOURCE_PROPERTIES } from "./constants.ts";
+import { findReferences } from "./references.ts";
+
+/**
+ * Resource that is not used by any element of a Flow
+ */
+export interface UnusedResource {
+  /** Name of the resource */
+  name: string;
+  /** Flow property holding the resource, e.g. `variables` */
+  collection: string;
+  /** Path of the resource within the Flow, e.g. `variables[2]` */
+  path: string;
+}
+
+/**
+ * Find resources that are not used anywhere in a Flow
+ * A resource counts as used when any other element reads or writes it.
+ * Usages by resources that are unused themselves do not count, so a text
+ * template only referenced by an unused formula is reported as well. Input and
+ * output variables are visible outside the Flow and never reported.
+ * @param flow Flow object to check
+ * @returns Unused resources in the order of RESOURCE_PROPERTIES
+ * @example
+ * findUnusedResources(flow).forEach(({ name, path }) =>
+ *   console.log(`${path}: ${name} is never used`)
+ * );
+ */
+export function findUnusedResources(flow: Flow): UnusedResource[] {
+  const candidates = getResources(flow).filter(
+    ({ resource }) => !isExternallyVisible(resource),
+  );
+  const unused = new Set<string>();
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    candidates.forEach(({ resource }) => {
+      const name = resource.name.toLowerCase();
+      if (unused.has(name)) return;
+      const used = findReferences(flow, resource.name).some(({ element }) =>
+        !element ||
+        (!unused.has(element.toLowerCase()) && element.toLowerCase() !== name)
+      );
+      if (!used) {
+        unused.add(name);
+        changed = true;
+      }
+    });
+  }
+
+  return candidates
+    .filter(({ resource }) => unused.has(resource.name.toLowerCase()))
+    .map(({ resource, collection, path }) => ({
+      name: resource.name,
+      collection,
+      path,
+    }));
+}
+
+/**
+ * Remove all resources reported by findUnusedResources from a Flow
+ * @param flow Flow object to modify
+ * @returns The removed resources, paths refer to the Flow before removal
+ * @example
+ * const removed = pruneUnusedResources(flow);
+ * console.log(`Removed ${removed.length} unused resources`);
+ * stringifyToFile(flow, "path/to/flow.xml");
+ */
+export function pruneUnusedResources(flow: Flow): UnusedResource[] {
+  const unused = findUnusedResources(flow);
+
+  RESOURCE_PROPERTIES.forEach((collection) => {
+    const names = unused
+      .filter((resource) => resource.collection === collection)
+      .map((resource) => resource.name);
+    if (names.length === 0) return;
+    const resources = flow[collection as keyof Flow] as { name: string }[];
+    (flow as unknown as Record<string, unknown>)[collection] = resources.filter(
+      (resource) => !names.includes(resource.name),
+    );
+  });
+
+  return unused;
+}
+
+/**
+ * Check whether a variable is available outside the Flow
+ * Parsed values are strings, so both `true` and `"true"` are accepted.
+ * @param resource Resource to check
+ * @returns true for input and output variables
+ */
+function isExternallyVisible(
+  resource: { isInput?: boolean | string; isOutput?: boolean | string },
+): boolean {
+  return [resource.isInput, resource.isOutput].some((flag) =>
+    flag === true || flag === "true"
+  );
+}
+
+/**
+ * Get all named resources of a Flow
+ * @param flow Flow object to read
+ * @returns Resources with their collection and path
+ */
+function getResources(flow: Flow): {
+  resource: {
+    name: string;
+    isInput?: boolean | string;
+    isOutput?: boolean | string;
+  };
+  collection: string;
+  path: string;
+}[] {
+  return RESOURCE_PROPERTIES.flatMap((collection) => {
+    const resources = flow[collection as keyof Flow];
+    if (!Array.isArray(resources)) return [];
+    return (resources as { name: string }[])
+      .map((resource, index) => ({
+        resource,
+        collection,
+        path: `${collection}[${index}]`,
+      }))
+      .filter(({ resource }) => resource?.name);
+  });
+}
@@ -0,0 +1,1026 @@
+// This file is generated by scripts/generate_schema.ts, do not edit it.
+
+/**
+ * Flow metadata schema
+ *
+ * Properties of every type reachable from `Flow` in the order the Metadata
+ * API serializes them, with their type: `string`, `number`, `double`,
+ * `boolean`, `date`, `datetime`, `time` or the name of another type of the
+ * schema.
+ */
+import type { FlowTypeSchema } from "./types.ts";
+
+/**
+ * Schema of the Flow metadata types by type name
+ */
+export const FLOW_SCHEMA: Record<string, FlowTypeSchema> = {
+  Flow: {
+    fullName: { type: "string" },
+    module: { type: "string" },
+    actionCalls: { type: "FlowActionCall", array: true },
+    apexPluginCalls: { type: "FlowApexPluginCall", array: true },
+    apiVersion: { type: "double" },
+    assignments: { type: "FlowAssignment", array: true },
+    choices: { type: "FlowChoice", array: true },
+    collectionProcessors: { type: "FlowCollectionProcessor", array: true },
+    constants: { type: "FlowConstant", array: true },
+    customErrors: { type: "FlowCustomError", array: true },
+    decisions: { type: "FlowDecision", array: true },
+    description: { type: "string" },
+    dynamicChoiceSets: { type: "FlowDynamicChoiceSet", array: true },
+    environments: { type: "string", array: true },
+    formulas: { type: "FlowFormula", array: true },
+    interviewLabel: { type: "string" },
+    isAdditionalPermissionRequiredToRun: { type: "boolean" },
+    isOverridable: { type: "boolean" },
+    isTemplate: { type: "boolean" },
+    label: { type: "string" },
+    loops: { type: "FlowLoop", array: true },
+    migratedFromWorkflowRuleName: { type: "string" },
+    orchestratedStages: { type: "FlowOrchestratedStage", array: true },
+    overriddenFlow: { type: "string" },
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    processType: { type: "string" },
+    recordCreates: { type: "FlowRecordCreate", array: true },
+    recordDeletes: { type: "FlowRecordDelete", array: true },
+    recordLookups: { type: "FlowRecordLookup", array: true },
+    recordRollbacks: { type: "FlowRecordRollback", array: true },
+    recordUpdates: { type: "FlowRecordUpdate", array: true },
+    runInMode: { type: "string" },
+    screens: { type: "FlowScreen", array: true },
+    sourceTemplate: { type: "string" },
+    stages: { type: "FlowStage", array: true },
+    start: { type: "FlowStart" },
+    startElementReference: { type: "string" },
+    status: { type: "string" },
+    steps: { type: "FlowStep", array: true },
+    subflows: { type: "FlowSubflow", array: true },
+    textTemplates: { type: "FlowTextTemplate", array: true },
+    timeZoneSidKey: { type: "string" },
+    transforms: { type: "FlowTransform", array: true },
+    triggerOrder: { type: "number" },
+    variables: { type: "FlowVariable", array: true },
+    waits: { type: "FlowWait", array: true },
+  },
+  FlowActionCall: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    actionName: { type: "string" },
+    actionType: { type: "string" },
+    connector: { type: "FlowConnector" },
+    dataTypeMappings: { type: "FlowDataTypeMapping", array: true },
+    faultConnector: { type: "FlowConnector" },
+    flowTransactionModel: { type: "string" },
+    inputParameters: { type: "FlowActionCallInputParameter", array: true },
+    nameSegment: { type: "string" },
+    outputParameters: { type: "FlowActionCallOutputParameter", array: true },
+    storeOutputAutomatically: { type: "boolean" },
+    versionSegment: { type: "number" },
+  },
+  FlowActionCallInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowActionCallOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowApexPluginCall: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    apexClass: { type: "string" },
+    connector: { type: "FlowConnector" },
+    faultConnector: { type: "FlowConnector" },
+    inputParameters: { type: "FlowApexPluginCallInputParameter", array: true },
+    outputParameters: {
+      type: "FlowApexPluginCallOutputParameter",
+      array: true,
+    },
+  },
+  FlowApexPluginCallInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowApexPluginCallOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowAssignment: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    assignmentItems: { type: "FlowAssignmentItem", array: true },
+    connector: { type: "FlowConnector" },
+  },
+  FlowAssignmentItem: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    operator: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowCapability: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    capabilityName: { type: "string" },
+    inputs: { type: "FlowCapabilityInput", array: true },
+  },
+  FlowCapabilityInput: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    capabilityInputName: { type: "string" },
+    dataType: { type: "string" },
+    isCollection: { type: "boolean" },
+  },
+  FlowChoice: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    choiceText: { type: "string" },
+    dataType: { type: "string" },
+    userInput: { type: "FlowChoiceUserInput" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowChoiceUserInput: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    isRequired: { type: "boolean" },
+    promptText: { type: "string" },
+    validationRule: { type: "FlowInputValidationRule" },
+  },
+  FlowCollectionMapItem: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToFieldReference: { type: "string" },
+    operator: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowCollectionProcessor: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    assignNextValueToReference: { type: "string" },
+    collectionProcessorType: { type: "string" },
+    collectionReference: { type: "string" },
+    conditionLogic: { type: "string" },
+    conditions: { type: "FlowCondition", array: true },
+    connector: { type: "FlowConnector" },
+    formula: { type: "string" },
+    limit: { type: "number" },
+    mapItems: { type: "FlowCollectionMapItem", array: true },
+    outputSObjectType: { type: "string" },
+    sortOptions: { type: "FlowCollectionSortOption", array: true },
+  },
+  FlowCollectionSortOption: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    doesPutEmptyStringAndNullFirst: { type: "boolean" },
+    sortField: { type: "string" },
+    sortOrder: { type: "string" },
+  },
+  FlowCondition: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    conditionType: { type: "string" },
+    leftValueReference: { type: "string" },
+    operator: { type: "string" },
+    rightValue: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowConnector: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    isGoTo: { type: "boolean" },
+    targetReference: { type: "string" },
+  },
+  FlowConstant: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    dataType: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowCustomError: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connector: { type: "FlowConnector" },
+    customErrorMessages: { type: "FlowCustomErrorMessage", array: true },
+  },
+  FlowCustomErrorMessage: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    errorMessage: { type: "string" },
+    fieldSelection: { type: "string" },
+    isFieldError: { type: "boolean" },
+  },
+  FlowDataTypeMapping: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    typeName: { type: "string" },
+    typeValue: { type: "string" },
+  },
+  FlowDecision: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    defaultConnector: { type: "FlowConnector" },
+    defaultConnectorLabel: { type: "string" },
+    rules: { type: "FlowRule", array: true },
+  },
+  FlowDynamicChoiceSet: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    collectionReference: { type: "string" },
+    dataType: { type: "string" },
+    displayField: { type: "string" },
+    filterLogic: { type: "string" },
+    filters: { type: "FlowRecordFilter", array: true },
+    limit: { type: "number" },
+    object: { type: "string" },
+    outputAssignments: { type: "FlowOutputFieldAssignment", array: true },
+    picklistField: { type: "string" },
+    picklistObject: { type: "string" },
+    sortField: { type: "string" },
+    sortOrder: { type: "string" },
+    valueField: { type: "string" },
+  },
+  FlowElementReferenceOrValue: {
+    apexValue: { type: "string" },
+    booleanValue: { type: "boolean" },
+    dateTimeValue: { type: "datetime" },
+    dateValue: { type: "date" },
+    elementReference: { type: "string" },
+    formulaDataType: { type: "string" },
+    formulaExpression: { type: "string" },
+    numberValue: { type: "double" },
+    setupReference: { type: "string" },
+    setupReferenceType: { type: "string" },
+    sobjectValue: { type: "string" },
+    stringValue: { type: "string" },
+  },
+  FlowFormula: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    dataType: { type: "string" },
+    expression: { type: "string" },
+    scale: { type: "number" },
+  },
+  FlowInputFieldAssignment: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    field: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowInputValidationRule: {
+    errorMessage: { type: "string" },
+    formulaExpression: { type: "string" },
+  },
+  FlowLoop: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    assignNextValueToReference: { type: "string" },
+    collectionReference: { type: "string" },
+    iterationOrder: { type: "string" },
+    nextValueConnector: { type: "FlowConnector" },
+    noMoreValuesConnector: { type: "FlowConnector" },
+  },
+  FlowMetadataValue: {
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowOrchestratedStage: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connector: { type: "FlowConnector" },
+    exitActionInputParameters: {
+      type: "FlowStageStepExitActionInputParameter",
+      array: true,
+    },
+    exitActionName: { type: "string" },
+    exitActionOutputParameters: {
+      type: "FlowStageStepExitActionOutputParameter",
+      array: true,
+    },
+    exitActionType: { type: "string" },
+    exitConditionLogic: { type: "string" },
+    exitConditions: { type: "FlowCondition", array: true },
+    faultConnector: { type: "FlowConnector" },
+    stageSteps: { type: "FlowStageStep", array: true },
+  },
+  FlowOutputFieldAssignment: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    field: { type: "string" },
+  },
+  FlowRecordCreate: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    assignRecordIdToReference: { type: "string" },
+    connector: { type: "FlowConnector" },
+    faultConnector: { type: "FlowConnector" },
+    inputAssignments: { type: "FlowInputFieldAssignment", array: true },
+    inputReference: { type: "string" },
+    object: { type: "string" },
+    storeOutputAutomatically: { type: "boolean" },
+  },
+  FlowRecordDelete: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connector: { type: "FlowConnector" },
+    faultConnector: { type: "FlowConnector" },
+    filterLogic: { type: "string" },
+    filters: { type: "FlowRecordFilter", array: true },
+    inputReference: { type: "string" },
+    object: { type: "string" },
+  },
+  FlowRecordFilter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    field: { type: "string" },
+    operator: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowRecordLookup: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    assignNullValuesIfNoRecordsFound: { type: "boolean" },
+    connector: { type: "FlowConnector" },
+    faultConnector: { type: "FlowConnector" },
+    filterLogic: { type: "string" },
+    filters: { type: "FlowRecordFilter", array: true },
+    getFirstRecordOnly: { type: "boolean" },
+    object: { type: "string" },
+    outputAssignments: { type: "FlowOutputFieldAssignment", array: true },
+    outputReference: { type: "string" },
+    queriedFields: { type: "string", array: true },
+    sortField: { type: "string" },
+    sortOrder: { type: "string" },
+    storeOutputAutomatically: { type: "boolean" },
+  },
+  FlowRecordRollback: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connector: { type: "FlowConnector" },
+  },
+  FlowRecordUpdate: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connector: { type: "FlowConnector" },
+    faultConnector: { type: "FlowConnector" },
+    filterLogic: { type: "string" },
+    filters: { type: "FlowRecordFilter", array: true },
+    inputAssignments: { type: "FlowInputFieldAssignment", array: true },
+    inputReference: { type: "string" },
+    object: { type: "string" },
+  },
+  FlowRule: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    conditionLogic: { type: "string" },
+    conditions: { type: "FlowCondition", array: true },
+    connector: { type: "FlowConnector" },
+    doesRequireRecordChangedToMeetCriteria: { type: "boolean" },
+    label: { type: "string" },
+  },
+  FlowSchedule: {
+    frequency: { type: "string" },
+    startDate: { type: "date" },
+    startTime: { type: "time" },
+  },
+  FlowScheduledPath: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    connector: { type: "FlowConnector" },
+    label: { type: "string" },
+    maxBatchSize: { type: "number" },
+    offsetNumber: { type: "number" },
+    offsetUnit: { type: "string" },
+    pathType: { type: "string" },
+    recordField: { type: "string" },
+    timeSource: { type: "string" },
+  },
+  FlowScreen: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    actions: { type: "FlowScreenAction", array: true },
+    allowBack: { type: "boolean" },
+    allowFinish: { type: "boolean" },
+    allowPause: { type: "boolean" },
+    backButtonLabel: { type: "string" },
+    connector: { type: "FlowConnector" },
+    fields: { type: "FlowScreenField", array: true },
+    helpText: { type: "string" },
+    nextOrFinishButtonLabel: { type: "string" },
+    pauseButtonLabel: { type: "string" },
+    pausedText: { type: "string" },
+    rules: { type: "FlowScreenRule", array: true },
+    showFooter: { type: "boolean" },
+    showHeader: { type: "boolean" },
+    triggers: { type: "FlowScreenTrigger", array: true },
+  },
+  FlowScreenAction: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    actionName: { type: "string" },
+    actionType: { type: "string" },
+    inputParameters: { type: "FlowScreenActionInputParameter", array: true },
+    label: { type: "string" },
+    nameSegment: { type: "string" },
+    versionSegment: { type: "number" },
+  },
+  FlowScreenActionInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowScreenField: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    choiceReferences: { type: "string", array: true },
+    dataType: { type: "string" },
+    dataTypeMappings: { type: "FlowDataTypeMapping", array: true },
+    defaultSelectedChoiceReference: { type: "string" },
+    defaultValue: { type: "FlowElementReferenceOrValue" },
+    extensionName: { type: "string" },
+    fieldText: { type: "string" },
+    fieldType: { type: "string" },
+    fields: { type: "FlowScreenField", array: true },
+    helpText: { type: "string" },
+    inputParameters: { type: "FlowScreenFieldInputParameter", array: true },
+    inputsOnNextNavToAssocScrn: { type: "string" },
+    isRequired: { type: "boolean" },
+    isVisible: { type: "boolean" },
+    objectFieldReference: { type: "string" },
+    outputParameters: { type: "FlowScreenFieldOutputParameter", array: true },
+    regionContainerType: { type: "string" },
+    scale: { type: "number" },
+    storeOutputAutomatically: { type: "boolean" },
+    validationRule: { type: "FlowInputValidationRule" },
+    visibilityRule: { type: "FlowVisibilityRule" },
+  },
+  FlowScreenFieldInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowScreenFieldOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowScreenRule: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    conditionLogic: { type: "string" },
+    conditions: { type: "FlowCondition", array: true },
+    label: { type: "string" },
+    ruleActions: { type: "FlowScreenRuleAction", array: true },
+  },
+  FlowScreenRuleAction: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    attribute: { type: "string" },
+    fieldReference: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowScreenTrigger: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    eventName: { type: "string" },
+    eventSource: { type: "string" },
+    handlers: { type: "FlowScreenTriggerHandler", array: true },
+  },
+  FlowScreenTriggerHandler: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    screenActionName: { type: "string" },
+  },
+  FlowStage: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    isActive: { type: "boolean" },
+    label: { type: "string" },
+    stageOrder: { type: "number" },
+  },
+  FlowStageStep: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    actionName: { type: "string" },
+    actionType: { type: "string" },
+    assignees: { type: "FlowStageStepAssignee", array: true },
+    entryActionInputParameters: {
+      type: "FlowStageStepEntryActionInputParameter",
+      array: true,
+    },
+    entryActionName: { type: "string" },
+    entryActionOutputParameters: {
+      type: "FlowStageStepEntryActionOutputParameter",
+      array: true,
+    },
+    entryActionType: { type: "string" },
+    entryConditionLogic: { type: "string" },
+    entryConditions: { type: "FlowCondition", array: true },
+    exitActionInputParameters: {
+      type: "FlowStageStepExitActionInputParameter",
+      array: true,
+    },
+    exitActionName: { type: "string" },
+    exitActionOutputParameters: {
+      type: "FlowStageStepExitActionOutputParameter",
+      array: true,
+    },
+    exitActionType: { type: "string" },
+    exitConditionLogic: { type: "string" },
+    exitConditions: { type: "FlowCondition", array: true },
+    inputParameters: { type: "FlowStageStepInputParameter", array: true },
+    label: { type: "string" },
+    outputParameters: { type: "FlowStageStepOutputParameter", array: true },
+    requiresAsyncProcessing: { type: "boolean" },
+    runAsUser: { type: "boolean" },
+    stepSubtype: { type: "string" },
+  },
+  FlowStageStepAssignee: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignee: { type: "FlowElementReferenceOrValue" },
+    assigneeType: { type: "string" },
+  },
+  FlowStageStepEntryActionInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowStageStepEntryActionOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowStageStepExitActionInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowStageStepExitActionOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowStageStepInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowStageStepOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowStart: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    capabilityTypes: { type: "FlowCapability", array: true },
+    connector: { type: "FlowConnector" },
+    doesRequireRecordChangedToMeetCriteria: { type: "boolean" },
+    entryType: { type: "string" },
+    filterFormula: { type: "string" },
+    filterLogic: { type: "string" },
+    filters: { type: "FlowRecordFilter", array: true },
+    flowRunAsUser: { type: "string" },
+    form: { type: "string" },
+    object: { type: "string" },
+    objectContainer: { type: "string" },
+    publishSegment: { type: "boolean" },
+    recordTriggerType: { type: "string" },
+    schedule: { type: "FlowSchedule" },
+    scheduledPaths: { type: "FlowScheduledPath", array: true },
+    segment: { type: "string" },
+    triggerType: { type: "string" },
+  },
+  FlowStep: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connectors: { type: "FlowConnector", array: true },
+  },
+  FlowSubflow: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    connector: { type: "FlowConnector" },
+    flowName: { type: "string" },
+    inputAssignments: { type: "FlowSubflowInputAssignment", array: true },
+    outputAssignments: { type: "FlowSubflowOutputAssignment", array: true },
+    storeOutputAutomatically: { type: "boolean" },
+  },
+  FlowSubflowInputAssignment: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowSubflowOutputAssignment: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+  FlowTextTemplate: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    isViewedAsPlainText: { type: "boolean" },
+    text: { type: "string" },
+  },
+  FlowTransform: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    apexClass: { type: "string" },
+    connector: { type: "FlowConnector" },
+    dataType: { type: "string" },
+    isCollection: { type: "boolean" },
+    objectType: { type: "string" },
+    scale: { type: "number" },
+    transformValues: { type: "FlowTransformValue", array: true },
+  },
+  FlowTransformValue: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    transformValueActions: { type: "FlowTransformValueAction", array: true },
+  },
+  FlowTransformValueAction: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    inputParameters: {
+      type: "FlowTransformValueActionInputParameter",
+      array: true,
+    },
+    name: { type: "string" },
+    outputFieldApiName: { type: "string" },
+    transformType: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowTransformValueActionInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowVariable: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    apexClass: { type: "string" },
+    dataType: { type: "string" },
+    isCollection: { type: "boolean" },
+    isInput: { type: "boolean" },
+    isOutput: { type: "boolean" },
+    objectType: { type: "string" },
+    scale: { type: "number" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowVisibilityRule: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    conditionLogic: { type: "string" },
+    conditions: { type: "FlowCondition", array: true },
+  },
+  FlowWait: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    elementSubtype: { type: "string" },
+    label: { type: "string" },
+    locationX: { type: "number" },
+    locationY: { type: "number" },
+    defaultConnector: { type: "FlowConnector" },
+    defaultConnectorLabel: { type: "string" },
+    faultConnector: { type: "FlowConnector" },
+    timeZoneId: { type: "string" },
+    waitEvents: { type: "FlowWaitEvent", array: true },
+  },
+  FlowWaitEvent: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    description: { type: "string" },
+    name: { type: "string" },
+    associatedElement: { type: "string" },
+    conditionLogic: { type: "string" },
+    conditions: { type: "FlowCondition", array: true },
+    connector: { type: "FlowConnector" },
+    eventType: { type: "string" },
+    filterLogic: { type: "string" },
+    filters: { type: "FlowRecordFilter", array: true },
+    inputParameters: { type: "FlowWaitEventInputParameter", array: true },
+    label: { type: "string" },
+    maxBatchSize: { type: "number" },
+    object: { type: "string" },
+    offset: { type: "number" },
+    offsetUnit: { type: "string" },
+    outputParameters: { type: "FlowWaitEventOutputParameter", array: true },
+    recordTriggerType: { type: "string" },
+    resumeDate: { type: "date" },
+    resumeDateReference: { type: "string" },
+    resumeTime: { type: "time" },
+  },
+  FlowWaitEventInputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    name: { type: "string" },
+    value: { type: "FlowElementReferenceOrValue" },
+  },
+  FlowWaitEventOutputParameter: {
+    processMetadataValues: { type: "FlowMetadataValue", array: true },
+    assignToReference: { type: "string" },
+    name: { type: "string" },
+  },
+};
+
+/**
+ * Path of every array property below Flow, e.g. `decisions.rules.conditions`
+ * Recursive types are followed once, e.g. `screens.fields.fields`.
+ */
+export const FLOW_ARRAY_PATHS: string[] = [
+  "actionCalls",
+  "actionCalls.connector.processMetadataValues",
+  "actionCalls.dataTypeMappings",
+  "actionCalls.dataTypeMappings.processMetadataValues",
+  "actionCalls.faultConnector.processMetadataValues",
+  "actionCalls.inputParameters",
+  "actionCalls.inputParameters.processMetadataValues",
+  "actionCalls.outputParameters",
+  "actionCalls.outputParameters.processMetadataValues",
+  "actionCalls.processMetadataValues",
+  "apexPluginCalls",
+  "apexPluginCalls.connector.processMetadataValues",
+  "apexPluginCalls.faultConnector.processMetadataValues",
+  "apexPluginCalls.inputParameters",
+  "apexPluginCalls.inputParameters.processMetadataValues",
+  "apexPluginCalls.outputParameters",
+  "apexPluginCalls.outputParameters.processMetadataValues",
+  "apexPluginCalls.processMetadataValues",
+  "assignments",
+  "assignments.assignmentItems",
+  "assignments.assignmentItems.processMetadataValues",
+  "assignments.connector.processMetadataValues",
+  "assignments.processMetadataValues",
+  "choices",
+  "choices.processMetadataValues",
+  "choices.userInput.processMetadataValues",
+  "collectionProcessors",
+  "collectionProcessors.conditions",
+  "collectionProcessors.conditions.processMetadataValues",
+  "collectionProcessors.connector.processMetadataValues",
+  "collectionProcessors.mapItems",
+  "collectionProcessors.mapItems.processMetadataValues",
+  "collectionProcessors.processMetadataValues",
+  "collectionProcessors.sortOptions",
+  "collectionProcessors.sortOptions.processMetadataValues",
+  "constants",
+  "constants.processMetadataValues",
+  "customErrors",
+  "customErrors.connector.processMetadataValues",
+  "customErrors.customErrorMessages",
+  "customErrors.customErrorMessages.processMetadataValues",
+  "customErrors.processMetadataValues",
+  "decisions",
+  "decisions.defaultConnector.processMetadataValues",
+  "decisions.processMetadataValues",
+  "decisions.rules",
+  "decisions.rules.conditions",
+  "decisions.rules.conditions.processMetadataValues",
+  "decisions.rules.connector.processMetadataValues",
+  "decisions.rules.processMetadataValues",
+  "dynamicChoiceSets",
+  "dynamicChoiceSets.filters",
+  "dynamicChoiceSets.filters.processMetadataValues",
+  "dynamicChoiceSets.outputAssignments",
+  "dynamicChoiceSets.outputAssignments.processMetadataValues",
+  "dynamicChoiceSets.processMetadataValues",
+  "environments",
+  "formulas",
+  "formulas.processMetadataValues",
+  "loops",
+  "loops.nextValueConnector.processMetadataValues",
+  "loops.noMoreValuesConnector.processMetadataValues",
+  "loops.processMetadataValues",
+  "orchestratedStages",
+  "orchestratedStages.connector.processMetadataValues",
+  "orchestratedStages.exitActionInputParameters",
+  "orchestratedStages.exitActionInputParameters.processMetadataValues",
+  "orchestratedStages.exitActionOutputParameters",
+  "orchestratedStages.exitActionOutputParameters.processMetadataValues",
+  "orchestratedStages.exitConditions",
+  "orchestratedStages.exitConditions.processMetadataValues",
+  "orchestratedStages.faultConnector.processMetadataValues",
+  "orchestratedStages.processMetadataValues",
+  "orchestratedStages.stageSteps",
+  "orchestratedStages.stageSteps.assignees",
+  "orchestratedStages.stageSteps.assignees.processMetadataValues",
+  "orchestratedStages.stageSteps.entryActionInputParameters",
+  "orchestratedStages.stageSteps.entryActionInputParameters.processMetadataValues",
+  "orchestratedStages.stageSteps.entryActionOutputParameters",
+  "orchestratedStages.stageSteps.entryActionOutputParameters.processMetadataValues",
+  "orchestratedStages.stageSteps.entryConditions",
+  "orchestratedStages.stageSteps.entryConditions.processMetadataValues",
+  "orchestratedStages.stageSteps.exitActionInputParameters",
+  "orchestratedStages.stageSteps.exitActionInputParameters.processMetadataValues",
+  "orchestratedStages.stageSteps.exitActionOutputParameters",
+  "orchestratedStages.stageSteps.exitActionOutputParameters.processMetadataValues",
+  "orchestratedStages.stageSteps.exitConditions",
+  "orchestratedStages.stageSteps.exitConditions.processMetadataValues",
+  "orchestratedStages.stageSteps.inputParameters",
+  "orchestratedStages.stageSteps.inputParameters.processMetadataValues",
+  "orchestratedStages.stageSteps.outputParameters",
+  "orchestratedStages.stageSteps.outputParameters.processMetadataValues",
+  "orchestratedStages.stageSteps.processMetadataValues",
+  "processMetadataValues",
+  "recordCreates",
+  "recordCreates.connector.processMetadataValues",
+  "recordCreates.faultConnector.processMetadataValues",
+  "recordCreates.inputAssignments",
+  "recordCreates.inputAssignments.processMetadataValues",
+  "recordCreates.processMetadataValues",
+  "recordDeletes",
+  "recordDeletes.connector.processMetadataValues",
+  "recordDeletes.faultConnector.processMetadataValues",
+  "recordDeletes.filters",
+  "recordDeletes.filters.processMetadataValues",
+  "recordDeletes.processMetadataValues",
+  "recordLookups",
+  "recordLookups.connector.processMetadataValues",
+  "recordLookups.faultConnector.processMetadataValues",
+  "recordLookups.filters",
+  "recordLookups.filters.processMetadataValues",
+  "recordLookups.outputAssignments",
+  "recordLookups.outputAssignments.processMetadataValues",
+  "recordLookups.processMetadataValues",
+  "recordLookups.queriedFields",
+  "recordRollbacks",
+  "recordRollbacks.connector.processMetadataValues",
+  "recordRollbacks.processMetadataValues",
+  "recordUpdates",
+  "recordUpdates.connector.processMetadataValues",
+  "recordUpdates.faultConnector.processMetadataValues",
+  "recordUpdates.filters",
+  "recordUpdates.filters.processMetadataValues",
+  "recordUpdates.inputAssignments",
+  "recordUpdates.inputAssignments.processMetadataValues",
+  "recordUpdates.processMetadataValues",
+  "screens",
+  "screens.actions",
+  "screens.actions.inputParameters",
+  "screens.actions.inputParameters.processMetadataValues",
+  "screens.actions.processMetadataValues",
+  "screens.connector.processMetadataValues",
+  "screens.fields",
+  "screens.fields.choiceReferences",
+  "screens.fields.dataTypeMappings",
+  "screens.fields.dataTypeMappings.processMetadataValues",
+  "screens.fields.fields",
+  "screens.fields.inputParameters",
+  "screens.fields.inputParameters.processMetadataValues",
+  "screens.fields.outputParameters",
+  "screens.fields.outputParameters.processMetadataValues",
+  "screens.fields.processMetadataValues",
+  "screens.fields.visibilityRule.conditions",
+  "screens.fields.visibilityRule.conditions.processMetadataValues",
+  "screens.fields.visibilityRule.processMetadataValues",
+  "screens.processMetadataValues",
+  "screens.rules",
+  "screens.rules.conditions",
+  "screens.rules.conditions.processMetadataValues",
+  "screens.rules.processMetadataValues",
+  "screens.rules.ruleActions",
+  "screens.rules.ruleActions.processMetadataValues",
+  "screens.triggers",
+  "screens.triggers.handlers",
+  "screens.triggers.handlers.processMetadataValues",
+  "screens.triggers.processMetadataValues",
+  "stages",
+  "stages.processMetadataValues",
+  "start.capabilityTypes",
+  "start.capabilityTypes.inputs",
+  "start.capabilityTypes.inputs.processMetadataValues",
+  "start.capabilityTypes.processMetadataValues",
+  "start.connector.processMetadataValues",
+  "start.filters",
+  "start.filters.processMetadataValues",
+  "start.processMetadataValues",
+  "start.scheduledPaths",
+  "start.scheduledPaths.connector.processMetadataValues",
+  "start.scheduledPaths.processMetadataValues",
+  "steps",
+  "steps.connectors",
+  "steps.connectors.processMetadataValues",
+  "steps.processMetadataValues",
+  "subflows",
+  "subflows.connector.processMetadataValues",
+  "subflows.inputAssignments",
+  "subflows.inputAssignments.processMetadataValues",
+  "subflows.outputAssignments",
+  "subflows.outputAssignments.processMetadataValues",
+  "subflows.processMetadataValues",
+  "textTemplates",
+  "textTemplates.processMetadataValues",
+  "transforms",
+  "transforms.connector.processMetadataValues",
+  "transforms.processMetadataValues",
+  "transforms.transformValues",
+  "transforms.transformValues.processMetadataValues",
+  "transforms.transformValues.transformValueActions",
+  "transforms.transformValues.transformValueActions.inputParameters",
+  "transforms.transformValues.transformValueActions.inputParameters.processMetadataValues",
+  "transforms.transformValues.transformValueActions.processMetadataValues",
+  "variables",
+  "variables.processMetadataValues",
+  "waits",
+  "waits.defaultConnector.processMetadataValues",
+  "waits.faultConnector.processMetadataValues",
+  "waits.processMetadataValues",
+  "waits.waitEvents",
+  "waits.waitEvents.conditions",
+  "waits.waitEvents.conditions.processMetadataValues",
+  "waits.waitEvents.connector.processMetadataValues",
+  "waits.waitEvents.filters",
+  "waits.waitEvents.filters.processMetadataValues",
+  "waits.waitEvents.inputParameters",
+  "waits.waitEvents.inputParameters.processMetadataValues",
+  "waits.waitEvents.outputParameters",
+  "waits.waitEvents.outputParameters.processMetadataValues",
+  "waits.waitEvents.processMetadataValues",
+];
@@ -0,0 +1,269 @@
+/**
+ * SVG and HTML rendering of Flows
+ *
+ * This module draws the graph of a Flow as a standalone SVG image or as a
+ * self-contained HTML page in which clicking an element shows its
+ * properties. Free-form Flows are drawn at their `locationX`/`locationY`,
+ * auto-layout Flows are laid out with computeLayout. No network access or
+ * browser is needed to generate the output.
+ */
+import type { Flow, FlowNode } from "@salesforce/types/metadata";
+import { getEdgeLabel } from "./diagram.ts";
+import { FlowGraph } from "./graph.ts";
+import { computeLayout } from "./layout.ts";
+import type { LayoutOptions, LayoutPosition } from "./layout.ts";
+
+/**
+ * Options for renderFlowSvg and renderFlowHtml
+ */
+export interface RenderOptions extends LayoutOptions {
+  /**
+   * Compute a layered layout instead of using `locationX`/`locationY`.
+   * Defaults to true for Flows whose `CanvasMode` is `AUTO_LAYOUT_CANVAS`.
+   */
+  autoLayout?: boolean;
+}
+
+/**
+ * Width of a node box
+ */
+const NODE_WIDTH = 160;
+
+/**
+ * Height of a node box
+ */
+const NODE_HEIGHT = 48;
+
+/**
+ * Margin around the drawing
+ */
+const MARGIN = 40;
+
+/**
+ * Fill colors of node boxes by collection
+ */
+const NODE_COLORS: Record<string, string> = {
+  start: "#0b827c",
+  decisions: "#dd7a01",
+  assignments: "#dd7a01",
+  loops: "#dd7a01",
+  collectionProcessors: "#dd7a01",
+  screens: "#1b96ff",
+  recordLookups: "#e3066a",
+  recordCreates: "#e3066a",
+  recordUpdates: "#e3066a",
+  recordDeletes: "#e3066a",
+  recordRollbacks: "#e3066a",
+  actionCalls: "#032d60",
+  apexPluginCalls: "#032d60",
+  subflows: "#032d60",
+  customErrors: "#ba0517",
+};
+
+/**
+ * Check whether a Flow was saved from the auto-layout canvas
+ * @param flow Flow object to check
+ * @returns true if the `CanvasMode` process metadata value is
+ * `AUTO_LAYOUT_CANVAS`
+ */
+export function isAutoLayoutCanvas(flow: Flow): boolean {
+  return (flow.processMetadataValues ?? []).some((value) =>
+    value.name === "CanvasMode" &&
+    value.value?.stringValue === "AUTO_LAYOUT_CANVAS"
+  );
+}
+
+/**
+ * Render a Flow as a standalone SVG image
+ * Every element is a group with the element name in `data-name` and its
+ * properties as a tooltip.
+ * @param flow Flow object to render
+ * @param options Render and layout options
+ * @returns SVG document
+ * @example
+ * Deno.writeTextFileSync("flow.svg", renderFlowSvg(parseFromFile("path/to/flow.xml")));
+ */
+export function renderFlowSvg(flow: Flow, options: RenderOptions = {}): string {
+  const graph = new FlowGraph(flow);
+  const positions = getPositions(flow, graph, options);
+
+  const xs = [...positions.values()].map((position) => position.x);
+  const ys = [...positions.values()].map((position) => position.y);
+  const minX = Math.min(0, ...xs) - MARGIN;
+  const minY = Math.min(0, ...ys) - MARGIN;
+  const width = Math.max(0, ...xs) + NODE_WIDTH + MARGIN - minX;
+  const height = Math.max(0, ...ys) + NODE_HEIGHT + MARGIN - minY;
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" class="flow" viewBox="${minX} ${minY} ${width} ${height}" width="${width}" height="${height}" font-family="Helvetica, Arial, sans-serif" font-size="12">`,
+    `  <title>${escapeXml(flow.label ?? "Flow")}</title>`,
+    "  <defs>",
+    `    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#747474"/></marker>`,
+    "  </defs>",
+  ];
+
+  graph.edges.forEach((edge) => {
+    const source = positions.get(edge.source);
+    const target = positions.get(edge.target);
+    if (!source || !target) return;
+    const x1 = source.x + NODE_WIDTH / 2;
+    const y1 = source.y + NODE_HEIGHT;
+    const x2 = target.x + NODE_WIDTH / 2;
+    const y2 = target.y;
+    const fault = edge.kind === "fault";
+    lines.push(
+      `  <line class="edge" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${
+        fault ? "#ba0517" : "#747474"
+      }"${fault ? ' stroke-dasharray="6 4"' : ""} marker-end="url(#arrow)"/>`,
+    );
+    const label = getEdgeLabel(graph.getNode(edge.source)!, edge);
+    if (label) {
+      lines.push(
+        `  <text class="edge-label" x="${(x1 + x2) / 2}" y="${
+          (y1 + y2) / 2
+        }" text-anchor="middle" fill="#444444">${escapeXml(label)}</text>`,
+      );
+    }
+  });
+
+  graph.nodeNames.forEach((name) => {
+    const position = positions.get(name)!;
+    const node = graph.getNode(name)!;
+    const collection = graph.getLocation(name)!.collection;
+    const label = collection === "start" ? "Start" : node.label || name;
+    lines.push(
+      `  <g class="node" data-name="${
+        escapeXml(name)
+      }" data-collection="${collection}" transform="translate(${position.x} ${position.y})" style="cursor: pointer">`,
+      `    <title>${escapeXml(JSON.stringify(node, null, 2))}</title>`,
+      `    <rect width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="8" fill="${
+        NODE_COLORS[collection] ?? "#706e6b"
+      }"/>`,
+      `    <text x="${NODE_WIDTH / 2}" y="${
+        NODE_HEIGHT / 2 - 4
+      }" text-anchor="middle" fill="#ffffff" font-weight="bold">${
+        escapeXml(truncate(label, 24))
+      }</text>`,
+      `    <text x="${NODE_WIDTH / 2}" y="${
+        NODE_HEIGHT / 2 + 12
+      }" text-anchor="middle" fill="#ffffff">${escapeXml(collection)}</text>`,
+      "  </g>",
+    );
+  });
+
+  lines.push("</svg>");
+  return lines.join("\n");
+}
+
+/**
+ * Render a Flow as a self-contained HTML page
+ * The page shows the SVG image and the properties of an element when it is
+ * clicked. It contains no external resources.
+ * @param flow Flow object to render
+ * @param options Render and layout options
+ * @returns HTML document
+ * @example
+ * Deno.writeTextFileSync("flow.html", renderFlowHtml(parseFromFile("path/to/flow.xml")));
+ */
+export function renderFlowHtml(
+  flow: Flow,
+  options: RenderOptions = {},
+): string {
+  const graph = new FlowGraph(flow);
+  const elements = Object.fromEntries(
+    graph.nodeNames.map((name) => [name, graph.getNode(name)]),
+  );
+  const title = escapeXml(flow.label ?? "Flow");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { margin: 0; display: flex; height: 100vh; font-family: Helvetica, Arial, sans-serif; }
+  #canvas { flex: 1; overflow: auto; }
+  #details { width: 360px; overflow: auto; border-left: 1px solid #dddbda; padding: 12px; }
+  #details pre { font-size: 12px; white-space: pre-wrap; }
+  .node.selected rect { stroke: #000000; stroke-width: 3; }
+</style>
+</head>
+<body>
+<div id="canvas">
+${renderFlowSvg(flow, options)}
+</div>
+<div id="details">
+<h2>${title}</h2>
+<p>Click an element to show its properties.</p>
+<pre id="properties"></pre>
+</div>
+<script>
+  const elements = ${JSON.stringify(elements).replace(/</g, "\\u003c")};
+  document.querySelectorAll(".node").forEach((node) => {
+    node.addEventListener("click", () => {
+      document.querySelectorAll(".node.selected").forEach((selected) =>
+        selected.classList.remove("selected")
+      );
+      node.classList.add("selected");
+      const name = node.dataset.name;
+      document.querySelector("#details h2").textContent = name;
+      document.querySelector("#details p").textContent = node.dataset.collection;
+      document.getElementById("properties").textContent =
+        JSON.stringify(elements[name], null, 2);
+    });
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Get the position of every node of a Flow
+ * @param flow Flow object to read
+ * @param graph Graph of the Flow
+ * @param options Render options
+ * @returns Top-left corner of every node by name
+ */
+function getPositions(
+  flow: Flow,
+  graph: FlowGraph,
+  options: RenderOptions,
+): Map<string, LayoutPosition> {
+  if (options.autoLayout ?? isAutoLayoutCanvas(flow)) {
+    return computeLayout(flow, options);
+  }
+
+  return new Map(
+    graph.nodeNames.map((name) => {
+      const node = graph.getNode(name) as FlowNode;
+      return [name, {
+        x: Number(node.locationX ?? 0),
+        y: Number(node.locationY ?? 0),
+      }];
+    }),
+  );
+}
+
+/**
+ * Shorten text to a maximum length
+ * @param text Text to shorten
+ * @param length Maximum length
+ * @returns The text, ending with an ellipsis if it was shortened
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Escape text for XML content and attributes
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
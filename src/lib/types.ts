@@ -1,7 +1,12 @@
 /**
  * Type definitions for Flow parser
  */
-import type {FlowConnector, FlowRule, FlowScheduledPath, FlowWaitEvent} from "@salesforce/types/metadata";
+import type {
+  FlowConnector,
+  FlowRule,
+  FlowScheduledPath,
+  FlowWaitEvent,
+} from "@salesforce/types/metadata";
 
 /**
  * Interface for Flow nodes that can have connectors
@@ -18,6 +23,141 @@ export interface BaseFlowNodeWithConnector {
   // Add other potential connector-containing arrays here
 }
 
+/**
+ * Kind of a connector, derived from the property that holds it
+ * - `connector`: the regular `connector` of a node
+ * - `default`: the `defaultConnector` of a decision or wait
+ * - `rule`: the connector of a decision rule
+ * - `fault`: the `faultConnector` of a node
+ * - `nextValue` / `noMoreValues`: the connectors of a loop
+ * - `scheduledPath`: the connector of a start node scheduled path
+ * - `waitEvent`: the connector of a wait event
+ */
+export type ConnectorKind =
+  | "connector"
+  | "default"
+  | "rule"
+  | "fault"
+  | "nextValue"
+  | "noMoreValues"
+  | "scheduledPath"
+  | "waitEvent";
+
+/**
+ * Connector together with information about where it is located in its node
+ */
+export interface TypedConnector {
+  /** Kind of the connector */
+  kind: ConnectorKind;
+  /** The connector itself */
+  connector: FlowConnector;
+  /** Path of the connector relative to its node, e.g. `rules[0].connector` */
+  path: string;
+  /** Name of the rule, scheduled path or wait event owning the connector */
+  branch?: string;
+}
+
+/**
+ * Directed edge between two nodes of a Flow graph
+ */
+export interface FlowEdge extends TypedConnector {
+  /** Name of the node the connector belongs to */
+  source: string;
+  /** Name of the node the connector points to */
+  target: string;
+}
+
+/**
+ * Record of a connector that was created, retargeted or removed by a Flow edit
+ */
+export interface ConnectorChange {
+  /** Name of the node owning the connector */
+  element: string;
+  /** Kind of the connector */
+  kind: ConnectorKind;
+  /** Path of the connector within the Flow, e.g. `decisions[0].rules[1].connector` */
+  path: string;
+  /** Previous target of the connector, undefined if the connector was created */
+  from?: string;
+  /** New target of the connector, undefined if the connector was removed */
+  to?: string;
+}
+
+/**
+ * Whether a reference reads or writes the referenced element
+ */
+export type ReferenceRole = "read" | "write";
+
+/**
+ * Usage of an element found in a Flow
+ */
+export interface FlowReference {
+  /** Name of the element containing the usage, `$Start` for the start node */
+  element?: string;
+  /** Path of the value containing the usage, e.g. `assignments[0].assignmentItems[1].assignToReference` */
+  path: string;
+  /** Property holding the usage, e.g. `leftValueReference` or `expression` */
+  property: string;
+  /** Whether the usage reads or writes the element */
+  role: ReferenceRole;
+  /** The reference as written, e.g. `Get_Account.Name` */
+  reference: string;
+}
+
+/**
+ * Record of a reference that was rewritten by a Flow edit
+ */
+export interface ReferenceChange {
+  /** Name of the element containing the reference, `$Start` for the start node */
+  element?: string;
+  /** Path of the rewritten value, e.g. `formulas[0].expression` */
+  path: string;
+  /** Value before the change */
+  from: string;
+  /** Value after the change */
+  to: string;
+}
+
+/**
+ * Severity of a validation diagnostic
+ */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * Structured problem report produced by Flow validation
+ */
+export interface FlowDiagnostic {
+  /** Machine-readable problem code, e.g. `dangling-target` */
+  code: string;
+  /** Severity of the problem */
+  severity: DiagnosticSeverity;
+  /** Name of the element the problem belongs to, if any */
+  element?: string;
+  /** Path of the offending value within the Flow, e.g. `decisions[0].rules[1].connector.targetReference` */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Property of a Flow metadata type
+ */
+export interface SchemaField {
+  /**
+   * `string`, `number`, `double`, `boolean`, `date`, `datetime`, `time` or
+   * the name of a schema type; doubles are numbers serialized with a decimal,
+   * e.g. `63.0`, and the temporal types are Date values
+   */
+  type: string;
+  /** Whether the property holds a list of values */
+  array?: boolean;
+}
+
+/**
+ * Properties of a Flow metadata type in serialization order
+ */
+export type FlowTypeSchema = Record<string, SchemaField>;
+
 /**
  * Type for nested array configuration
  */
@@ -27,6 +167,16 @@ export type NestedArrayConfig = {
   recursive?: string;
 };
 
+/**
+ * Sort policy of a nested array property
+ * Order-significant arrays keep their order, e.g. decision rules which are
+ * evaluated top to bottom. Other arrays are sorted by the first of `keys` each
+ * item has.
+ */
+export type NestedSortPolicy =
+  | { ordered: true }
+  | { ordered: false; keys: string[] };
+
 /**
  * Type for objects with optional name property
  */
@@ -42,6 +192,13 @@ export const XML_CONFIG = {
   version: "1.0",
   encoding: "UTF-8",
   namespace: "http://soap.sforce.com/2006/04/metadata",
+  // Values are read as text and converted to their schema types afterwards
+  parseOptions: {
+    revive: {
+      booleans: false,
+      numbers: false,
+    },
+  },
   options: {
     replace: {
       entities: true,
@@ -0,0 +1,208 @@
+/**
+ * Structural Flow validation
+ *
+ * This module provides functions for checking the structure of a Flow:
+ * - Connectors pointing at elements that do not exist
+ * - Element names used more than once
+ * - Elements that cannot be reached from the start of the Flow
+ * - Nodes without any outgoing connector
+ * - Formula expressions with syntax errors
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import { FLOW_ELEMENT_PROPERTIES, START_NODE_NAME } from "./constants.ts";
+import { parseFormula } from "./formula.ts";
+import { FlowGraph } from "./graph.ts";
+import type { FlowDiagnostic } from "./types.ts";
+
+/**
+ * Diagnostic codes reported by validateFlow
+ */
+export const DIAGNOSTIC_CODES = {
+  danglingTarget: "dangling-target",
+  duplicateName: "duplicate-name",
+  unreachableElement: "unreachable-element",
+  noOutgoingPath: "no-outgoing-path",
+  invalidFormula: "invalid-formula",
+} as const;
+
+/**
+ * Validate the structure of a Flow
+ * Reports connectors pointing at missing elements, duplicate element names
+ * and formulas with syntax errors as errors, elements unreachable from the start as warnings and nodes
+ * without outgoing connectors as info.
+ * @param flow Flow object to validate
+ * @returns Array of diagnostics, empty if no problems were found
+ * @example
+ * const flow = parseFromFile("path/to/flow.xml");
+ * const errors = validateFlow(flow).filter((d) => d.severity === "error");
+ * errors.forEach((d) => console.error(`${d.path}: ${d.message}`));
+ */
+export function validateFlow(flow: Flow): FlowDiagnostic[] {
+  const graph = new FlowGraph(flow);
+
+  return [
+    ...findDuplicateNames(flow),
+    ...findDanglingTargets(graph),
+    ...findUnreachableElements(graph),
+    ...findDeadEnds(graph),
+    ...findInvalidFormulas(flow),
+  ];
+}
+
+/**
+ * Check whether any diagnostic has error severity
+ * @param diagnostics Diagnostics returned by validateFlow
+ * @returns true if at least one diagnostic is an error
+ */
+export function hasErrors(diagnostics: FlowDiagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === "error");
+}
+
+/**
+ * Find element names used more than once across all Flow element properties
+ * Names are compared case-insensitively, like Salesforce does.
+ * @param flow Flow object to check
+ * @returns Diagnostics for every repeated occurrence of a name
+ */
+function findDuplicateNames(flow: Flow): FlowDiagnostic[] {
+  const diagnostics: FlowDiagnostic[] = [];
+  const seen = new Map<string, string>();
+
+  FLOW_ELEMENT_PROPERTIES.forEach((prop) => {
+    const elements = flow[prop as keyof Flow];
+    if (!Array.isArray(elements)) return;
+
+    elements.forEach((element: { name?: string }, index: number) => {
+      const name = element?.name;
+      if (!name) return;
+      const path = `${prop}[${index}]`;
+      const firstPath = seen.get(name.toLowerCase());
+      if (firstPath) {
+        diagnostics.push({
+          code: DIAGNOSTIC_CODES.duplicateName,
+          severity: "error",
+          element: name,
+          path: `${path}.name`,
+          message: `Element name "${name}" is already used by ${firstPath}`,
+        });
+      } else {
+        seen.set(name.toLowerCase(), path);
+      }
+    });
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Find connectors and start references pointing at missing elements
+ * @param graph Graph of the Flow to check
+ * @returns Diagnostics for every dangling target
+ */
+function findDanglingTargets(graph: FlowGraph): FlowDiagnostic[] {
+  const diagnostics: FlowDiagnostic[] = graph.edges
+    .filter((edge) => !graph.hasNode(edge.target))
+    .map((edge) => ({
+      code: DIAGNOSTIC_CODES.danglingTarget,
+      severity: "error",
+      element: edge.source,
+      path: `${edge.path}.targetReference`,
+      message: `Connector points at missing element "${edge.target}"`,
+    }));
+
+  const startReference = graph.flow.startElementReference;
+  if (!graph.flow.start && startReference && !graph.hasNode(startReference)) {
+    diagnostics.push({
+      code: DIAGNOSTIC_CODES.danglingTarget,
+      severity: "error",
+      path: "startElementReference",
+      message:
+        `Start element reference points at missing element "${startReference}"`,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Find nodes that cannot be reached from the entry point of the Flow
+ * @param graph Graph of the Flow to check
+ * @returns Diagnostics for every unreachable node, empty if the Flow has no
+ * entry point
+ */
+function findUnreachableElements(graph: FlowGraph): FlowDiagnostic[] {
+  const entryPoint = graph.entryPoint;
+  if (!entryPoint) return [];
+
+  const reachable = new Set<string>([entryPoint]);
+  const queue = [entryPoint];
+  while (queue.length > 0) {
+    graph.successors(queue.shift()!).forEach((successor) => {
+      if (!reachable.has(successor)) {
+        reachable.add(successor);
+        queue.push(successor);
+      }
+    });
+  }
+
+  return graph.nodeNames
+    .filter((name) => !reachable.has(name))
+    .map((name) => ({
+      code: DIAGNOSTIC_CODES.unreachableElement,
+      severity: "warning",
+      element: name,
+      path: graph.getLocation(name)!.path,
+      message: `Element "${name}" cannot be reached from the start of the Flow`,
+    }));
+}
+
+/**
+ * Find nodes without any outgoing connector
+ * @param graph Graph of the Flow to check
+ * @returns Diagnostics for every node where the Flow ends
+ */
+function findDeadEnds(graph: FlowGraph): FlowDiagnostic[] {
+  return graph.nodeNames
+    .filter((name) => graph.edgesFrom(name).length === 0)
+    .map((name) => ({
+      code: DIAGNOSTIC_CODES.noOutgoingPath,
+      severity: "info",
+      element: name,
+      path: graph.getLocation(name)!.path,
+      message: `Element "${name}" has no outgoing connector`,
+    }));
+}
+
+/**
+ * Find formula resources and start filter formulas with syntax errors
+ * @param flow Flow object to check
+ * @returns Diagnostics for the first syntax error of every invalid formula
+ */
+function findInvalidFormulas(flow: Flow): FlowDiagnostic[] {
+  const formulas: { element?: string; path: string; expression?: string }[] = [
+    ...(flow.formulas ?? []).map((formula, index) => ({
+      element: formula.name,
+      path: `formulas[${index}].expression`,
+      expression: formula.expression,
+    })),
+    {
+      element: START_NODE_NAME,
+      path: "start.filterFormula",
+      expression: flow.start?.filterFormula,
+    },
+  ];
+
+  return formulas.flatMap(({ element, path, expression }) => {
+    if (typeof expression !== "string") return [];
+    const [error] = parseFormula(expression).errors;
+    if (!error) return [];
+    return [{
+      code: DIAGNOSTIC_CODES.invalidFormula,
+      severity: "error" as const,
+      element,
+      path,
+      message:
+        `Invalid formula at position ${error.position}: ${error.message}`,
+    }];
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Schema-driven value types of Flow properties
+ *
+ * Flow XML is parsed without reviving numbers and booleans, so every value is
+ * read as text. This module converts values to the types the metadata schema
+ * declares: numbers and booleans are revived only where the schema expects
+ * them, and text such as a `stringValue` of `00123` or `true` stays a string.
+ * Numbers, dates and times are only revived from text they format back to,
+ * so values such as `1.50` stay text; dates and times become Date values (in
+ * UTC, times on 1970-01-01). Before stringifying, doubles and dates are formatted as the Metadata
+ * API writes them, e.g. `63.0`, `2024-01-31` or `10:00:00.000Z`.
+ */
+import type { Flow } from "@salesforce/types/metadata";
+import { FLOW_SCHEMA } from "./schema.ts";
+
+/** Schema types whose values are Date values */
+export type TemporalType = "date" | "datetime" | "time";
+
+const TEMPORAL_PATTERNS: Record<TemporalType, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  datetime:
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z$/,
+};
+
+/**
+ * Parse ISO text of a temporal schema type into a Date
+ * Dates are read as midnight UTC and times as UTC on 1970-01-01.
+ * @param text ISO text, e.g. `2024-01-31`, `2024-01-31T10:00:00.000Z` or
+ * `10:00:00.000Z`
+ * @param type Temporal schema type of the text
+ * @returns Date, or `undefined` if the text isn't a valid value of the type
+ * @example
+ * parseTemporal("2024-01-31", "date"); // 2024-01-31T00:00:00.000Z
+ * parseTemporal("10:00:00.000Z", "time"); // 1970-01-01T10:00:00.000Z
+ */
+export function parseTemporal(
+  text: string,
+  type: TemporalType,
+): Date | undefined {
+  if (!TEMPORAL_PATTERNS[type].test(text)) return undefined;
+  // Date rolls days over, e.g. 2024-02-30 into March, so check the day
+  if (type !== "time") {
+    const day = new Date(`${text.slice(0, 10)}T00:00:00.000Z`);
+    if (
+      Number.isNaN(day.getTime()) ||
+      day.toISOString().slice(0, 10) !== text.slice(0, 10)
+    ) {
+      return undefined;
+    }
+  }
+  const date = new Date(
+    type === "date"
+      ? `${text}T00:00:00.000Z`
+      : type === "time"
+      ? `1970-01-01T${text}`
+      : text,
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Format a Date as the ISO text the Metadata API writes for a temporal type
+ * @param date Date to format
+ * @param type Temporal schema type to format as
+ * @returns ISO text in UTC
+ * @example
+ * formatTemporal(new Date("2024-01-31T10:00:00Z"), "date"); // "2024-01-31"
+ * formatTemporal(new Date("2024-01-31T10:00:00Z"), "time"); // "10:00:00.000Z"
+ */
+export function formatTemporal(date: Date, type: TemporalType): string {
+  const iso = date.toISOString();
+  if (type === "date") return iso.slice(0, 10);
+  if (type === "time") return iso.slice(11);
+  return iso;
+}
+
+/**
+ * Format a number as the Metadata API writes it
+ * @param number Number to format
+ * @param type `number`, or `double` to write integral values with a decimal
+ * @returns Text of the number, e.g. `63.0` for a double
+ */
+function formatNumber(number: number, type: string): string {
+  return type === "double" && Number.isInteger(number)
+    ? number.toFixed(1)
+    : String(number);
+}
+
+/**
+ * Check if a schema type holds Date values
+ * @param type Schema type, e.g. `date`
+ * @returns True for `date`, `datetime` and `time`
+ */
+function isTemporalType(type: string): type is TemporalType {
+  return type === "date" || type === "datetime" || type === "time";
+}
+
+/**
+ * Convert a primitive value to a schema type
+ * Values that cannot be converted, e.g. `abc` for a number, are returned as
+ * they are so no information is lost. Numbers and dates are only revived from
+ * text they format back to, so stringifying reproduces the original text;
+ * integral doubles such as `5` are revived as well and written as `5.0`.
+ * @param value Value read from the XML
+ * @param type Schema type, e.g. `number` or `boolean`
+ * @returns Converted value
+ * @example
+ * coerceValue("176", "number"); // 176
+ * coerceValue("true", "boolean"); // true
+ * coerceValue(123, "string"); // "123"
+ * coerceValue("2024-01-31", "date"); // 2024-01-31T00:00:00.000Z
+ */
+export function coerceValue(value: unknown, type: string): unknown {
+  switch (type) {
+    case "date":
+    case "datetime":
+    case "time": {
+      if (typeof value !== "string") return value;
+      const date = parseTemporal(value, type);
+      return date && formatTemporal(date, type) === value ? date : value;
+    }
+    case "string":
+      return typeof value === "number" || typeof value === "boolean"
+        ? String(value)
+        : value;
+    case "number":
+    case "double": {
+      if (typeof value !== "string" || value.trim() === "") return value;
+      const number = Number(value);
+      if (!Number.isFinite(number)) return value;
+      return formatNumber(number, type) === value ||
+          (Number.isSafeInteger(number) && String(number) === value)
+        ? number
+        : value;
+    }
+    case "boolean":
+      if (value === "true") return true;
+      if (value === "false") return false;
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert the properties of a value to their schema types, recursively
+ * Properties unknown to the schema keep their values.
+ * @param value Value of a metadata type, arrays are converted item by item
+ * @param type Name of the metadata type of the value, e.g. `FlowDecision`
+ * @returns The converted value; objects are modified in place
+ * @example
+ * coerceProperties({ name: "Check", locationX: "176" }, "FlowDecision");
+ * // { name: "Check", locationX: 176 }
+ */
+export function coerceProperties(value: unknown, type: string): unknown {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => value[index] = coerceProperties(item, type));
+    return value;
+  }
+  const schema = FLOW_SCHEMA[type];
+  if (!schema) return coerceValue(value, type);
+  if (!value || typeof value !== "object") return value;
+
+  const properties = value as Record<string, unknown>;
+  Object.entries(schema).forEach(([key, field]) => {
+    if (key in properties) {
+      properties[key] = coerceProperties(properties[key], field.type);
+    }
+  });
+  return value;
+}
+
+/**
+ * Convert the values of a parsed Flow to their declared types
+ * @param flow Flow object parsed from XML
+ * @returns The same Flow object, modified in place
+ * @example
+ * const flow = coerceFlowValues(xmlLib.parse(xml).Flow as Flow);
+ * typeof flow.apiVersion; // "number"
+ */
+export function coerceFlowValues(flow: Flow): Flow {
+  return coerceProperties(flow, "Flow") as Flow;
+}
+
+/**
+ * Format the values of a value as the Metadata API writes them, recursively
+ * Doubles are written with a decimal, e.g. `5` as `5.0`, and Date values as
+ * ISO text of their type; other values are left to the XML serializer.
+ * @param value Value of a metadata type, arrays are formatted item by item
+ * @param type Name of the metadata type of the value, e.g. `FlowDecision`
+ * @returns Formatted copy of the value (doesn't modify the original)
+ * @example
+ * formatProperties({ numberValue: 5 }, "FlowElementReferenceOrValue");
+ * // { numberValue: "5.0" }
+ */
+export function formatProperties(value: unknown, type: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => formatProperties(item, type));
+  }
+  if (type === "double" && typeof value === "number") {
+    return formatNumber(value, type);
+  }
+  if (isTemporalType(type) && value instanceof Date) {
+    return formatTemporal(value, type);
+  }
+  const schema = FLOW_SCHEMA[type];
+  if (!schema || !value || typeof value !== "object") return value;
+
+  const formatted = { ...value } as Record<string, unknown>;
+  Object.entries(schema).forEach(([key, field]) => {
+    if (key in formatted) {
+      formatted[key] = formatProperties(formatted[key], field.type);
+    }
+  });
+  return formatted;
+}
+
+/**
+ * Format the values of a Flow as the Metadata API writes them
+ * @param flow Flow object to format
+ * @returns Formatted Flow object (new object, doesn't modify the original)
+ * @example
+ * formatFlowValues({ apiVersion: 63 } as Flow); // { apiVersion: "63.0" }
+ */
+export function formatFlowValues(flow: Flow): Flow {
+  return formatProperties(flow, "Flow") as Flow;
+}
@@ -13,6 +13,7 @@ export {
   stringify,
   stringifyToFile,
 } from "./lib/flow.ts";
+export type { ParseOptions } from "./lib/flow.ts";
 
 // Export Flow node operations
 export {
@@ -20,29 +21,266 @@ export {
   findParentFlowNodes,
   getConnectors,
   getFlowNodes,
+  getPrimarySuccessor,
+  getTypedConnectors,
+  inferNodeCollection,
+  insertNodeAfter,
+  insertNodeBefore,
+  removeNode,
   reparentNode,
 } from "./lib/nodes.ts";
+export type {
+  InsertNodeAfterOptions,
+  InsertNodeOptions,
+  InsertNodeResult,
+  RemoveNodeOptions,
+  RemoveNodeResult,
+} from "./lib/nodes.ts";
+
+// Export Flow node builders
+export {
+  actionCall,
+  apexPluginCall,
+  assignment,
+  collectionProcessor,
+  condition,
+  connector,
+  customError,
+  decision,
+  loop,
+  orchestratedStage,
+  recordCreate,
+  recordDelete,
+  recordLookup,
+  recordRollback,
+  recordUpdate,
+  ref,
+  screen,
+  subflow,
+  toFlowValue,
+  transform,
+  wait,
+} from "./lib/builders.ts";
+export type {
+  ActionCallBuilder,
+  ApexPluginCallBuilder,
+  AssignmentBuilder,
+  BranchOptions,
+  CollectionProcessorBuilder,
+  ConnectedNodeBuilder,
+  CustomErrorBuilder,
+  DecisionBuilder,
+  FaultHandlingNodeBuilder,
+  FlowValueInput,
+  LoopBuilder,
+  NodeBuilder,
+  OrchestratedStageBuilder,
+  RecordCreateBuilder,
+  RecordDeleteBuilder,
+  RecordLookupBuilder,
+  RecordRollbackBuilder,
+  RecordUpdateBuilder,
+  ScreenBuilder,
+  SubflowBuilder,
+  TransformBuilder,
+  WaitBuilder,
+} from "./lib/builders.ts";
+
+// Export Flow reference lookup
+export {
+  findReferences,
+  getReferenceRoot,
+  referencesElement,
+  rewriteReferences,
+} from "./lib/references.ts";
+
+// Export Flow resource maintenance
+export {
+  findUnusedResources,
+  pruneUnusedResources,
+} from "./lib/resources.ts";
+export type { UnusedResource } from "./lib/resources.ts";
+
+// Export Flow element renaming
+export { renameElement } from "./lib/rename.ts";
+export type { RenameElementResult } from "./lib/rename.ts";
+
+// Export Flow graph model
+export { FlowGraph } from "./lib/graph.ts";
+export type { FlowNodeLocation } from "./lib/graph.ts";
+
+// Export Flow diff
+export { diffFlows, formatFlowDiff, isEmptyDiff } from "./lib/diff.ts";
+export type {
+  DiffOptions,
+  ElementChangeType,
+  ElementDiff,
+  FlowDiff,
+  PropertyChange,
+} from "./lib/diff.ts";
+
+// Export Flow merge
+export { mergeFlows } from "./lib/merge.ts";
+export type { MergeConflict, MergeOptions, MergeResult } from "./lib/merge.ts";
+
+// Export Flow diagrams
+export { toDot, toMermaid } from "./lib/diagram.ts";
+export type { DiagramOptions } from "./lib/diagram.ts";
+
+// Export Flow layout and rendering
+export { computeLayout, layoutFlow } from "./lib/layout.ts";
+export type {
+  LayoutFlowOptions,
+  LayoutOptions,
+  LayoutPosition,
+} from "./lib/layout.ts";
+export {
+  isAutoLayoutCanvas,
+  renderFlowHtml,
+  renderFlowSvg,
+} from "./lib/svg.ts";
+export type { RenderOptions } from "./lib/svg.ts";
+
+// Export Flow condition expressions
+export {
+  parseConditions,
+  parseFilters,
+  renderCondition,
+  renderConditions,
+  renderValue,
+} from "./lib/conditions.ts";
+export type {
+  ConditionGroup,
+  FilterGroup,
+  ParsedConditions,
+  ParsedFilters,
+} from "./lib/conditions.ts";
+
+// Export Flow formula expressions
+export {
+  compareValues,
+  evaluateFormula,
+  isBlank,
+  parseFormula,
+  rewriteFormulaReferences,
+  tokenizeFormula,
+} from "./lib/formula.ts";
+export type {
+  FormulaError,
+  FormulaLiteral,
+  FormulaToken,
+  FormulaTokenType,
+  ParsedFormula,
+} from "./lib/formula.ts";
+
+// Export Flow interpreter
+export {
+  compareCondition,
+  evaluateConditionLogic,
+  runFlow,
+} from "./lib/interpreter.ts";
+export type {
+  ElementHandler,
+  ExecutionContext,
+  ExecutionStep,
+  FlowRunResult,
+  RunFlowOptions,
+} from "./lib/interpreter.ts";
+
+// Export Flow record store
+export { RecordStore } from "./lib/records.ts";
+export type { RecordData } from "./lib/records.ts";
+
+// Export Flow coverage
+export { computeCoverage, formatCoverage } from "./lib/coverage.ts";
+export type {
+  BranchCoverage,
+  CoverageCount,
+  CoverageFormat,
+  CoverageFormatOptions,
+  ElementCoverage,
+  FlowCoverage,
+} from "./lib/coverage.ts";
+
+// Export Flow documentation
+export { documentFlow } from "./lib/docs.ts";
+
+// Export Flow validation
+export {
+  DIAGNOSTIC_CODES,
+  hasErrors,
+  validateFlow,
+} from "./lib/validation.ts";
 
 // Export helper functions
 export {
   ensureArray,
   ensureArrayProperties,
+  findArrayConfigDrift,
+  normalizeArrays,
+  orderFlowProperties,
+  orderProperties,
   processNestedArrays,
   sortByName,
   sortFlowArrays,
+  sortNestedArrays,
 } from "./lib/helper.ts";
 
+// Export Flow metadata schema
+export { FLOW_ARRAY_PATHS, FLOW_SCHEMA } from "./lib/schema.ts";
+
+// Export Flow value types
+export {
+  coerceFlowValues,
+  coerceProperties,
+  coerceValue,
+  formatFlowValues,
+  formatProperties,
+  formatTemporal,
+  parseTemporal,
+} from "./lib/values.ts";
+export type { TemporalType } from "./lib/values.ts";
+
+// Export Flow file discovery
+export {
+  collectFlowFiles,
+  globToRegExp,
+  isFlowFile,
+  isGlob,
+} from "./lib/files.ts";
+
 // Export types
 export type {
   BaseFlowNodeWithConnector,
+  ConnectorChange,
+  ConnectorKind,
+  DiagnosticSeverity,
+  FlowDiagnostic,
+  FlowEdge,
+  FlowReference,
+  FlowTypeSchema,
   NamedObject,
   NestedArrayConfig,
+  NestedSortPolicy,
+  ReferenceChange,
+  ReferenceRole,
+  SchemaField,
+  TypedConnector,
 } from "./lib/types.ts";
 
 // Export constants
 export {
   FLOW_ARRAY_NODES,
   FLOW_ARRAY_PROPERTIES,
+  FLOW_ELEMENT_PROPERTIES,
+  FLOW_FILE_SUFFIXES,
   NESTED_ARRAY_CONFIG,
   NESTED_SORT_CONFIG,
+  NESTED_SORT_POLICY,
+  NODE_COLLECTION_SIGNATURES,
+  MERGE_FIELD_PROPERTIES,
+  PRIMARY_CONNECTOR_PROPERTIES,
+  REFERENCE_PROPERTIES,
+  RESOURCE_PROPERTIES,
+  START_NODE_NAME,
 } from "./lib/constants.ts";
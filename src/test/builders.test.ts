@@ -0,0 +1,175 @@
+import { assertEquals, assertNotStrictEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import {
+  actionCall,
+  apexPluginCall,
+  assignment,
+  collectionProcessor,
+  condition,
+  customError,
+  decision,
+  loop,
+  orchestratedStage,
+  recordCreate,
+  recordDelete,
+  recordLookup,
+  recordRollback,
+  recordUpdate,
+  ref,
+  screen,
+  subflow,
+  toFlowValue,
+  transform,
+  wait,
+} from "../lib/builders.ts";
+import { inferNodeCollection, insertNodeBefore } from "../lib/nodes.ts";
+import { parse, stringify } from "../lib/flow.ts";
+
+// Helper function to create a connector
+function connectTo(targetReference: string) {
+  return { targetReference, processMetadataValues: [] };
+}
+
+Deno.test("toFlowValue should convert plain values", () => {
+  assertEquals(toFlowValue("New"), { stringValue: "New" });
+  assertEquals(toFlowValue(5), { numberValue: 5 });
+  assertEquals(toFlowValue(false), { booleanValue: false });
+  assertEquals(toFlowValue(ref("$Record.Id")), {
+    elementReference: "$Record.Id",
+  });
+});
+
+Deno.test("decision builder should create a normalized decision", () => {
+  const node = decision("Check_Status")
+    .rule("Is_New", condition("$Record.Status__c", "EqualTo", "New"), {
+      target: "Notify",
+    })
+    .defaultTo("Finish")
+    .location(176, 290)
+    .build();
+
+  assertEquals(node, {
+    name: "Check_Status",
+    label: "Check Status",
+    locationX: 176,
+    locationY: 290,
+    processMetadataValues: [],
+    rules: [
+      {
+        name: "Is_New",
+        label: "Is New",
+        conditionLogic: "and",
+        conditions: [
+          {
+            leftValueReference: "$Record.Status__c",
+            operator: "EqualTo",
+            rightValue: { stringValue: "New" },
+            processMetadataValues: [],
+          },
+        ],
+        processMetadataValues: [],
+        connector: connectTo("Notify"),
+      },
+    ],
+    defaultConnectorLabel: "Default Outcome",
+    defaultConnector: connectTo("Finish"),
+  });
+});
+
+Deno.test("build should return independent copies", () => {
+  const builder = assignment("Count").assign("counter", 1, "Add");
+  const first = builder.build();
+  const second = builder.connectTo("Next").build();
+
+  assertNotStrictEquals(first, second);
+  assertEquals(first.connector, undefined);
+  assertEquals(second.connector, connectTo("Next"));
+  assertEquals(first.assignmentItems, [
+    {
+      assignToReference: "counter",
+      operator: "Add",
+      value: { numberValue: 1 },
+      processMetadataValues: [],
+    },
+  ]);
+});
+
+Deno.test("built nodes should be recognized by inferNodeCollection", () => {
+  const builders = [
+    decision("A").rule("R", []),
+    assignment("A"),
+    recordLookup("A", "Account"),
+    recordCreate("A", "Account").set("Name", "Acme"),
+    recordUpdate("A", "Account").filter("Id", "EqualTo", ref("id")).set(
+      "Name",
+      "Acme",
+    ),
+    recordDelete("A", "Account").filter("Id", "EqualTo", ref("id")),
+    subflow("A", "Other_Flow"),
+    loop("A", "records"),
+    actionCall("A", "Send", "apex"),
+    apexPluginCall("A", "MyPlugin"),
+    collectionProcessor("A", "SortCollectionProcessor", "records"),
+    customError("A").message("Failed"),
+    screen("A"),
+    transform("A"),
+    wait("A"),
+    orchestratedStage("A"),
+  ];
+
+  builders.forEach((builder) => {
+    assertEquals(inferNodeCollection(builder.build()), builder.collection);
+  });
+  assertEquals(recordRollback("A").collection, "recordRollbacks");
+});
+
+Deno.test("built nodes should survive a stringify and parse round trip", () => {
+  const xml = stringify({
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: connectTo("Get_Account"),
+    },
+    recordLookups: [
+      recordLookup("Get_Account", "Account")
+        .filter("Id", "EqualTo", ref("$Record.AccountId"))
+        .connectTo("Each_Contact")
+        .faultTo("Error")
+        .build(),
+    ],
+    loops: [
+      loop("Each_Contact", "contacts").eachTo("Error").afterLastTo("Error")
+        .build(),
+    ],
+    customErrors: [customError("Error").message("Something failed").build()],
+  } as unknown as Flow);
+  const flow = parse(xml);
+
+  assertEquals(stringify(flow), xml);
+  assertEquals(flow.recordLookups[0].filters[0].value, {
+    elementReference: "$Record.AccountId",
+  });
+  assertEquals(flow.recordLookups[0].faultConnector?.targetReference, "Error");
+  assertEquals(flow.loops[0].nextValueConnector?.targetReference, "Error");
+  assertEquals(
+    flow.customErrors[0].customErrorMessages[0].errorMessage,
+    "Something failed",
+  );
+});
+
+Deno.test("built nodes should work with insertNodeBefore", () => {
+  const flow = {
+    start: { locationX: 0, locationY: 0, connector: connectTo("Finish") },
+    assignments: [assignment("Finish").assign("done", true).build()],
+  } as unknown as Flow;
+
+  const { collection } = insertNodeBefore(
+    flow,
+    "Finish",
+    subflow("Log", "Logger").input("message", "Started").build(),
+  );
+
+  assertEquals(collection, "subflows");
+  assertEquals(flow.start?.connector?.targetReference, "Log");
+  assertEquals(flow.subflows[0].connector, connectTo("Finish"));
+});
@@ -0,0 +1,152 @@
+import { assertEquals } from "@std/assert";
+import { normalize, parseArgs, runCli } from "../cli.ts";
+import { parse } from "../lib/flow.ts";
+import { flowSingleDecision, sampleFlowXml } from "./mock/flow.mock.ts";
+
+// Helper function to create a temporary directory with flow files
+function createTempFlows(files: Record<string, string>): string {
+  const tempDir = Deno.makeTempDirSync();
+  Object.entries(files).forEach(([name, content]) => {
+    Deno.writeTextFileSync(`${tempDir}/${name}`, content);
+  });
+  return tempDir;
+}
+
+Deno.test("parseArgs should split command, options and paths", () => {
+  assertEquals(parseArgs(["check", "-w", "a", "b"]), {
+    command: "check",
+    write: true,
+    help: false,
+    paths: ["a", "b"],
+  });
+  assertEquals(parseArgs(["--help"]).help, true);
+});
+
+Deno.test("runCli should reject invalid usage", () => {
+  assertEquals(runCli([]), 2);
+  assertEquals(runCli(["unknown", "flows"]), 2);
+  assertEquals(runCli(["check"]), 2);
+  assertEquals(runCli(["check", "--unknown", "flows"]), 2);
+  assertEquals(runCli(["--help"]), 0);
+});
+
+Deno.test("runCli check should fail for files that are not normalized", () => {
+  const tempDir = createTempFlows({
+    "Sample.flow-meta.xml": sampleFlowXml,
+    "Normalized.flow-meta.xml": normalize(flowSingleDecision),
+  });
+  try {
+    assertEquals(runCli(["check", `${tempDir}/Normalized.flow-meta.xml`]), 0);
+    assertEquals(runCli(["check", tempDir]), 1);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("runCli normalize --write should rewrite files in place", () => {
+  const tempDir = createTempFlows({ "Sample.flow-meta.xml": sampleFlowXml });
+  const filePath = `${tempDir}/Sample.flow-meta.xml`;
+  try {
+    assertEquals(runCli(["normalize", "--write", tempDir]), 0);
+    assertEquals(Deno.readTextFileSync(filePath), normalize(sampleFlowXml));
+    assertEquals(runCli(["check", filePath]), 0);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("runCli normalize --write should report files that cannot be written", () => {
+  const tempDir = createTempFlows({
+    "Locked.flow-meta.xml": sampleFlowXml,
+    "Sample.flow-meta.xml": sampleFlowXml,
+  });
+  const writeTextFileSync = Deno.writeTextFileSync;
+  // Running as root ignores file permissions, so fail the write directly
+  Deno.writeTextFileSync = (path, data, options) => {
+    if (String(path).endsWith("Locked.flow-meta.xml")) {
+      throw new Deno.errors.PermissionDenied("Permission denied");
+    }
+    writeTextFileSync(path, data, options);
+  };
+  try {
+    assertEquals(runCli(["normalize", "--write", tempDir]), 1);
+    assertEquals(
+      Deno.readTextFileSync(`${tempDir}/Locked.flow-meta.xml`),
+      sampleFlowXml,
+    );
+    assertEquals(
+      Deno.readTextFileSync(`${tempDir}/Sample.flow-meta.xml`),
+      normalize(sampleFlowXml),
+    );
+  } finally {
+    Deno.writeTextFileSync = writeTextFileSync;
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("runCli should report files that cannot be parsed", () => {
+  const tempDir = createTempFlows({
+    "Broken.flow-meta.xml": "<NotAFlow></NotAFlow>",
+  });
+  try {
+    assertEquals(runCli(["check", tempDir]), 1);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("runCli validate should fail for flows with structural errors", () => {
+  const tempDir = createTempFlows({
+    "Sample.flow-meta.xml": sampleFlowXml,
+    "Dangling.flow-meta.xml": flowSingleDecision,
+  });
+  try {
+    assertEquals(runCli(["validate", `${tempDir}/Sample.flow-meta.xml`]), 0);
+    assertEquals(runCli(["validate", tempDir]), 1);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("runCli merge should merge flows into our file", () => {
+  const base = normalize(sampleFlowXml);
+  const setDescription = (description: string) =>
+    base.replace("Test Flow</description>", `${description}</description>`);
+  const tempDir = createTempFlows({
+    "base.xml": base,
+    "ours.xml": setDescription("Ours"),
+    "theirs.xml": base.replace("<status>Active", "<status>Draft"),
+    "conflict.xml": setDescription("Theirs"),
+  });
+  const [basePath, oursPath, theirsPath, conflictPath] = [
+    "base.xml",
+    "ours.xml",
+    "theirs.xml",
+    "conflict.xml",
+  ].map((name) => `${tempDir}/${name}`);
+  try {
+    assertEquals(runCli(["merge", basePath, oursPath]), 2);
+    assertEquals(runCli(["merge", basePath, oursPath, theirsPath]), 0);
+    const merged = parse(Deno.readTextFileSync(oursPath));
+    assertEquals(merged.description, "Ours");
+    assertEquals(merged.status, "Draft");
+    assertEquals(runCli(["merge", basePath, oursPath, conflictPath]), 1);
+    const conflicted = Deno.readTextFileSync(oursPath);
+    assertEquals(
+      conflicted.includes(
+        [
+          "<<<<<<< ours",
+          "    <description>Ours</description>",
+          "=======",
+          "    <description>Theirs</description>",
+          ">>>>>>> theirs",
+        ].join("\n"),
+      ),
+      true,
+    );
+    assertEquals(conflicted.match(/^<<<<<<< /gm)?.length, 1);
+    assertEquals(conflicted.includes("<status>Draft</status>"), true);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
@@ -0,0 +1,177 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { FlowRule } from "@salesforce/types/metadata";
+import {
+  parseConditions,
+  parseFilters,
+  renderConditions,
+  renderValue,
+} from "../lib/conditions.ts";
+import type { FilterGroup } from "../lib/conditions.ts";
+import { condition, ref } from "../lib/builders.ts";
+
+Deno.test("renderConditions should join conditions with and/or logic", () => {
+  const conditions = [
+    condition("$Record.Status__c", "EqualTo", "New"),
+    condition("Amount", "GreaterThan", 100),
+  ];
+
+  assertEquals(
+    renderConditions({ conditions, conditionLogic: "and" }),
+    "$Record.Status__c = 'New' AND Amount > 100",
+  );
+  assertEquals(
+    renderConditions({ conditions, conditionLogic: "or" }),
+    "$Record.Status__c = 'New' OR Amount > 100",
+  );
+});
+
+Deno.test("renderConditions should substitute custom condition logic", () => {
+  const rule = {
+    name: "Match",
+    label: "Match",
+    conditionLogic: "1 AND (2 OR 3)",
+    conditions: [
+      condition("Active", "EqualTo", true),
+      condition("Owner", "EqualTo", ref("$User.Id")),
+      condition("Name", "StartsWith", "O'Brien"),
+    ],
+  } as unknown as FlowRule;
+
+  assertEquals(
+    renderConditions(rule),
+    "Active = true AND (Owner = $User.Id OR Name STARTS WITH 'O\\'Brien')",
+  );
+});
+
+Deno.test("renderConditions should render record filters and check operators", () => {
+  assertEquals(
+    renderConditions({
+      filterLogic: "or",
+      filters: [
+        { field: "Email", operator: "IsNull", value: { booleanValue: true } },
+        {
+          field: "Phone",
+          operator: "IsNull",
+          value: { booleanValue: "false" },
+        },
+      ],
+    } as unknown as FilterGroup),
+    "Email IS NULL OR Phone IS NOT NULL",
+  );
+});
+
+Deno.test("renderValue should render parsed values", () => {
+  assertEquals(renderValue({ numberValue: "42" as unknown as number }), "42");
+  assertEquals(
+    renderValue({ dateValue: new Date("2024-01-31T00:00:00.000Z") }),
+    "2024-01-31",
+  );
+  assertEquals(
+    renderValue({ dateTimeValue: new Date("2024-01-31T10:30:00.000Z") }),
+    "2024-01-31T10:30:00.000Z",
+  );
+  assertEquals(renderValue({}), "null");
+  assertEquals(renderValue(undefined), "null");
+});
+
+Deno.test("parseConditions should parse comparisons joined with AND", () => {
+  assertEquals(
+    parseConditions("$Record.Status__c = 'New' AND Amount > 100"),
+    {
+      conditions: [
+        condition("$Record.Status__c", "EqualTo", "New"),
+        condition("Amount", "GreaterThan", 100),
+      ],
+      conditionLogic: "and",
+    },
+  );
+});
+
+Deno.test("parseConditions should build custom logic for mixed operators", () => {
+  const { conditions, conditionLogic } = parseConditions(
+    'Active = TRUE and (Owner = {!$User.Id} or not Name starts with "O\'Brien")',
+  );
+
+  assertEquals(conditionLogic, "1 AND (2 OR NOT 3)");
+  assertEquals(conditions, [
+    condition("Active", "EqualTo", true),
+    condition("Owner", "EqualTo", ref("$User.Id")),
+    condition("Name", "StartsWith", "O'Brien"),
+  ]);
+});
+
+Deno.test("parseConditions should parse check operators and literals", () => {
+  const { conditions, conditionLogic } = parseConditions(
+    "Email IS NOT NULL OR Close_Date >= 2024-01-31 OR Stage IN Stages OR Score != -1.5",
+  );
+
+  assertEquals(conditionLogic, "or");
+  assertEquals(conditions, [
+    condition("Email", "IsNull", false),
+    condition("Close_Date", "GreaterThanOrEqualTo", {
+      dateValue: new Date("2024-01-31T00:00:00.000Z"),
+    }),
+    condition("Stage", "In", ref("Stages")),
+    condition("Score", "NotEqualTo", -1.5),
+  ]);
+});
+
+Deno.test("parseConditions should be the inverse of renderConditions", () => {
+  const expression =
+    "A = 'x' AND (B IS CHANGED OR NOT (C < 3 AND D CONTAINS E.F))";
+  const rule = parseConditions(expression);
+
+  assertEquals(rule.conditionLogic, "1 AND (2 OR NOT (3 AND 4))");
+  assertEquals(renderConditions(rule), expression);
+});
+
+Deno.test("parseConditions should report syntax errors with positions", () => {
+  assertThrows(
+    () => parseConditions("Amount > 100 AND"),
+    Error,
+    "Invalid condition expression at position 16: expected a reference",
+  );
+  assertThrows(
+    () => parseConditions("Amount 100"),
+    Error,
+    "Invalid condition expression at position 7: expected an operator",
+  );
+  assertThrows(
+    () => parseConditions("(Amount > 100"),
+    Error,
+    "Invalid condition expression at position 13: expected )",
+  );
+  assertThrows(
+    () => parseConditions("Name = 'open"),
+    Error,
+    "Invalid condition expression at position 7: unterminated string",
+  );
+  assertThrows(
+    () => parseConditions("Close_Date > 2024-02-30"),
+    Error,
+    "Invalid condition expression at position 13: invalid date",
+  );
+});
+
+Deno.test("parseFilters should create record filters with filter logic", () => {
+  assertEquals(
+    parseFilters("Id = $Record.AccountId OR Name = null"),
+    {
+      filters: [
+        {
+          field: "Id",
+          operator: "EqualTo",
+          value: { elementReference: "$Record.AccountId" },
+          processMetadataValues: [],
+        },
+        { field: "Name", operator: "EqualTo", processMetadataValues: [] },
+      ],
+      filterLogic: "or",
+    },
+  );
+  assertThrows(
+    () => parseFilters("Name WAS SET"),
+    Error,
+    "operator WasSet is not supported in record filters",
+  );
+});
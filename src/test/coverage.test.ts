@@ -0,0 +1,111 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { computeCoverage, formatCoverage } from "../lib/coverage.ts";
+import { runFlow } from "../lib/interpreter.ts";
+import {
+  actionCall,
+  assignment,
+  condition,
+  connector,
+  decision,
+} from "../lib/builders.ts";
+
+// Helper function to create a flow with a decision and a fault path
+function createFlow(): Flow {
+  return {
+    fullName: "Discounts",
+    label: "Discounts",
+    processType: "AutoLaunchedFlow",
+    start: { locationX: 0, locationY: 0, connector: connector("Check") },
+    variables: [{ name: "amount", dataType: "Number", isInput: "true" }],
+    decisions: [
+      decision("Check")
+        .rule("Large", condition("amount", "GreaterThan", 100), {
+          label: "Large Amount",
+          target: "Notify",
+        })
+        .rule("Negative", condition("amount", "LessThan", 0))
+        .defaultTo("Done")
+        .build(),
+    ],
+    actionCalls: [
+      actionCall("Notify", "Notify", "apex").connectTo("Done").faultTo("Done")
+        .build(),
+    ],
+    assignments: [assignment("Done").assign("amount", 0).build()],
+  } as unknown as Flow;
+}
+
+Deno.test("computeCoverage should count elements and outcomes", () => {
+  const flow = createFlow();
+  const handlers = { Notify: () => {} };
+  const coverage = computeCoverage(flow, [
+    runFlow(flow, { inputs: { amount: 500 }, handlers }),
+    runFlow(flow, { inputs: { amount: 500 }, handlers }).trace,
+    runFlow(flow, { inputs: { amount: 5 }, handlers }),
+  ]);
+
+  assertEquals(coverage.runs, 3);
+  assertEquals(coverage.elements.map((item) => [item.element, item.hits]), [
+    ["$Start", 3],
+    ["Check", 3],
+    ["Notify", 2],
+    ["Done", 3],
+  ]);
+  assertEquals(
+    coverage.branches.map((item) => [item.element, item.kind, item.hits]),
+    [
+      ["Check", "rule", 2],
+      ["Check", "rule", 0],
+      ["Check", "default", 1],
+      ["Notify", "fault", 0],
+    ],
+  );
+  assertEquals(coverage.branches[1], {
+    element: "Check",
+    kind: "rule",
+    branch: "Negative",
+    label: "Negative",
+    hits: 0,
+  });
+  assertEquals(coverage.summary, {
+    elements: { covered: 4, total: 4 },
+    branches: { covered: 2, total: 4 },
+  });
+});
+
+Deno.test("formatCoverage should report uncovered outcomes", () => {
+  const flow = createFlow();
+  const coverage = computeCoverage(flow, [
+    runFlow(flow, { inputs: { amount: 5 } }),
+  ]);
+
+  assertEquals(
+    formatCoverage(coverage),
+    [
+      "Coverage of Discounts (1 run)",
+      "Elements: 3/4 (75.0%)",
+      "Branches: 1/4 (25.0%)",
+      "",
+      "Uncovered elements:",
+      "- Notify (actionCalls)",
+      "",
+      "Uncovered branches:",
+      "- Check: Large Amount (rule) → Notify",
+      "- Check: Negative (rule)",
+      "- Notify: Fault (fault) → Done",
+    ].join("\n"),
+  );
+  assertEquals(JSON.parse(formatCoverage(coverage, "json")), coverage);
+
+  const lcov = formatCoverage(coverage, "lcov");
+  assertStringIncludes(lcov, "SF:Discounts.flow-meta.xml\n");
+  assertStringIncludes(lcov, "FNDA:0,Notify\n");
+  assertStringIncludes(lcov, "BRDA:2,0,0,-\nBRDA:2,0,1,-\nBRDA:2,0,2,1\n");
+  assertStringIncludes(lcov, "BRF:4\nBRH:1\n");
+  assertStringIncludes(lcov, "LF:4\nLH:3\nend_of_record\n");
+  assertStringIncludes(
+    formatCoverage(coverage, "lcov", { sourceFile: "flows/D.flow-meta.xml" }),
+    "SF:flows/D.flow-meta.xml\n",
+  );
+});
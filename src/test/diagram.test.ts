@@ -0,0 +1,133 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { toDot, toMermaid } from "../lib/diagram.ts";
+import {
+  assignment,
+  condition,
+  decision,
+  loop,
+  recordUpdate,
+} from "../lib/builders.ts";
+
+// Helper function to create a flow using every kind of edge label
+function createFlow(): Flow {
+  return {
+    label: "Order Check",
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: { targetReference: "Check", processMetadataValues: [] },
+      scheduledPaths: [
+        {
+          name: "Later",
+          label: "One Day Later",
+          connector: {
+            targetReference: "Each_Item",
+            processMetadataValues: [],
+          },
+        },
+      ],
+    },
+    decisions: [
+      decision("Check")
+        .label('Is "Big"?')
+        .rule("Is_Big", condition("amount", "GreaterThan", 100), {
+          label: "Big Order",
+          target: "Save",
+        })
+        .defaultTo("Each_Item", "Small Order")
+        .build(),
+    ],
+    loops: [
+      loop("Each_Item", "items").eachTo("Count").afterLastTo("Save").build(),
+    ],
+    assignments: [assignment("Count").connectTo("Each_Item").build()],
+    recordUpdates: [
+      recordUpdate("Save").inputReference("order").faultTo("Count").build(),
+    ],
+  } as unknown as Flow;
+}
+
+Deno.test("toMermaid should render shaped nodes and labelled edges", () => {
+  assertEquals(
+    toMermaid(createFlow()),
+    [
+      "flowchart TB",
+      '    n__Start(["Start"])',
+      '    n_Check{"Is #quot;Big#quot;?"}',
+      '    n_Count["Count"]',
+      '    n_Each_Item{{"Each Item"}}',
+      '    n_Save[("Save")]',
+      "    n__Start --> n_Check",
+      '    n__Start -->|"One Day Later"| n_Each_Item',
+      '    n_Check -->|"Small Order"| n_Each_Item',
+      '    n_Check -->|"Big Order"| n_Save',
+      "    n_Count --> n_Each_Item",
+      '    n_Each_Item -->|"For Each"| n_Count',
+      '    n_Each_Item -->|"After Last"| n_Save',
+      '    n_Save -.->|"Fault"| n_Count',
+    ].join("\n"),
+  );
+  assertStringIncludes(
+    toMermaid(createFlow(), { direction: "LR" }),
+    "flowchart LR",
+  );
+});
+
+Deno.test("toDot should render shaped nodes and labelled edges", () => {
+  const dot = toDot(createFlow());
+
+  assertStringIncludes(dot, 'digraph "Order Check" {');
+  assertStringIncludes(
+    dot,
+    '    "Check" [label="Is \\"Big\\"?", shape=diamond];',
+  );
+  assertStringIncludes(dot, '    "Save" [label="Save", shape=cylinder];');
+  assertStringIncludes(dot, '    "Count" [label="Count"];');
+  assertStringIncludes(
+    dot,
+    '    "Check" -> "Each_Item" [label="Small Order"];',
+  );
+  assertStringIncludes(
+    dot,
+    '    "Save" -> "Count" [label="Fault", style=dashed, color=red];',
+  );
+  assertStringIncludes(dot, '    "$Start" -> "Check";');
+});
+
+Deno.test("diagrams should add a start node for legacy flows", () => {
+  const flow = {
+    startElementReference: "Count",
+    assignments: [assignment("Count").build()],
+  } as unknown as Flow;
+
+  assertEquals(
+    toMermaid(flow),
+    [
+      "flowchart TB",
+      '    n__Start(["Start"])',
+      '    n_Count["Count"]',
+      "    n__Start --> n_Count",
+    ].join("\n"),
+  );
+});
+
+Deno.test("toMermaid should prefix ids so names are not read as keywords", () => {
+  const flow = {
+    startElementReference: "end",
+    assignments: [assignment("end").connectTo("graph").build()],
+    decisions: [decision("graph").build()],
+  } as unknown as Flow;
+
+  assertEquals(
+    toMermaid(flow),
+    [
+      "flowchart TB",
+      '    n__Start(["Start"])',
+      '    n_graph{"graph"}',
+      '    n_end["end"]',
+      "    n__Start --> n_end",
+      "    n_end --> n_graph",
+    ].join("\n"),
+  );
+});
@@ -0,0 +1,158 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { diffFlows, formatFlowDiff, isEmptyDiff } from "../lib/diff.ts";
+import { assignment, condition, decision } from "../lib/builders.ts";
+import { parse } from "../lib/flow.ts";
+import { sampleFlowXml } from "./mock/flow.mock.ts";
+
+// Helper function to create a flow that can be modified in tests
+function createFlow(): Flow {
+  return {
+    label: "Sample",
+    status: "Draft",
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: { targetReference: "Check", processMetadataValues: [] },
+    },
+    decisions: [
+      decision("Check")
+        .rule("Is_Big", condition("amount", "GreaterThan", 100), {
+          target: "Big",
+        })
+        .rule("Is_Small", condition("amount", "LessThan", 10), {
+          target: "Small",
+        })
+        .defaultTo("Small")
+        .build(),
+    ],
+    assignments: [
+      assignment("Big").assign("size", "big").build(),
+      assignment("Small").assign("size", "small").build(),
+    ],
+    variables: [{ name: "size", dataType: "String" }],
+  } as unknown as Flow;
+}
+
+Deno.test("diffFlows should ignore reordering and locations", () => {
+  const before = createFlow();
+  const after = createFlow();
+  after.assignments.reverse();
+  after.decisions[0].locationX = 500;
+
+  assertEquals(isEmptyDiff(diffFlows(before, after)), true);
+  assertEquals(
+    diffFlows(before, after, { includeLocation: true }).elements[0]
+      .properties,
+    [{ path: "locationX", before: 0, after: 500 }],
+  );
+  assertEquals(
+    isEmptyDiff(diffFlows(parse(sampleFlowXml), parse(sampleFlowXml))),
+    true,
+  );
+});
+
+Deno.test("diffFlows should report reordered rules", () => {
+  const before = createFlow();
+  const after = createFlow();
+  after.decisions[0].rules.reverse();
+
+  assertEquals(diffFlows(before, after).elements, [{
+    collection: "decisions",
+    name: "Check",
+    type: "changed",
+    connectors: [],
+    properties: [{
+      path: "rules",
+      before: ["Is_Big", "Is_Small"],
+      after: ["Is_Small", "Is_Big"],
+    }],
+  }]);
+
+  after.decisions[0].rules.push({
+    ...after.decisions[0].rules[0],
+    name: "New",
+  });
+  after.decisions[0].rules.reverse();
+  assertEquals(
+    diffFlows(before, after).elements[0].properties.map((change) =>
+      change.path
+    ),
+    ["rules[New]"],
+  );
+});
+
+Deno.test("diffFlows should report added, removed and changed elements", () => {
+  const before = createFlow();
+  const after = createFlow();
+  after.status = "Active";
+  after.assignments = [
+    after.assignments[0],
+    assignment("Medium").assign("size", "medium").build(),
+  ];
+  after.decisions[0].rules[1].connector!.targetReference = "Medium";
+  after.decisions[0].rules[0].conditions[0].rightValue = { numberValue: 1000 };
+  after.variables[0].description = "Size of the amount";
+
+  const diff = diffFlows(before, after);
+
+  assertEquals(diff.properties, [
+    { path: "status", before: "Draft", after: "Active" },
+  ]);
+  assertEquals(
+    diff.elements.map(({ collection, name, type }) => ({
+      collection,
+      name,
+      type,
+    })),
+    [
+      { collection: "decisions", name: "Check", type: "changed" },
+      { collection: "assignments", name: "Small", type: "removed" },
+      { collection: "assignments", name: "Medium", type: "added" },
+      { collection: "variables", name: "size", type: "changed" },
+    ],
+  );
+  assertEquals(diff.elements[0].connectors, [
+    {
+      element: "Check",
+      kind: "rule",
+      path: "rules[1].connector",
+      from: "Small",
+      to: "Medium",
+    },
+  ]);
+  assertEquals(diff.elements[0].properties, [
+    {
+      path: "rules[Is_Big].conditions[0].rightValue.numberValue",
+      before: 100,
+      after: 1000,
+    },
+  ]);
+  assertEquals(diff.elements[3].properties, [
+    { path: "description", after: "Size of the amount" },
+  ]);
+});
+
+Deno.test("formatFlowDiff should render a Markdown summary", () => {
+  const before = createFlow();
+  const after = createFlow();
+  after.label = "Renamed";
+  after.assignments.pop();
+  after.start!.connector!.targetReference = "Big";
+
+  assertEquals(
+    formatFlowDiff(diffFlows(before, after)),
+    [
+      "### Flow properties",
+      "- label: `Sample` → `Renamed`",
+      "",
+      "### Removed",
+      "- `assignments` **Small**",
+      "",
+      "### Changed",
+      "- `start` **$Start**",
+      "  - connector `connector` connector: `Check` → `Big`",
+    ].join("\n"),
+  );
+  assertEquals(formatFlowDiff(diffFlows(before, before)), "No changes");
+});
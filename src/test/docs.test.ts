@@ -0,0 +1,227 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { documentFlow } from "../lib/docs.ts";
+import { parse } from "../lib/flow.ts";
+import {
+  actionCall,
+  condition,
+  decision,
+  recordLookup,
+  recordUpdate,
+  ref,
+  subflow,
+} from "../lib/builders.ts";
+import { flowSingleDecision } from "./mock/flow.mock.ts";
+
+// Helper function to create a record-triggered flow with dependencies
+function createFlow(): Flow {
+  return {
+    label: "Account Sync",
+    description: "Keeps accounts in sync",
+    processType: "AutoLaunchedFlow",
+    apiVersion: "60.0",
+    status: "Active",
+    start: {
+      locationX: 0,
+      locationY: 0,
+      object: "Account",
+      triggerType: "RecordAfterSave",
+      recordTriggerType: "Update",
+      filterLogic: "and",
+      filters: [
+        {
+          field: "Type",
+          operator: "EqualTo",
+          value: { stringValue: "Customer" },
+        },
+      ],
+      connector: { targetReference: "Get_Owner", processMetadataValues: [] },
+    },
+    variables: [
+      { name: "recordId", dataType: "String", isInput: "true" },
+      {
+        name: "result",
+        dataType: "SObject",
+        objectType: "Account",
+        isOutput: "true",
+        description: "Updated account",
+      },
+      { name: "internal", dataType: "Number" },
+    ],
+    recordLookups: [
+      recordLookup("Get_Owner", "User")
+        .filter("Id", "EqualTo", ref("$Record.OwnerId"))
+        .connectTo("Check")
+        .build(),
+    ],
+    decisions: [
+      decision("Check")
+        .label("Check Region")
+        .rule(
+          "Is_Europe",
+          [
+            condition("$Record.Region__c", "EqualTo", "EU"),
+            condition("Get_Owner.IsActive", "EqualTo", true),
+            condition("$Record.Amount", "GreaterThan", 100),
+          ],
+          { label: "Europe", conditionLogic: "1 AND (2 OR 3)", target: "Save" },
+        )
+        .defaultTo("Notify", "Elsewhere")
+        .build(),
+    ],
+    recordUpdates: [
+      recordUpdate("Save").inputReference("$Record").faultTo("Notify")
+        .build(),
+    ],
+    actionCalls: [
+      actionCall("Notify", "SlackNotifier", "apex").build(),
+    ],
+    subflows: [
+      subflow("Audit", "Audit_Log").build(),
+    ],
+  } as unknown as Flow;
+}
+
+Deno.test("documentFlow should describe metadata, variables, elements and dependencies", () => {
+  assertEquals(
+    documentFlow(createFlow()),
+    [
+      "# Account Sync",
+      "",
+      "Keeps accounts in sync",
+      "",
+      "## Metadata",
+      "",
+      "| Property | Value |",
+      "| --- | --- |",
+      "| Label | Account Sync |",
+      "| Process Type | AutoLaunchedFlow |",
+      "| API Version | 60.0 |",
+      "| Status | Active |",
+      "| Trigger Type | RecordAfterSave |",
+      "| Record Trigger | Update |",
+      "| Object | Account |",
+      "| Entry Conditions | `Type = 'Customer'` |",
+      "",
+      "## Variables",
+      "",
+      "### Input",
+      "",
+      "| Name | Type | Collection | Description |",
+      "| --- | --- | --- | --- |",
+      "| `recordId` | String | No |  |",
+      "",
+      "### Output",
+      "",
+      "| Name | Type | Collection | Description |",
+      "| --- | --- | --- | --- |",
+      "| `result` | SObject (Account) | No | Updated account |",
+      "",
+      "## Elements",
+      "",
+      "### 1. Start",
+      "",
+      "*Start*",
+      "",
+      "- → `Get_Owner`",
+      "",
+      "### 2. Get Owner (`Get_Owner`)",
+      "",
+      "*Get Records*",
+      "",
+      "- Object: `User`",
+      "- Filter: `Id = $Record.OwnerId`",
+      "",
+      "- → `Check`",
+      "",
+      "### 3. Check Region (`Check`)",
+      "",
+      "*Decision*",
+      "",
+      "- **Europe**: `$Record.Region__c = 'EU' AND (Get_Owner.IsActive = true OR $Record.Amount > 100)`",
+      "",
+      "- Europe → `Save`",
+      "- Elsewhere → `Notify`",
+      "",
+      "### 4. Save (`Save`)",
+      "",
+      "*Update Records*",
+      "",
+      "- Records: `$Record`",
+      "",
+      "- Fault → `Notify`",
+      "",
+      "### 5. Notify (`Notify`)",
+      "",
+      "*Action*",
+      "",
+      "- Action: `SlackNotifier` (apex)",
+      "",
+      "### 6. Audit (`Audit`)",
+      "",
+      "*Subflow*",
+      "",
+      "- Flow: `Audit_Log`",
+      "",
+      "## Dependencies",
+      "",
+      "### Subflows",
+      "",
+      "- `Audit_Log`",
+      "",
+      "### Apex",
+      "",
+      "- `SlackNotifier`",
+      "",
+      "### Objects",
+      "",
+      "- `Account` (trigger)",
+      "- `User` (read)",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("documentFlow should render conditions of parsed flows", () => {
+  const markdown = documentFlow(parse(flowSingleDecision));
+
+  assertStringIncludes(
+    markdown,
+    "- **YES**: `Bypass_Logic.Should_Run = true`",
+  );
+  assertStringIncludes(markdown, "- YES → `Send_Voucher`");
+});
+
+Deno.test("documentFlow should write parsed values as the Metadata API does", () => {
+  const markdown = documentFlow(parse(`<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+    <apiVersion>58.0</apiVersion>
+    <label>Nightly</label>
+    <processType>AutoLaunchedFlow</processType>
+    <start>
+        <locationX>50</locationX>
+        <locationY>0</locationY>
+        <schedule>
+            <frequency>Daily</frequency>
+            <startDate>2024-01-31</startDate>
+            <startTime>10:00:00.000Z</startTime>
+        </schedule>
+        <triggerType>Scheduled</triggerType>
+    </start>
+    <status>Active</status>
+</Flow>
+`));
+
+  assertStringIncludes(markdown, "| API Version | 58.0 |");
+  assertStringIncludes(
+    markdown,
+    "| Schedule | Daily 2024-01-31 10:00:00.000Z |",
+  );
+});
+
+Deno.test("documentFlow should handle flows without variables and dependencies", () => {
+  const markdown = documentFlow({ label: "Empty" } as unknown as Flow);
+
+  assertStringIncludes(markdown, "No input or output variables.");
+  assertStringIncludes(markdown, "No dependencies.");
+});
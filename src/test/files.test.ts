@@ -0,0 +1,108 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  collectFlowFiles,
+  globToRegExp,
+  isFlowFile,
+  isGlob,
+} from "../lib/files.ts";
+
+// Helper function to create a directory tree with the given files
+function createTempTree(files: string[]): string {
+  const tempDir = Deno.makeTempDirSync();
+  files.forEach((file) => {
+    const path = `${tempDir}/${file}`;
+    Deno.mkdirSync(path.substring(0, path.lastIndexOf("/")), {
+      recursive: true,
+    });
+    Deno.writeTextFileSync(path, "");
+  });
+  return tempDir;
+}
+
+Deno.test("isFlowFile should recognise flow file suffixes", () => {
+  assertEquals(isFlowFile("flows/My_Flow.flow-meta.xml"), true);
+  assertEquals(isFlowFile("My_Flow.flow"), true);
+  assertEquals(isFlowFile("My_Flow.xml"), false);
+  assertEquals(isFlowFile("README.md"), false);
+});
+
+Deno.test("isGlob should detect glob syntax", () => {
+  assertEquals(isGlob("flows/*.flow-meta.xml"), true);
+  assertEquals(isGlob("flows/{a,b}.flow"), true);
+  assertEquals(isGlob("flows/My_Flow.flow-meta.xml"), false);
+});
+
+Deno.test("globToRegExp should match single and double star patterns", () => {
+  const single = globToRegExp("flows/*.flow-meta.xml");
+  assertEquals(single.test("flows/A.flow-meta.xml"), true);
+  assertEquals(single.test("flows/sub/A.flow-meta.xml"), false);
+  assertEquals(single.test("flowsXA.flow-meta.xml"), false);
+
+  const double = globToRegExp("force-app/**/*.flow-meta.xml");
+  assertEquals(double.test("force-app/A.flow-meta.xml"), true);
+  assertEquals(
+    double.test("force-app/main/default/flows/A.flow-meta.xml"),
+    true,
+  );
+  assertEquals(double.test("other/A.flow-meta.xml"), false);
+});
+
+Deno.test("globToRegExp should support alternatives and character classes", () => {
+  const alternatives = globToRegExp("flows/{A,B}.flow");
+  assertEquals(alternatives.test("flows/A.flow"), true);
+  assertEquals(alternatives.test("flows/B.flow"), true);
+  assertEquals(alternatives.test("flows/C.flow"), false);
+
+  const characterClass = globToRegExp("flows/[!A]?.flow");
+  assertEquals(characterClass.test("flows/B1.flow"), true);
+  assertEquals(characterClass.test("flows/A1.flow"), false);
+});
+
+Deno.test("collectFlowFiles should scan directories recursively", () => {
+  const tempDir = createTempTree([
+    "flows/A.flow-meta.xml",
+    "flows/nested/B.flow-meta.xml",
+    "flows/readme.md",
+    "flows/node_modules/C.flow-meta.xml",
+    "legacy/D.flow",
+  ]);
+  try {
+    assertEquals(collectFlowFiles([tempDir]), [
+      `${tempDir}/flows/A.flow-meta.xml`,
+      `${tempDir}/flows/nested/B.flow-meta.xml`,
+      `${tempDir}/legacy/D.flow`,
+    ]);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("collectFlowFiles should expand globs and deduplicate results", () => {
+  const tempDir = createTempTree([
+    "flows/A.flow-meta.xml",
+    "flows/nested/B.flow-meta.xml",
+    "flows/other.xml",
+  ]);
+  try {
+    assertEquals(
+      collectFlowFiles([
+        `${tempDir}/flows/*.xml`,
+        `${tempDir}/flows/A.flow-meta.xml`,
+      ]),
+      [`${tempDir}/flows/A.flow-meta.xml`, `${tempDir}/flows/other.xml`],
+    );
+    assertEquals(collectFlowFiles([`${tempDir}/**/B.flow-meta.xml`]), [
+      `${tempDir}/flows/nested/B.flow-meta.xml`,
+    ]);
+  } finally {
+    Deno.removeSync(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("collectFlowFiles should throw for missing paths", () => {
+  assertThrows(
+    () => collectFlowFiles(["/non/existent/file.flow-meta.xml"]),
+    Error,
+    "File not found",
+  );
+});
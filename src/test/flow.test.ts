@@ -57,6 +57,96 @@ Deno.test("big flow won't change after parsing and stringigying", () => {
   assertEquals(xml, bigFlow);
 });
 
+Deno.test("parse function should type values by their declared metadata type", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+    <apiVersion>60.0</apiVersion>
+    <constants>
+        <name>Code</name>
+        <dataType>String</dataType>
+        <value>
+            <stringValue>00123</stringValue>
+        </value>
+    </constants>
+    <constants>
+        <name>Flag</name>
+        <dataType>String</dataType>
+        <value>
+            <stringValue>true</stringValue>
+        </value>
+    </constants>
+    <constants>
+        <name>Limit</name>
+        <dataType>Number</dataType>
+        <value>
+            <numberValue>5.0</numberValue>
+        </value>
+    </constants>
+    <label>Typed</label>
+    <status>Draft</status>
+    <variables>
+        <name>items</name>
+        <dataType>String</dataType>
+        <isCollection>true</isCollection>
+        <isInput>false</isInput>
+        <isOutput>false</isOutput>
+    </variables>
+</Flow>
+`;
+
+  const flow = parse(xml);
+  assertEquals(flow.apiVersion, 60);
+  assertEquals(flow.constants.map((constant) => constant.value?.stringValue ?? constant.value?.numberValue), [
+    "00123",
+    "true",
+    5,
+  ]);
+  assertEquals(flow.variables[0].isCollection, true);
+  assertEquals(flow.variables[0].isInput, false);
+  assertEquals(stringify(flow), xml);
+});
+
+Deno.test("parse function should read dates and times as Date values", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+    <apiVersion>60.0</apiVersion>
+    <constants>
+        <name>Deadline</name>
+        <dataType>DateTime</dataType>
+        <value>
+            <dateTimeValue>2024-01-31T10:30:00.000Z</dateTimeValue>
+        </value>
+    </constants>
+    <constants>
+        <name>Due</name>
+        <dataType>Date</dataType>
+        <value>
+            <dateValue>2024-01-31</dateValue>
+        </value>
+    </constants>
+    <label>Dated</label>
+    <start>
+        <locationX>50</locationX>
+        <locationY>0</locationY>
+        <schedule>
+            <frequency>Daily</frequency>
+            <startDate>2024-02-01</startDate>
+            <startTime>06:00:00.000Z</startTime>
+        </schedule>
+        <triggerType>Scheduled</triggerType>
+    </start>
+    <status>Draft</status>
+</Flow>
+`;
+
+  const flow = parse(xml);
+  assertEquals(flow.constants[0].value?.dateTimeValue, new Date("2024-01-31T10:30:00.000Z"));
+  assertEquals(flow.constants[1].value?.dateValue, new Date("2024-01-31T00:00:00.000Z"));
+  assertEquals(flow.start?.schedule?.startDate, new Date("2024-02-01T00:00:00.000Z"));
+  assertEquals(flow.start?.schedule?.startTime, new Date("1970-01-01T06:00:00.000Z"));
+  assertEquals(stringify(flow), xml);
+});
+
 // Test for parse function
 Deno.test("parsed flow should adhere to types", () => {
   const flow = parse(flowSingleDecision);
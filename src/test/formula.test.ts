@@ -0,0 +1,115 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  evaluateFormula,
+  parseFormula,
+  rewriteFormulaReferences,
+  tokenizeFormula,
+} from "../lib/formula.ts";
+
+Deno.test("tokenizeFormula should split a formula into positioned tokens", () => {
+  const { tokens, errors } = tokenizeFormula("LEN({! Name }) >= 3 /* min */");
+
+  assertEquals(errors, []);
+  assertEquals(tokens, [
+    { type: "function", value: "LEN", start: 0, end: 3 },
+    { type: "(", value: "(", start: 3, end: 4 },
+    { type: "reference", value: "Name", start: 4, end: 13 },
+    { type: ")", value: ")", start: 13, end: 14 },
+    { type: "operator", value: ">=", start: 15, end: 17 },
+    { type: "number", value: "3", start: 18, end: 19 },
+  ]);
+});
+
+Deno.test("parseFormula should extract references, functions and literals", () => {
+  const parsed = parseFormula(
+    'IF({!Amount} > 100.5 && NOT(ISBLANK({!$Record.Name})), "Big {!Amount}", null) & {!Amount}',
+  );
+
+  assertEquals(parsed.errors, []);
+  assertEquals(parsed.references, ["Amount", "$Record.Name"]);
+  assertEquals(parsed.functions, ["IF", "NOT", "ISBLANK"]);
+  assertEquals(parsed.literals, [
+    { type: "number", value: "100.5" },
+    { type: "string", value: "Big {!Amount}" },
+    { type: "null", value: "null" },
+  ]);
+});
+
+Deno.test("parseFormula should report syntax errors with positions", () => {
+  assertEquals(parseFormula("IF({!A}, 1").errors, [
+    { position: 10, message: "Expected ) or ,, found end" },
+  ]);
+  assertEquals(parseFormula("{!A} + * 2").errors, [
+    { position: 7, message: "Expected a value, found *" },
+  ]);
+  assertEquals(parseFormula("({!A} 2)").errors, [
+    { position: 6, message: "Expected ), found 2" },
+  ]);
+  assertEquals(parseFormula("Amount > 1").errors, [
+    {
+      position: 0,
+      message:
+        "Unknown identifier Amount, references must be written as {!Amount}",
+    },
+  ]);
+  assertEquals(parseFormula("'open & {!A} # 1").errors, [
+    { position: 0, message: "Unterminated string" },
+  ]);
+  assertEquals(parseFormula("{!A} # 1").errors, [
+    { position: 5, message: "Unexpected character #" },
+  ]);
+});
+
+Deno.test("rewriteFormulaReferences should only rewrite references", () => {
+  assertEquals(
+    rewriteFormulaReferences(
+      '{!old} & "{!old}" & {! old.Name } & {!older}',
+      (reference) =>
+        reference.split(".")[0] === "old"
+          ? reference.replace("old", "new")
+          : undefined,
+    ),
+    '{!new} & "{!old}" & {! new.Name } & {!older}',
+  );
+});
+
+Deno.test("evaluateFormula should evaluate operators and functions", () => {
+  const values: Record<string, unknown> = {
+    Amount: "200",
+    "Account.Name": "Acme",
+    Discount: null,
+  };
+  const resolve = (reference: string) => values[reference];
+
+  assertEquals(evaluateFormula("{!Amount} * 0.1 + 2 ^ 2", resolve), 24);
+  assertEquals(
+    evaluateFormula('IF({!Amount} > 100, "Large", "Small")', resolve),
+    "Large",
+  );
+  assertEquals(
+    evaluateFormula('UPPER(LEFT({!Account.Name}, 2)) & "-" & TEXT(1)', resolve),
+    "AC-1",
+  );
+  assertEquals(evaluateFormula("BLANKVALUE({!Discount}, 5)", resolve), 5);
+  assertEquals(
+    evaluateFormula("ISBLANK({!Discount}) && NOT(false)", resolve),
+    true,
+  );
+  assertEquals(
+    evaluateFormula('CASE({!Account.Name}, "Acme", 1, 0)', resolve),
+    1,
+  );
+});
+
+Deno.test("evaluateFormula should reject invalid and unsupported formulas", () => {
+  assertThrows(
+    () => evaluateFormula("1 +", () => null),
+    Error,
+    "Invalid formula at position",
+  );
+  assertThrows(
+    () => evaluateFormula("GEOLOCATION(1, 2)", () => null),
+    Error,
+    "Unsupported formula function: GEOLOCATION",
+  );
+});
@@ -0,0 +1,168 @@
+import { assertEquals, assertExists } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { FlowGraph } from "../lib/graph.ts";
+import { START_NODE_NAME } from "../lib/constants.ts";
+import { parse } from "../lib/flow.ts";
+import { flowSingleDecision } from "./mock/flow.mock.ts";
+
+// Helper function to create a connector
+function connectTo(targetReference: string) {
+  return { targetReference, processMetadataValues: [] };
+}
+
+// Flow with a decision, a loop and a record lookup with a fault path
+function createMockFlow(): Flow {
+  return {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: connectTo("Check"),
+      scheduledPaths: [
+        { name: "Later", connector: connectTo("Notify") },
+      ],
+    },
+    decisions: [
+      {
+        name: "Check",
+        label: "Check",
+        locationX: 0,
+        locationY: 100,
+        processMetadataValues: [],
+        defaultConnector: connectTo("Lookup"),
+        defaultConnectorLabel: "Default",
+        rules: [
+          {
+            name: "Yes",
+            label: "Yes",
+            conditionLogic: "and",
+            conditions: [],
+            connector: connectTo("Each_Item"),
+          },
+        ],
+      },
+    ],
+    loops: [
+      {
+        name: "Each_Item",
+        label: "Each Item",
+        locationX: 0,
+        locationY: 200,
+        processMetadataValues: [],
+        nextValueConnector: connectTo("Notify"),
+        noMoreValuesConnector: connectTo("Lookup"),
+      },
+    ],
+    recordLookups: [
+      {
+        name: "Lookup",
+        label: "Lookup",
+        locationX: 0,
+        locationY: 300,
+        processMetadataValues: [],
+        filters: [],
+        outputAssignments: [],
+        queriedFields: [],
+        faultConnector: connectTo("Notify"),
+      },
+    ],
+    actionCalls: [
+      {
+        name: "Notify",
+        label: "Notify",
+        locationX: 0,
+        locationY: 400,
+        processMetadataValues: [],
+        dataTypeMappings: [],
+        inputParameters: [],
+        outputParameters: [],
+        connector: connectTo("Each_Item"),
+      },
+    ],
+  } as unknown as Flow;
+}
+
+Deno.test("FlowGraph should index all nodes by name", () => {
+  const graph = new FlowGraph(createMockFlow());
+
+  assertEquals(graph.nodeNames, [
+    START_NODE_NAME,
+    "Check",
+    "Notify",
+    "Each_Item",
+    "Lookup",
+  ]);
+  assertEquals(graph.entryPoint, START_NODE_NAME);
+  assertEquals(graph.hasNode("Check"), true);
+  assertEquals(graph.hasNode("Missing"), false);
+  assertEquals(graph.getNode("Lookup")?.label, "Lookup");
+  assertEquals(graph.getLocation("Each_Item"), {
+    collection: "loops",
+    index: 0,
+    path: "loops[0]",
+  });
+});
+
+Deno.test("FlowGraph should expose typed edges", () => {
+  const graph = new FlowGraph(createMockFlow());
+
+  const fromCheck = graph.edgesFrom("Check");
+  assertEquals(fromCheck.length, 2);
+  assertEquals(fromCheck[0].kind, "default");
+  assertEquals(fromCheck[0].target, "Lookup");
+  assertEquals(fromCheck[0].path, "decisions[0].defaultConnector");
+  assertEquals(fromCheck[1].kind, "rule");
+  assertEquals(fromCheck[1].branch, "Yes");
+  assertEquals(fromCheck[1].path, "decisions[0].rules[0].connector");
+
+  const kinds = graph.edges.map((edge) => edge.kind);
+  assertEquals(kinds, [
+    "connector",
+    "scheduledPath",
+    "default",
+    "rule",
+    "connector",
+    "nextValue",
+    "noMoreValues",
+    "fault",
+  ]);
+});
+
+Deno.test("FlowGraph should answer successor and predecessor queries", () => {
+  const graph = new FlowGraph(createMockFlow());
+
+  assertEquals(graph.successors(START_NODE_NAME), ["Check", "Notify"]);
+  assertEquals(graph.successors("Each_Item"), ["Notify", "Lookup"]);
+  assertEquals(graph.predecessors("Notify"), [
+    START_NODE_NAME,
+    "Each_Item",
+    "Lookup",
+  ]);
+  assertEquals(graph.predecessors("Lookup"), ["Check", "Each_Item"]);
+  assertEquals(graph.edgesTo("Each_Item").map((edge) => edge.kind), [
+    "rule",
+    "connector",
+  ]);
+  assertEquals(graph.successors("Missing"), []);
+  assertEquals(graph.predecessors(START_NODE_NAME), []);
+});
+
+Deno.test("FlowGraph should index edges to missing nodes", () => {
+  const graph = new FlowGraph(parse(flowSingleDecision));
+
+  assertEquals(graph.hasNode("Send_Voucher"), false);
+  const edges = graph.edgesTo("Send_Voucher");
+  assertEquals(edges.length, 1);
+  assertEquals(edges[0].source, "Run");
+  assertEquals(edges[0].branch, "YESrun");
+});
+
+Deno.test("FlowGraph should fall back to startElementReference", () => {
+  const flow = createMockFlow();
+  delete (flow as Partial<Flow>).start;
+  flow.startElementReference = "Check";
+
+  const graph = new FlowGraph(flow);
+  assertEquals(graph.entryPoint, "Check");
+  assertExists(graph.getNode("Check"));
+  assertEquals(graph.hasNode(START_NODE_NAME), false);
+});
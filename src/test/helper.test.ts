@@ -1,5 +1,5 @@
 import {assertEquals} from "@std/assert";
-import {ensureArray, processNestedArrays, sortByName, sortFlowArrays} from "../lib/helper.ts";
+import {ensureArray, ensureArrayProperties, findArrayConfigDrift, normalizeArrays, orderFlowProperties, orderProperties, processNestedArrays, sortByName, sortFlowArrays, sortNestedArrays} from "../lib/helper.ts";
 
 // Use any type for test objects to avoid TypeScript errors
 type TestObj = any;
@@ -562,6 +562,64 @@ Deno.test("processNestedArrays should handle complex nested structures", () => {
   );
 });
 
+// Test for normalizeArrays function
+Deno.test("normalizeArrays should wrap single values of every schema array", () => {
+  const screen: TestObj = {
+    name: "Form",
+    fields: {
+      name: "Email",
+      visibilityRule: {
+        conditionLogic: "and",
+        conditions: { leftValueReference: "show", operator: "EqualTo" },
+      },
+      fields: { name: "Nested", choiceReferences: "Choice" },
+    },
+  };
+
+  normalizeArrays(screen, "FlowScreen");
+
+  assertEquals(screen.fields[0].visibilityRule.conditions, [{ leftValueReference: "show", operator: "EqualTo" }]);
+  assertEquals(screen.fields[0].fields[0].choiceReferences, ["Choice"]);
+  assertEquals(Array.isArray(screen.fields[0].visibilityRule), false);
+  assertEquals("rules" in screen, false);
+});
+
+Deno.test("ensureArrayProperties should normalize arrays missing from the configuration", () => {
+  const flow: TestObj = {
+    loops: { name: "Loop", processMetadataValues: { name: "Origin" } },
+    waits: [{ name: "Wait", waitEvents: [{ name: "Event", outputParameters: { name: "out" } }] }],
+  };
+
+  ensureArrayProperties(flow);
+
+  assertEquals(flow.loops[0].processMetadataValues, [{ name: "Origin" }]);
+  assertEquals(flow.waits[0].waitEvents[0].outputParameters, [{ name: "out" }]);
+});
+
+// Test for findArrayConfigDrift function
+Deno.test("findArrayConfigDrift should report differences from the schema", () => {
+  assertEquals(findArrayConfigDrift(), []);
+
+  assertEquals(findArrayConfigDrift(
+    {
+      decisions: { childArrays: ["rules", "outcomes"] },
+      start: { childArrays: ["filters"] },
+      screens: { childArrays: [], nestedConfig: { fields: { childArrays: ["visibilityRule"] } } },
+    },
+    ["decisions", "screens", "start"],
+  ), [
+    ...[
+      "actionCalls", "apexPluginCalls", "assignments", "choices", "collectionProcessors", "constants",
+      "customErrors", "dynamicChoiceSets", "environments", "formulas", "loops", "orchestratedStages",
+      "processMetadataValues", "recordCreates", "recordDeletes", "recordLookups", "recordRollbacks",
+      "recordUpdates", "stages", "steps", "subflows", "textTemplates", "transforms", "variables", "waits",
+    ].map((prop) => `FLOW_ARRAY_PROPERTIES misses the Flow array ${prop}`),
+    "FLOW_ARRAY_PROPERTIES lists start, which is not a Flow array",
+    "NESTED_ARRAY_CONFIG path decisions.outcomes is not an array in the schema",
+    "NESTED_ARRAY_CONFIG path screens.fields.visibilityRule is not an array in the schema",
+  ]);
+});
+
 // Test for sortByName function
 Deno.test("sortByName should sort array by name property", () => {
   const arr = [
@@ -644,4 +702,98 @@ Deno.test("sortFlowArrays should handle null or undefined flow", () => {
   // Test with empty object
   const emptyFlow = {};
   assertEquals(sortFlowArrays(emptyFlow as any), emptyFlow);
-});
\ No newline at end of file
+});
+
+Deno.test("sortFlowArrays should sort nested arrays by their policy", () => {
+  const flow: TestObj = {
+    decisions: [{
+      name: "Check",
+      processMetadataValues: [{ name: "b" }, { name: "a" }],
+      rules: [
+        { name: "Second", conditions: [{ leftValueReference: "y" }, { leftValueReference: "x" }] },
+        { name: "First", conditions: [] },
+      ],
+    }],
+    recordCreates: [{
+      name: "Create",
+      inputAssignments: [{ field: "Name" }, { field: "AccountId" }],
+    }],
+    screens: [{ name: "Form", fields: [{ name: "Z" }, { name: "A" }] }],
+  };
+
+  const sortedFlow = sortFlowArrays(flow) as TestObj;
+
+  assertEquals(sortedFlow.decisions[0].processMetadataValues, [{ name: "a" }, { name: "b" }]);
+  assertEquals(sortedFlow.decisions[0].rules.map((rule: TestObj) => rule.name), ["Second", "First"]);
+  assertEquals(sortedFlow.decisions[0].rules[0].conditions[0].leftValueReference, "y");
+  assertEquals(sortedFlow.recordCreates[0].inputAssignments, [{ field: "AccountId" }, { field: "Name" }]);
+  assertEquals(sortedFlow.screens[0].fields, [{ name: "Z" }, { name: "A" }]);
+  assertEquals(flow.decisions[0].processMetadataValues[0].name, "b");
+
+  const unsorted = sortFlowArrays(flow, {}) as TestObj;
+  assertEquals(unsorted.decisions[0].processMetadataValues, [{ name: "b" }, { name: "a" }]);
+});
+
+// Test for sortNestedArrays function
+Deno.test("sortNestedArrays should apply a custom policy at any depth", () => {
+  const node: TestObj = {
+    name: "Form",
+    fields: [{
+      name: "Section",
+      fields: [{ name: "B" }, { label: "unnamed" }, { name: "A" }],
+    }],
+  };
+
+  const sorted = sortNestedArrays(node, { fields: { ordered: false, keys: ["name"] } }) as TestObj;
+  assertEquals(sorted.fields[0].fields, [{ name: "A" }, { name: "B" }, { label: "unnamed" }]);
+  assertEquals(sortNestedArrays(node), node);
+  assertEquals(sortNestedArrays("text"), "text");
+});
+
+// Test for orderProperties function
+Deno.test("orderProperties should order properties like the Metadata API", () => {
+  const rule = {
+    label: "Yes",
+    connector: { targetReference: "Next" },
+    conditions: [{ rightValue: { booleanValue: true }, operator: "EqualTo", leftValueReference: "flag" }],
+    conditionLogic: "and",
+    name: "Yes",
+    customProperty: "kept",
+  };
+
+  const ordered = orderProperties(rule, "FlowRule") as TestObj;
+  assertEquals(Object.keys(ordered), ["name", "conditionLogic", "conditions", "connector", "label", "customProperty"]);
+  assertEquals(Object.keys(ordered.conditions[0]), ["leftValueReference", "operator", "rightValue"]);
+  assertEquals(Object.keys(rule)[0], "label");
+  assertEquals(orderProperties("text", "FlowRule"), "text");
+  assertEquals(orderProperties(rule, "UnknownType"), rule);
+});
+
+// Test for orderFlowProperties function
+Deno.test("orderFlowProperties should order the Flow and its elements", () => {
+  const flow: TestObj = {
+    "@xmlns": "http://soap.sforce.com/2006/04/metadata",
+    status: "Active",
+    label: "Test",
+    apiVersion: "60.0",
+    decisions: [{
+      rules: [],
+      locationY: 0,
+      locationX: 0,
+      label: "Check",
+      name: "Check",
+      processMetadataValues: [],
+    }],
+  };
+
+  const ordered = orderFlowProperties(flow) as TestObj;
+  assertEquals(Object.keys(ordered), ["@xmlns", "apiVersion", "decisions", "label", "status"]);
+  assertEquals(Object.keys(ordered.decisions[0]), [
+    "processMetadataValues",
+    "name",
+    "label",
+    "locationX",
+    "locationY",
+    "rules",
+  ]);
+});
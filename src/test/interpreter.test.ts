@@ -0,0 +1,279 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import {
+  compareCondition,
+  evaluateConditionLogic,
+  runFlow,
+} from "../lib/interpreter.ts";
+import {
+  actionCall,
+  assignment,
+  collectionProcessor,
+  condition,
+  connector,
+  customError,
+  decision,
+  loop,
+  ref,
+  screen,
+} from "../lib/builders.ts";
+
+// Helper function to create an autolaunched flow starting at the given node
+function createFlow(target: string, properties: Partial<Flow>): Flow {
+  return {
+    label: "Discounts",
+    processType: "AutoLaunchedFlow",
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: connector(target),
+    },
+    ...properties,
+  } as unknown as Flow;
+}
+
+Deno.test("runFlow should follow decisions and assignments", () => {
+  const flow = createFlow("Check_Amount", {
+    variables: [
+      { name: "amount", dataType: "Number", isInput: "true" },
+      { name: "discount", dataType: "Number", isOutput: "true" },
+    ],
+    formulas: [
+      { name: "tenPercent", dataType: "Number", expression: "{!amount} * 0.1" },
+    ],
+    decisions: [
+      decision("Check_Amount")
+        .rule("Large", condition("amount", "GreaterThan", 100), {
+          target: "Set_Discount",
+        })
+        .defaultTo("Set_None")
+        .build(),
+    ],
+    assignments: [
+      assignment("Set_Discount").assign("discount", ref("tenPercent")).build(),
+      assignment("Set_None").assign("discount", 0).build(),
+    ],
+  } as unknown as Partial<Flow>);
+
+  const large = runFlow(flow, { inputs: { amount: 500 } });
+  assertEquals(large.status, "completed");
+  assertEquals(large.outputs, { discount: 50 });
+  assertEquals(large.trace, [
+    {
+      element: "$Start",
+      collection: "start",
+      kind: "connector",
+      target: "Check_Amount",
+    },
+    {
+      element: "Check_Amount",
+      collection: "decisions",
+      kind: "rule",
+      branch: "Large",
+      target: "Set_Discount",
+    },
+    { element: "Set_Discount", collection: "assignments" },
+  ]);
+
+  const small = runFlow(flow, { inputs: { amount: "20" } });
+  assertEquals(small.outputs, { discount: 0 });
+  assertEquals(small.trace[1].kind, "default");
+});
+
+Deno.test("runFlow should iterate loops and process collections", () => {
+  const flow = createFlow("Filter_Open", {
+    variables: [
+      { name: "cases", dataType: "SObject", isCollection: "true" },
+      { name: "current", dataType: "SObject" },
+      { name: "subjects", dataType: "String", isCollection: "true" },
+      { name: "count", dataType: "Number", isOutput: "true" },
+    ],
+    collectionProcessors: [
+      collectionProcessor("Filter_Open", "FilterCollectionProcessor", "cases")
+        .condition(
+          condition("currentItem_Filter_Open.Status", "EqualTo", "Open"),
+        )
+        .connectTo("Sort_By_Priority")
+        .build(),
+      collectionProcessor(
+        "Sort_By_Priority",
+        "SortCollectionProcessor",
+        "Filter_Open",
+      ).sort("Priority", "Desc").connectTo("Each_Case").build(),
+    ],
+    loops: [
+      loop("Each_Case", "Sort_By_Priority")
+        .assignNextValueTo("current")
+        .eachTo("Collect")
+        .afterLastTo("Count")
+        .build(),
+    ],
+    assignments: [
+      assignment("Collect")
+        .assign("subjects", ref("current.Subject"), "Add")
+        .connectTo("Each_Case")
+        .build(),
+      assignment("Count").assign("count", ref("subjects"), "AssignCount")
+        .build(),
+    ],
+  } as unknown as Partial<Flow>);
+
+  const result = runFlow(flow, {
+    inputs: {
+      cases: [
+        { Subject: "A", Status: "Open", Priority: 1 },
+        { Subject: "B", Status: "Closed", Priority: 3 },
+        { Subject: "C", Status: "Open", Priority: 2 },
+      ],
+    },
+  });
+  assertEquals(result.status, "completed");
+  assertEquals(result.variables.subjects, ["C", "A"]);
+  assertEquals(result.outputs, { count: 2 });
+  assertEquals(
+    result.trace.filter((step) => step.element === "Each_Case")
+      .map((step) => step.kind),
+    ["nextValue", "nextValue", "noMoreValues"],
+  );
+});
+
+Deno.test("runFlow should call handlers and assign their outputs", () => {
+  const flow = createFlow("Send", {
+    variables: [
+      { name: "recordId", dataType: "String", isInput: "true" },
+      { name: "sent", dataType: "Boolean", isOutput: "true" },
+    ],
+    actionCalls: [
+      actionCall("Send", "SendMail", "apex")
+        .input("recordId", ref("recordId"))
+        .output("success", "sent")
+        .build(),
+    ],
+  } as unknown as Partial<Flow>);
+
+  const calls: Record<string, unknown>[] = [];
+  const result = runFlow(flow, {
+    inputs: { recordId: "001" },
+    handlers: {
+      actionCalls: (_, __, inputs) => {
+        calls.push(inputs);
+        return { success: true };
+      },
+    },
+  });
+  assertEquals(calls, [{ recordId: "001" }]);
+  assertEquals(result.outputs, { sent: true });
+
+  const missing = runFlow(flow);
+  assertEquals(missing.status, "failed");
+  assertEquals(
+    missing.error,
+    'Send: No handler for actionCalls element "Send"',
+  );
+});
+
+Deno.test("runFlow should take fault paths and fail on unhandled errors", () => {
+  const flow = createFlow("Send", {
+    variables: [{ name: "message", dataType: "String", isOutput: "true" }],
+    actionCalls: [
+      actionCall("Send", "SendMail", "apex").faultTo("Log").build(),
+    ],
+    assignments: [
+      assignment("Log")
+        .assign("message", "Failed: {!$Flow.FaultMessage}")
+        .connectTo("Stop")
+        .build(),
+    ],
+    customErrors: [customError("Stop").message("Could not send").build()],
+  } as unknown as Partial<Flow>);
+
+  const result = runFlow(flow, {
+    handlers: {
+      Send: () => {
+        throw new Error("Mail server down");
+      },
+    },
+  });
+  assertEquals(result.status, "failed");
+  assertEquals(result.error, "Stop: Could not send");
+  assertEquals(result.outputs, { message: "Failed: Mail server down" });
+  assertEquals(result.trace[1], {
+    element: "Send",
+    collection: "actionCalls",
+    kind: "fault",
+    target: "Log",
+  });
+});
+
+Deno.test("runFlow should stop endless loops and unsupported elements", () => {
+  const endless = createFlow("Again", {
+    assignments: [assignment("Again").connectTo("Again").build()],
+  } as unknown as Partial<Flow>);
+  const result = runFlow(endless, { maxSteps: 5 });
+  assertEquals(result.status, "failed");
+  assertEquals(result.error, "Maximum number of 5 steps exceeded");
+
+  const screenFlow = createFlow("Welcome", {
+    screens: [screen("Welcome").build()],
+  } as unknown as Partial<Flow>);
+  assertEquals(
+    runFlow(screenFlow).error,
+    'Welcome: No handler for screens element "Welcome"',
+  );
+  assertEquals(
+    runFlow(screenFlow, { handlers: { screens: () => {} } }).status,
+    "completed",
+  );
+});
+
+Deno.test("runFlow should compare $Record with $Record__Prior for IsChanged", () => {
+  const flow = createFlow("Changed", {
+    variables: [{ name: "changed", dataType: "Boolean", isOutput: "true" }],
+    decisions: [
+      decision("Changed")
+        .rule("Yes", condition("$Record.Status", "IsChanged", true), {
+          target: "Mark",
+        })
+        .build(),
+    ],
+    assignments: [assignment("Mark").assign("changed", true).build()],
+  } as unknown as Partial<Flow>);
+
+  const changed = runFlow(flow, {
+    inputs: { $Record: { Status: "New" }, $Record__Prior: { Status: "Old" } },
+  });
+  assertEquals(changed.outputs, { changed: true });
+
+  const unchanged = runFlow(flow, {
+    inputs: { $Record: { Status: "New" }, $Record__Prior: { Status: "New" } },
+  });
+  assertEquals(unchanged.outputs, { changed: null });
+});
+
+Deno.test("evaluateConditionLogic should combine condition results", () => {
+  assertEquals(evaluateConditionLogic("and", [true, false]), false);
+  assertEquals(evaluateConditionLogic("or", [true, false]), true);
+  assertEquals(evaluateConditionLogic(undefined, [true, true]), true);
+  assertEquals(
+    evaluateConditionLogic("1 AND (2 OR NOT 3)", [true, false, false]),
+    true,
+  );
+  assertThrows(
+    () => evaluateConditionLogic("1 AND 4", [true, true]),
+    Error,
+    "Invalid condition logic: 1 AND 4",
+  );
+});
+
+Deno.test("compareCondition should evaluate comparison operators", () => {
+  assertEquals(compareCondition("10", "GreaterThan", 9), true);
+  assertEquals(compareCondition("Acme", "StartsWith", "Ac"), true);
+  assertEquals(compareCondition("b", "In", ["a", "b"]), true);
+  assertEquals(compareCondition(null, "IsNull", true), true);
+  assertEquals(compareCondition("x", "IsNull", false), true);
+  assertThrows(
+    () => compareCondition(1, "IsChanged", true),
+    Error,
+    "Unsupported operator: IsChanged",
+  );
+});
@@ -0,0 +1,78 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { computeLayout, layoutFlow } from "../lib/layout.ts";
+import { assignment, loop } from "../lib/builders.ts";
+
+// Helper function to create a flow with a loop and a node after it
+function createLoopFlow(): Flow {
+  return {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: { targetReference: "Each_Item", processMetadataValues: [] },
+    },
+    loops: [
+      loop("Each_Item", "items").eachTo("Count").afterLastTo("Done").build(),
+    ],
+    assignments: [
+      assignment("Count").connectTo("Each_Item").build(),
+      assignment("Done").build(),
+      assignment("Orphan").build(),
+    ],
+  } as unknown as Flow;
+}
+
+Deno.test("computeLayout should layer nodes and ignore loop back edges", () => {
+  const positions = computeLayout(createLoopFlow());
+
+  assertEquals(Object.fromEntries(positions), {
+    $Start: { x: 50, y: 50 },
+    Each_Item: { x: 160, y: 200 },
+    Count: { x: 50, y: 350 },
+    Done: { x: 270, y: 350 },
+    Orphan: { x: 270, y: 50 },
+  });
+});
+
+Deno.test("computeLayout should apply spacing and origin options", () => {
+  const positions = computeLayout(createLoopFlow(), {
+    spacingX: 100,
+    spacingY: 80,
+    originX: 0,
+    originY: 0,
+  });
+
+  assertEquals(positions.get("Each_Item"), { x: 50, y: 80 });
+  assertEquals(positions.get("Done"), { x: 100, y: 160 });
+});
+
+Deno.test("layoutFlow should write coordinates to all nodes", () => {
+  const flow = createLoopFlow();
+
+  const positioned = layoutFlow(flow);
+
+  assertEquals(positioned, ["$Start", "Each_Item", "Count", "Done", "Orphan"]);
+  assertEquals(flow.start?.locationX, 50);
+  assertEquals(flow.loops[0].locationX, 160);
+  assertEquals(flow.loops[0].locationY, 200);
+  assertEquals(flow.assignments[1].locationY, 350);
+});
+
+Deno.test("layoutFlow should only position nodes without coordinates", () => {
+  const flow = createLoopFlow();
+  flow.start!.locationX = 500;
+  flow.start!.locationY = 20;
+  flow.loops[0].locationX = "600" as unknown as number;
+  flow.loops[0].locationY = "300" as unknown as number;
+  flow.assignments[2].locationX = 900;
+
+  const positioned = layoutFlow(flow, { onlyMissing: true });
+
+  assertEquals(positioned, ["Count", "Done"]);
+  assertEquals(flow.start?.locationX, 500);
+  assertEquals(flow.assignments[0].locationX, 490);
+  assertEquals(flow.assignments[0].locationY, 450);
+  assertEquals(flow.assignments[1].locationX, 710);
+  assertEquals(flow.assignments[1].locationY, 450);
+  assertEquals(flow.assignments[2].locationX, 900);
+});
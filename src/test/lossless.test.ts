@@ -0,0 +1,143 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { FlowDecision } from "@salesforce/types/metadata";
+import { parse, stringify } from "../lib/flow.ts";
+import { stringifyLossless } from "../lib/lossless.ts";
+import { bigFlow } from "./mock/flow.mock.ts";
+
+const annotatedFlowXml = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+    <!-- Maintained by the integration team -->
+    <label>Annotated</label>
+    <apiVersion>60.0</apiVersion>
+    <decisions>
+        <name>Second</name>
+        <label>Second</label>
+        <locationX>0</locationX>
+        <locationY>0</locationY>
+        <defaultConnectorLabel>Default</defaultConnectorLabel>
+        <rules>
+            <name>Yes</name>
+            <conditionLogic>and</conditionLogic>
+            <conditions>
+                <leftValueReference>flag</leftValueReference>
+                <operator>EqualTo</operator>
+                <rightValue><booleanValue>true</booleanValue></rightValue>
+            </conditions>
+            <label>Yes</label>
+        </rules>
+    </decisions>
+    <decisions>
+        <name>First</name>
+        <label>First</label>
+        <locationX>0</locationX>
+        <locationY>0</locationY>
+        <defaultConnectorLabel>Default</defaultConnectorLabel>
+        <rules>
+            <name>No</name>
+            <conditionLogic>and</conditionLogic>
+            <conditions>
+                <leftValueReference>flag</leftValueReference>
+                <operator>EqualTo</operator>
+                <rightValue><booleanValue>false</booleanValue></rightValue>
+            </conditions>
+            <label>No</label>
+        </rules>
+    </decisions>
+    <customFutureElement attribute="kept">value</customFutureElement>
+    <status>Draft</status>
+    <!-- End of flow -->
+</Flow>
+`;
+
+Deno.test("lossless stringify should reproduce unchanged XML byte-for-byte", () => {
+  assertEquals(stringify(parse(bigFlow, { lossless: true })), bigFlow);
+  assertEquals(
+    stringify(parse(annotatedFlowXml, { lossless: true })),
+    annotatedFlowXml,
+  );
+});
+
+Deno.test("lossless stringify should only re-emit changed elements", () => {
+  const flow = parse(annotatedFlowXml, { lossless: true });
+  flow.label = "Renamed";
+  (flow.decisions[1] as FlowDecision).label = "First Check";
+
+  const original = annotatedFlowXml.replace(
+    "<label>Annotated</label>",
+    "<label>Renamed</label>",
+  );
+  const xml = stringify(flow);
+  const start = original.indexOf("<decisions>\n        <name>First</name>");
+  const end = original.indexOf("</decisions>", start) + "</decisions>".length;
+  const tail = original.slice(end);
+
+  assertEquals(xml.slice(0, start), original.slice(0, start));
+  assertEquals(xml.slice(xml.length - tail.length), tail);
+  const decision = xml.slice(start, xml.length - tail.length);
+  assertEquals(decision.includes("<label>First Check</label>"), true);
+  assertEquals(decision.includes("<name>No</name>"), true);
+});
+
+Deno.test("lossless stringify should keep the text of numbers in changed elements", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+    <apiVersion>60.0</apiVersion>
+    <constants>
+        <description>Rate</description>
+        <name>Rate</name>
+        <dataType>Number</dataType>
+        <value>
+            <numberValue>1.50</numberValue>
+        </value>
+    </constants>
+    <label>Rates</label>
+    <status>Draft</status>
+</Flow>
+`;
+  const flow = parse(xml, { lossless: true });
+  flow.constants[0].description = "Discount rate";
+
+  assertEquals(
+    stringify(flow),
+    xml.replace("<description>Rate", "<description>Discount rate"),
+  );
+});
+
+Deno.test("lossless stringify should insert and remove elements in place", () => {
+  const flow = parse(annotatedFlowXml, { lossless: true });
+  flow.decisions = [flow.decisions[1], {
+    name: "Third",
+    label: "Third",
+    locationX: 0,
+    locationY: 0,
+    rules: [],
+  } as unknown as FlowDecision];
+  flow.description = "Added";
+  delete (flow as { status?: string }).status;
+
+  const xml = stringify(flow);
+  const tags = [...xml.matchAll(/^ {4}<(\w+)|^ {4}<!-- (\w+)/gm)].map((match) =>
+    match[1] ?? match[2]
+  );
+  assertEquals(tags, [
+    "Maintained",
+    "label",
+    "apiVersion",
+    "decisions",
+    "decisions",
+    "customFutureElement",
+    "description",
+    "End",
+  ]);
+  assertEquals(xml.includes("<name>Second</name>"), false);
+  assertEquals(xml.includes("        <name>Third</name>\n"), true);
+  assertEquals(xml.includes("<status>"), false);
+});
+
+Deno.test("stringifyLossless should reject flows parsed without lossless mode", () => {
+  assertThrows(
+    () => stringifyLossless(parse(annotatedFlowXml)),
+    Error,
+    "Flow was not parsed in lossless mode",
+  );
+});
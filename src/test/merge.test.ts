@@ -0,0 +1,94 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { mergeFlows } from "../lib/merge.ts";
+import { assignment, condition, decision } from "../lib/builders.ts";
+
+// Helper function to create the common base of a merge
+function createBase(): Flow {
+  return {
+    label: "Sample",
+    status: "Draft",
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: { targetReference: "Check", processMetadataValues: [] },
+    },
+    decisions: [
+      decision("Check")
+        .rule("Is_Big", condition("amount", "GreaterThan", 100), {
+          target: "Big",
+        })
+        .defaultTo("Small")
+        .build(),
+    ],
+    assignments: [
+      assignment("Big").assign("size", "big").build(),
+      assignment("Small").assign("size", "small").build(),
+    ],
+    variables: [{ name: "size", dataType: "String" }],
+  } as unknown as Flow;
+}
+
+Deno.test("mergeFlows should combine independent changes", () => {
+  const base = createBase();
+  const ours = createBase();
+  const theirs = createBase();
+  ours.assignments.push(assignment("Medium").assign("size", "medium").build());
+  ours.decisions[0].label = "Check Amount";
+  theirs.variables.push({ name: "amount", dataType: "Number" } as never);
+  theirs.decisions[0].rules[0].conditions[0].rightValue = { numberValue: 500 };
+  theirs.assignments = theirs.assignments.filter((a) => a.name !== "Small");
+  theirs.status = "Active";
+
+  const { flow, conflicts } = mergeFlows(base, ours, theirs);
+
+  assertEquals(conflicts, []);
+  assertEquals(flow.status, "Active");
+  assertEquals(flow.assignments.map((a) => a.name), ["Big", "Medium"]);
+  assertEquals(flow.variables.map((v) => v.name), ["size", "amount"]);
+  assertEquals(flow.decisions[0].label, "Check Amount");
+  assertEquals(flow.decisions[0].rules[0].conditions[0].rightValue, {
+    numberValue: 500,
+  });
+  assertEquals(base, createBase());
+});
+
+Deno.test("mergeFlows should report conflicting changes", () => {
+  const base = createBase();
+  const ours = createBase();
+  const theirs = createBase();
+  ours.decisions[0].rules[0].connector!.targetReference = "Small";
+  theirs.decisions[0].rules[0].connector!.targetReference = "Medium";
+  ours.assignments = ours.assignments.filter((a) => a.name !== "Big");
+  theirs.assignments[0].label = "Big Amount";
+  ours.variables.push({ name: "total", dataType: "Number" } as never);
+  theirs.variables.push({ name: "total", dataType: "Currency" } as never);
+
+  const { flow, conflicts } = mergeFlows(base, ours, theirs);
+
+  assertEquals(conflicts.map((conflict) => conflict.path), [
+    "decisions[Check].rules[Is_Big].connector.targetReference",
+    "assignments[Big]",
+    "variables[total]",
+  ]);
+  assertEquals(conflicts[0], {
+    path: "decisions[Check].rules[Is_Big].connector.targetReference",
+    base: "Big",
+    ours: "Small",
+    theirs: "Medium",
+  });
+  assertEquals(conflicts[1].ours, undefined);
+  assertEquals(
+    flow.decisions[0].rules[0].connector?.targetReference,
+    "Small",
+  );
+  assertEquals(flow.assignments.map((a) => a.name), ["Small"]);
+
+  const preferred = mergeFlows(base, ours, theirs, { prefer: "theirs" }).flow;
+  assertEquals(
+    preferred.decisions[0].rules[0].connector?.targetReference,
+    "Medium",
+  );
+  assertEquals(preferred.assignments.map((a) => a.name), ["Small", "Big"]);
+  assertEquals(preferred.assignments[1].label, "Big Amount");
+});
@@ -1,10 +1,16 @@
-import { assertEquals, assertExists } from "@std/assert";
-import { Flow, FlowConnector, FlowDecision, FlowNode, FlowRule, FlowStart, FlowScreen, FlowAssignment, FlowMetadataValue } from "@salesforce/types/metadata";
+import { assertEquals, assertExists, assertThrows } from "@std/assert";
+import { Flow, FlowConnector, FlowDecision, FlowNode, FlowRule, FlowStart, FlowScreen, FlowAssignment, FlowMetadataValue, FlowWaitEvent } from "@salesforce/types/metadata";
 import {
   getFlowNodes,
   findFlowNodeByName,
   getConnectors,
+  getTypedConnectors,
   findParentFlowNodes,
+  getPrimarySuccessor,
+  inferNodeCollection,
+  insertNodeAfter,
+  insertNodeBefore,
+  removeNode,
   reparentNode
 } from "../lib/nodes.ts";
 import { BaseFlowNodeWithConnector } from "../lib/types.ts";
@@ -246,6 +252,72 @@ Deno.test("getConnectors should handle null/undefined connectors", () => {
   assertEquals(connectors[0].targetReference, "Target1");
 });
 
+// Test for getTypedConnectors function
+Deno.test("getTypedConnectors should return kind, path and branch of connectors", () => {
+  const mockNode: BaseFlowNodeWithConnector = {
+    defaultConnector: {
+      targetReference: "Target1",
+      processMetadataValues: [],
+    },
+    faultConnector: {
+      targetReference: "Target2",
+      processMetadataValues: [],
+    },
+    rules: [
+      {
+        name: "Rule1",
+        processMetadataValues: [],
+        conditionLogic: "and",
+        conditions: [],
+        label: "Rule 1",
+      } as FlowRule,
+      {
+        name: "Rule2",
+        processMetadataValues: [],
+        connector: {
+          targetReference: "Target3",
+          processMetadataValues: [],
+        },
+        conditionLogic: "and",
+        conditions: [],
+        label: "Rule 2",
+      } as FlowRule,
+    ],
+    waitEvents: [
+      {
+        name: "Event1",
+        processMetadataValues: [],
+        connector: {
+          targetReference: "Target4",
+          processMetadataValues: [],
+        },
+        conditions: [],
+        filters: [],
+        inputParameters: [],
+        label: "Event 1",
+        outputParameters: [],
+      } as FlowWaitEvent,
+    ],
+  };
+
+  const connectors = getTypedConnectors(mockNode);
+
+  assertEquals(
+    connectors.map(({ kind, path, branch }) => ({ kind, path, branch })),
+    [
+      { kind: "default", path: "defaultConnector", branch: undefined },
+      { kind: "fault", path: "faultConnector", branch: undefined },
+      { kind: "rule", path: "rules[1].connector", branch: "Rule2" },
+      { kind: "waitEvent", path: "waitEvents[0].connector", branch: "Event1" },
+    ],
+  );
+  // Connectors are the same objects as returned by getConnectors
+  assertEquals(
+    connectors.map((typed) => typed.connector),
+    getConnectors(mockNode),
+  );
+});
+
 // Test for findParentFlowNodes with multiple parents
 Deno.test("findParentFlowNodes should find multiple parent nodes", () => {
   // Create a mock flow with multiple parents pointing to the same child
@@ -437,3 +509,360 @@ Deno.test("reparentNode should handle case with no parents", () => {
   // Check that the unrelated node still points to the original target
   assertEquals(unrelatedNode.connector?.targetReference, "SomeOtherNode");
 });
+
+// Helper function to create a flow for removeNode tests
+function createRemovalFlow(): Flow {
+  const connectTo = (targetReference: string) => ({
+    targetReference,
+    processMetadataValues: [],
+  });
+  return {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: connectTo("Check"),
+      scheduledPaths: [{ name: "Later", connector: connectTo("Update") }],
+    },
+    decisions: [
+      {
+        name: "Check",
+        label: "Check",
+        locationX: 0,
+        locationY: 0,
+        processMetadataValues: [],
+        defaultConnector: connectTo("Done"),
+        defaultConnectorLabel: "Default",
+        rules: [
+          {
+            name: "Yes",
+            label: "Yes",
+            conditionLogic: "and",
+            conditions: [],
+            connector: connectTo("Update"),
+          },
+        ],
+      },
+    ],
+    recordUpdates: [
+      {
+        name: "Update",
+        label: "Update",
+        locationX: 0,
+        locationY: 0,
+        processMetadataValues: [],
+        filters: [],
+        inputAssignments: [],
+        connector: connectTo("Done"),
+        faultConnector: connectTo("Log_Error"),
+      },
+    ],
+    assignments: [
+      {
+        name: "Done",
+        label: "Done",
+        locationX: 0,
+        locationY: 0,
+        processMetadataValues: [],
+        assignmentItems: [],
+      },
+      {
+        name: "Log_Error",
+        label: "Log Error",
+        locationX: 0,
+        locationY: 0,
+        processMetadataValues: [],
+        assignmentItems: [],
+      },
+    ],
+  } as unknown as Flow;
+}
+
+// Test for getPrimarySuccessor function
+Deno.test("getPrimarySuccessor should prefer connector, default and no more values paths", () => {
+  const connectTo = (targetReference: string) => ({
+    targetReference,
+    processMetadataValues: [],
+  });
+  assertEquals(
+    getPrimarySuccessor({ connector: connectTo("A"), faultConnector: connectTo("B") }),
+    "A",
+  );
+  assertEquals(getPrimarySuccessor({ defaultConnector: connectTo("C") }), "C");
+  assertEquals(
+    getPrimarySuccessor({
+      nextValueConnector: connectTo("D"),
+      noMoreValuesConnector: connectTo("E"),
+    }),
+    "E",
+  );
+  assertEquals(getPrimarySuccessor({ faultConnector: connectTo("F") }), undefined);
+});
+
+// Test for removeNode function
+Deno.test("removeNode should reconnect all parents to the primary successor", () => {
+  const flow = createRemovalFlow();
+
+  const result = removeNode(flow, "Update");
+
+  assertEquals(result.removed.name, "Update");
+  assertEquals(result.collection, "recordUpdates");
+  assertEquals(flow.recordUpdates.length, 0);
+  assertEquals(result.changes, [
+    {
+      element: "$Start",
+      kind: "scheduledPath",
+      path: "start.scheduledPaths[0].connector",
+      from: "Update",
+      to: "Done",
+    },
+    {
+      element: "Check",
+      kind: "rule",
+      path: "decisions[0].rules[0].connector",
+      from: "Update",
+      to: "Done",
+    },
+  ]);
+  assertEquals(flow.start?.scheduledPaths[0].connector?.targetReference, "Done");
+  assertEquals(flow.decisions[0].rules[0].connector?.targetReference, "Done");
+});
+
+// Test for removeNode with an explicit reconnect target
+Deno.test("removeNode should reconnect parents to the given node", () => {
+  const flow = createRemovalFlow();
+
+  const result = removeNode(flow, "Done", { reconnectTo: "Log_Error" });
+
+  assertEquals(result.changes.map((change) => change.path), [
+    "decisions[0].defaultConnector",
+    "recordUpdates[0].connector",
+  ]);
+  assertEquals(flow.decisions[0].defaultConnector?.targetReference, "Log_Error");
+  assertEquals(flow.recordUpdates[0].connector?.targetReference, "Log_Error");
+  assertEquals(flow.assignments.map((node) => node.name), ["Log_Error"]);
+});
+
+// Test for removeNode without a successor
+Deno.test("removeNode should remove parent connectors when there is no successor", () => {
+  const flow = createRemovalFlow();
+
+  const result = removeNode(flow, "Log_Error");
+
+  assertEquals(result.changes, [
+    {
+      element: "Update",
+      kind: "fault",
+      path: "recordUpdates[0].faultConnector",
+      from: "Log_Error",
+    },
+  ]);
+  assertEquals(flow.recordUpdates[0].faultConnector, undefined);
+  assertEquals(flow.recordUpdates[0].connector?.targetReference, "Done");
+
+  // reconnectTo: null removes connectors even if there is a successor
+  removeNode(flow, "Update", { reconnectTo: null });
+  assertEquals(flow.decisions[0].rules[0].connector, undefined);
+  assertEquals(flow.start?.scheduledPaths[0].connector, undefined);
+});
+
+// Test for removeNode error handling
+Deno.test("removeNode should throw for missing nodes and reconnect targets", () => {
+  const flow = createRemovalFlow();
+
+  assertThrows(() => removeNode(flow, "Missing"), Error, "Node not found: Missing");
+  assertThrows(
+    () => removeNode(flow, "Update", { reconnectTo: "Missing" }),
+    Error,
+    "Node not found: Missing",
+  );
+  assertThrows(
+    () => removeNode(flow, "Update", { reconnectTo: "Update" }),
+    Error,
+    "Cannot reconnect node Update to itself",
+  );
+  assertEquals(flow.recordUpdates.length, 1);
+});
+
+// Helper function to create an assignment node for insert tests
+function createAssignment(name: string): FlowAssignment {
+  return {
+    name,
+    label: name,
+    locationX: 0,
+    locationY: 0,
+    processMetadataValues: [],
+    assignmentItems: [],
+  };
+}
+
+// Test for inferNodeCollection function
+Deno.test("inferNodeCollection should determine the collection from node properties", () => {
+  assertEquals(inferNodeCollection({ rules: [] }), "decisions");
+  assertEquals(inferNodeCollection({ fields: [], rules: [] }), "screens");
+  assertEquals(inferNodeCollection({ assignmentItems: [] }), "assignments");
+  assertEquals(inferNodeCollection({ flowName: "Sub", inputAssignments: [] }), "subflows");
+  assertEquals(inferNodeCollection({ filters: [], inputAssignments: [] }), "recordUpdates");
+  assertEquals(inferNodeCollection({ inputAssignments: [] }), "recordCreates");
+  assertEquals(inferNodeCollection({ name: "Rollback" }), undefined);
+});
+
+// Test for insertNodeBefore function
+Deno.test("insertNodeBefore should reroute all parents to the new node", () => {
+  const flow = createRemovalFlow();
+
+  const result = insertNodeBefore(flow, "Done", createAssignment("Prepare"));
+
+  assertEquals(result.collection, "assignments");
+  assertEquals(flow.assignments.map((node) => node.name), [
+    "Done",
+    "Log_Error",
+    "Prepare",
+  ]);
+  assertEquals(result.changes, [
+    {
+      element: "Check",
+      kind: "default",
+      path: "decisions[0].defaultConnector",
+      from: "Done",
+      to: "Prepare",
+    },
+    {
+      element: "Update",
+      kind: "connector",
+      path: "recordUpdates[0].connector",
+      from: "Done",
+      to: "Prepare",
+    },
+    {
+      element: "Prepare",
+      kind: "connector",
+      path: "assignments[2].connector",
+      to: "Done",
+    },
+  ]);
+  assertEquals(flow.assignments[2].connector?.targetReference, "Done");
+});
+
+// Test for insertNodeBefore with a decision that is already connected
+Deno.test("insertNodeBefore should keep existing connectors of the new node", () => {
+  const flow = createRemovalFlow();
+  const decision = {
+    name: "Gate",
+    label: "Gate",
+    locationX: 0,
+    locationY: 0,
+    processMetadataValues: [],
+    defaultConnector: { targetReference: "Log_Error", processMetadataValues: [] },
+    rules: [
+      {
+        name: "Pass",
+        label: "Pass",
+        conditionLogic: "and",
+        conditions: [],
+        connector: { targetReference: "Update", processMetadataValues: [] },
+      },
+    ],
+  } as unknown as FlowDecision;
+
+  const result = insertNodeBefore(flow, "Update", decision);
+
+  assertEquals(result.collection, "decisions");
+  assertEquals(result.changes.length, 2);
+  assertEquals(flow.decisions[1].defaultConnector?.targetReference, "Log_Error");
+  assertEquals(flow.decisions[1].rules[0].connector?.targetReference, "Update");
+  assertEquals(flow.decisions[0].rules[0].connector?.targetReference, "Gate");
+});
+
+// Test for insertNodeAfter function
+Deno.test("insertNodeAfter should insert on the primary connector by default", () => {
+  const flow = createRemovalFlow();
+
+  const result = insertNodeAfter(flow, "Update", createAssignment("Audit"));
+
+  assertEquals(result.changes, [
+    {
+      element: "Update",
+      kind: "connector",
+      path: "recordUpdates[0].connector",
+      from: "Done",
+      to: "Audit",
+    },
+    {
+      element: "Audit",
+      kind: "connector",
+      path: "assignments[2].connector",
+      to: "Done",
+    },
+  ]);
+  assertEquals(flow.recordUpdates[0].faultConnector?.targetReference, "Log_Error");
+});
+
+// Test for insertNodeAfter on fault connectors, rules and the start node
+Deno.test("insertNodeAfter should insert on the chosen connector", () => {
+  const flow = createRemovalFlow();
+
+  insertNodeAfter(flow, "Update", createAssignment("On_Fault"), {
+    via: "faultConnector",
+  });
+  assertEquals(flow.recordUpdates[0].faultConnector?.targetReference, "On_Fault");
+  assertEquals(flow.assignments[2].connector?.targetReference, "Log_Error");
+
+  const ruleResult = insertNodeAfter(flow, "Check", createAssignment("On_Yes"), {
+    via: "Yes",
+  });
+  assertEquals(ruleResult.changes[0].kind, "rule");
+  assertEquals(ruleResult.changes[0].path, "decisions[0].rules[0].connector");
+  assertEquals(flow.decisions[0].rules[0].connector?.targetReference, "On_Yes");
+  assertEquals(flow.assignments[3].connector?.targetReference, "Update");
+
+  insertNodeAfter(flow, "$Start", createAssignment("First"));
+  assertEquals(flow.start?.connector?.targetReference, "First");
+  assertEquals(flow.assignments[4].connector?.targetReference, "Check");
+
+  // A missing connector is created and the new node stays unconnected
+  const lastResult = insertNodeAfter(flow, "Done", createAssignment("Last"));
+  assertEquals(lastResult.changes, [
+    {
+      element: "Done",
+      kind: "connector",
+      path: "assignments[0].connector",
+      to: "Last",
+    },
+  ]);
+  assertEquals(flow.assignments[5].connector, undefined);
+});
+
+// Test for insert error handling
+Deno.test("insert functions should not modify the flow when they fail", () => {
+  const flow = createRemovalFlow();
+  const before = JSON.stringify(flow);
+
+  assertThrows(
+    () => insertNodeBefore(flow, "Missing", createAssignment("New")),
+    Error,
+    "Node not found: Missing",
+  );
+  assertThrows(
+    () => insertNodeBefore(flow, "Done", createAssignment("update")),
+    Error,
+    "Element name already in use: update",
+  );
+  assertThrows(
+    () => insertNodeBefore(flow, "Done", { name: "Rollback" } as FlowNode),
+    Error,
+    "Cannot determine collection of node Rollback",
+  );
+  assertThrows(
+    () => insertNodeAfter(flow, "Check", createAssignment("New"), { via: "No" }),
+    Error,
+    "Connector not found: No on Check",
+  );
+  assertEquals(JSON.stringify(flow), before);
+
+  // The collection can be given explicitly
+  const result = insertNodeBefore(flow, "Done", { name: "Rollback" } as FlowNode, {
+    collection: "recordRollbacks",
+  });
+  assertEquals(result.collection, "recordRollbacks");
+  assertEquals(flow.recordRollbacks[0].connector?.targetReference, "Done");
+});
@@ -0,0 +1,197 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { runFlow } from "../lib/interpreter.ts";
+import { RecordStore } from "../lib/records.ts";
+import {
+  connector,
+  recordCreate,
+  recordDelete,
+  recordLookup,
+  recordRollback,
+  recordUpdate,
+  ref,
+} from "../lib/builders.ts";
+
+// Helper function to create an autolaunched flow starting at the given node
+function createFlow(target: string, properties: Partial<Flow>): Flow {
+  return {
+    label: "Accounts",
+    processType: "AutoLaunchedFlow",
+    start: { locationX: 0, locationY: 0, connector: connector(target) },
+    ...properties,
+  } as unknown as Flow;
+}
+
+// Helper function to create a store with three accounts
+function createStore(): RecordStore {
+  return RecordStore.fromJSON(JSON.stringify({
+    Account: [
+      { Id: "001A", Name: "Acme", Rating: "Warm", Employees: 50 },
+      { Id: "001B", Name: "Globex", Rating: "Hot", Employees: 500 },
+      { Id: "001C", Name: "Initech", Rating: "Warm", Employees: 200 },
+    ],
+  }));
+}
+
+Deno.test("RecordStore should run record lookups with filters and sorting", () => {
+  const flow = createFlow("Get_Warm", {
+    variables: [
+      { name: "accounts", dataType: "SObject", isCollection: "true" },
+      { name: "biggestName", dataType: "String" },
+    ],
+    recordLookups: [
+      recordLookup("Get_Warm", "Account")
+        .filter("Rating", "EqualTo", "Warm")
+        .filter("Employees", "GreaterThan", 10)
+        .fields("Name")
+        .sort("Employees", "Desc")
+        .all()
+        .outputTo("accounts")
+        .connectTo("Get_Biggest")
+        .build(),
+      {
+        ...recordLookup("Get_Biggest", "Account").sort("Employees", "Desc")
+          .build(),
+        storeOutputAutomatically: false,
+        outputAssignments: [
+          { field: "Name", assignToReference: "biggestName" },
+        ],
+      },
+    ],
+  } as unknown as Partial<Flow>);
+
+  const result = runFlow(flow, { handlers: createStore().handlers() });
+  assertEquals(result.status, "completed");
+  assertEquals(result.variables.accounts, [
+    { Id: "001C", Name: "Initech" },
+    { Id: "001A", Name: "Acme" },
+  ]);
+  assertEquals(result.variables.biggestName, "Globex");
+});
+
+Deno.test("RecordStore should create, update and delete records", () => {
+  const flow = createFlow("Create_Contact", {
+    variables: [{ name: "contactId", dataType: "String" }],
+    recordCreates: [
+      {
+        ...recordCreate("Create_Contact", "Contact")
+          .set("LastName", "Smith")
+          .set("AccountId", "001A")
+          .connectTo("Warm_Up")
+          .build(),
+        storeOutputAutomatically: false,
+        assignRecordIdToReference: "contactId",
+      },
+    ],
+    recordUpdates: [
+      recordUpdate("Warm_Up", "Account")
+        .filter("Rating", "EqualTo", "Warm")
+        .set("Rating", "Hot")
+        .connectTo("Delete_Small")
+        .build(),
+    ],
+    recordDeletes: [
+      recordDelete("Delete_Small", "Account")
+        .filter("Employees", "LessThan", 100)
+        .build(),
+    ],
+  } as unknown as Partial<Flow>);
+
+  const store = createStore();
+  const result = runFlow(flow, { handlers: store.handlers() });
+  assertEquals(result.status, "completed");
+  assertEquals(store.records("contact"), [
+    {
+      LastName: "Smith",
+      AccountId: "001A",
+      Id: result.variables.contactId,
+    },
+  ]);
+  assertEquals(
+    store.records("Account").map((account) => [account.Name, account.Rating]),
+    [["Globex", "Hot"], ["Initech", "Hot"]],
+  );
+
+  store.rollback();
+  assertEquals(store.records("Contact"), []);
+  assertEquals(store.records("Account").length, 3);
+});
+
+Deno.test("RecordStore should write record variables and roll back", () => {
+  const flow = createFlow("Get_Acme", {
+    variables: [
+      { name: "account", dataType: "SObject", objectType: "Account" },
+      { name: "copy", dataType: "SObject", objectType: "Account" },
+    ],
+    recordLookups: [
+      recordLookup("Get_Acme", "Account")
+        .filter("Name", "EqualTo", "Acme")
+        .outputTo("account")
+        .connectTo("Rename")
+        .build(),
+    ],
+    assignments: [
+      {
+        name: "Rename",
+        assignmentItems: [
+          {
+            assignToReference: "account.Name",
+            operator: "Assign",
+            value: { stringValue: "Acme Corp" },
+          },
+          {
+            assignToReference: "copy.Name",
+            operator: "Assign",
+            value: ref("account.Name"),
+          },
+        ],
+        connector: connector("Save"),
+      },
+    ],
+    recordUpdates: [
+      recordUpdate("Save").inputReference("account").connectTo("Clone").build(),
+    ],
+    recordCreates: [
+      recordCreate("Clone").inputReference("copy").connectTo("Undo").build(),
+    ],
+    recordRollbacks: [recordRollback("Undo").build()],
+  } as unknown as Partial<Flow>);
+
+  const store = createStore();
+  store.insert("Account", { Name: "Umbrella" });
+  store.commit();
+  const result = runFlow(flow, { handlers: store.handlers() });
+  assertEquals(result.status, "completed");
+  assertEquals(
+    (result.variables.copy as { Id: string }).Id,
+    "a00000000000000002",
+  );
+  assertEquals(
+    store.records("Account").map((account) => account.Name),
+    ["Acme", "Globex", "Initech", "Umbrella"],
+  );
+  assertEquals(Object.keys(store.toJSON()), ["Account"]);
+});
+
+Deno.test("RecordStore should reject invalid fixtures and records", () => {
+  assertThrows(
+    () => RecordStore.fromJSON('{"Account": {}}'),
+    Error,
+    "Record fixture must map object names to arrays",
+  );
+  assertThrows(
+    () => createStore().insert("Contact", { Id: "001A" }),
+    Error,
+    "Duplicate record id: 001A",
+  );
+
+  const flow = createFlow("Save", {
+    variables: [{ name: "account", dataType: "SObject" }],
+    recordUpdates: [recordUpdate("Save").inputReference("account").build()],
+  } as unknown as Partial<Flow>);
+  const result = runFlow(flow, {
+    inputs: { account: { Id: "001X" } },
+    handlers: createStore().handlers(),
+  });
+  assertEquals(result.error, "Save: Record not found: 001X");
+});
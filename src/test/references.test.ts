@@ -0,0 +1,155 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { findReferences } from "../lib/references.ts";
+import {
+  assignment,
+  condition,
+  decision,
+  recordUpdate,
+  ref,
+  screen,
+  subflow,
+} from "../lib/builders.ts";
+
+// Helper function to create a flow using the recordId variable in many ways
+function createFlow(): Flow {
+  return {
+    decisions: [
+      decision("Has_Record")
+        .rule("Yes", condition("recordId", "IsNull", false), {
+          target: "Update_Record",
+        })
+        .build(),
+    ],
+    recordUpdates: [
+      recordUpdate("Update_Record", "Account")
+        .filter("Id", "EqualTo", ref("recordId"))
+        .set("Description", "Updated")
+        .connectTo("Call_Child")
+        .build(),
+    ],
+    subflows: [
+      subflow("Call_Child", "Child_Flow")
+        .input("inputId", ref("recordId"))
+        .output("outputId", "recordId")
+        .connectTo("Reset")
+        .build(),
+    ],
+    assignments: [
+      assignment("Reset").assign("recordId", "").assign(
+        "recordIdCopy",
+        ref("recordId"),
+      ).build(),
+    ],
+    screens: [
+      screen("Show").text("Message", "<p>Record {!recordId}</p>").build(),
+    ],
+    variables: [
+      { name: "recordId", dataType: "String" },
+      { name: "recordIdCopy", dataType: "String" },
+    ],
+    formulas: [
+      {
+        name: "Link",
+        dataType: "String",
+        expression: "'/' & {!recordId} & {!recordIdCopy}",
+      },
+    ],
+    textTemplates: [{ name: "Body", text: "Id: {! recordId }" }],
+  } as unknown as Flow;
+}
+
+Deno.test("findReferences should find every usage of a resource", () => {
+  const references = findReferences(createFlow(), "recordId");
+
+  assertEquals(
+    references.map(({ element, path, role }) => ({ element, path, role })),
+    [
+      {
+        element: "Has_Record",
+        path: "decisions[0].rules[0].conditions[0].leftValueReference",
+        role: "read",
+      },
+      {
+        element: "Update_Record",
+        path: "recordUpdates[0].filters[0].value.elementReference",
+        role: "read",
+      },
+      {
+        element: "Call_Child",
+        path: "subflows[0].inputAssignments[0].value.elementReference",
+        role: "read",
+      },
+      {
+        element: "Call_Child",
+        path: "subflows[0].outputAssignments[0].assignToReference",
+        role: "write",
+      },
+      {
+        element: "Reset",
+        path: "assignments[0].assignmentItems[0].assignToReference",
+        role: "write",
+      },
+      {
+        element: "Reset",
+        path: "assignments[0].assignmentItems[1].value.elementReference",
+        role: "read",
+      },
+      {
+        element: "Show",
+        path: "screens[0].fields[0].fieldText",
+        role: "read",
+      },
+      { element: "Link", path: "formulas[0].expression", role: "read" },
+      { element: "Body", path: "textTemplates[0].text", role: "read" },
+    ],
+  );
+  assertEquals(references[0].property, "leftValueReference");
+  assertEquals(references[8].reference, "recordId");
+});
+
+Deno.test("findReferences should include field references and connectors", () => {
+  const flow = {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: { targetReference: "Get_Account", processMetadataValues: [] },
+    },
+    textTemplates: [{ name: "Body", text: "{!Get_Account.Name}" }],
+  } as unknown as Flow;
+
+  assertEquals(findReferences(flow, "get_account"), [
+    {
+      element: "$Start",
+      path: "start.connector.targetReference",
+      property: "targetReference",
+      role: "read",
+      reference: "Get_Account",
+    },
+    {
+      element: "Body",
+      path: "textTemplates[0].text",
+      property: "text",
+      role: "read",
+      reference: "Get_Account.Name",
+    },
+  ]);
+  assertEquals(findReferences(flow, "Get"), []);
+});
+
+Deno.test("findReferences should skip merge fields in formula string literals", () => {
+  const flow = {
+    formulas: [
+      {
+        name: "Label",
+        dataType: "String",
+        expression: '"Use {!recordId} here" & {!recordIdCopy}',
+      },
+    ],
+  } as unknown as Flow;
+
+  assertEquals(findReferences(flow, "recordId"), []);
+  assertEquals(findReferences(flow, "recordIdCopy").map((r) => r.path), [
+    "formulas[0].expression",
+  ]);
+});
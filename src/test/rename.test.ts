@@ -0,0 +1,175 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { renameElement } from "../lib/rename.ts";
+import {
+  assignment,
+  condition,
+  decision,
+  loop,
+  recordLookup,
+  ref,
+} from "../lib/builders.ts";
+
+// Helper function to create a connector
+function connectTo(targetReference: string) {
+  return { targetReference, processMetadataValues: [] };
+}
+
+// Helper function to create a flow referencing its elements in every way
+function createReferencingFlow(): Flow {
+  return {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: connectTo("Get_Account"),
+    },
+    recordLookups: [
+      recordLookup("Get_Account", "Account")
+        .filter("Id", "EqualTo", ref("recordId"))
+        .connectTo("Check_Name")
+        .build(),
+    ],
+    decisions: [
+      decision("Check_Name")
+        .rule("Has_Name", condition("Get_Account.Name", "IsNull", false), {
+          target: "Each_Contact",
+        })
+        .build(),
+    ],
+    loops: [
+      loop("Each_Contact", "contacts").eachTo("Count").build(),
+    ],
+    assignments: [
+      assignment("Count").assign("total", ref("Get_Account.NumberOfEmployees"))
+        .connectTo("Each_Contact").build(),
+    ],
+    variables: [
+      { name: "recordId", dataType: "String", isInput: true },
+      { name: "total", dataType: "Number" },
+      { name: "contacts", dataType: "SObject", isCollection: true },
+    ],
+    formulas: [
+      {
+        name: "Greeting",
+        dataType: "String",
+        expression: "'Hello ' & {!Get_Account.Name} & {!recordId}",
+      },
+    ],
+    textTemplates: [
+      { name: "Body", text: "Account {!Get_Account.Name} ({!recordId})" },
+    ],
+  } as unknown as Flow;
+}
+
+Deno.test("renameElement should rewrite references to a node", () => {
+  const flow = createReferencingFlow();
+
+  const result = renameElement(flow, "Get_Account", "Lookup_Account");
+
+  assertEquals(result.collection, "recordLookups");
+  assertEquals(flow.recordLookups[0].name, "Lookup_Account");
+  assertEquals(flow.start?.connector?.targetReference, "Lookup_Account");
+  assertEquals(
+    flow.decisions[0].rules[0].conditions[0].leftValueReference,
+    "Lookup_Account.Name",
+  );
+  assertEquals(
+    flow.assignments[0].assignmentItems[0].value?.elementReference,
+    "Lookup_Account.NumberOfEmployees",
+  );
+  assertEquals(
+    flow.formulas[0].expression,
+    "'Hello ' & {!Lookup_Account.Name} & {!recordId}",
+  );
+  assertEquals(
+    flow.textTemplates[0].text,
+    "Account {!Lookup_Account.Name} ({!recordId})",
+  );
+  assertEquals(result.changes.map((change) => change.path), [
+    "start.connector.targetReference",
+    "decisions[0].rules[0].conditions[0].leftValueReference",
+    "assignments[0].assignmentItems[0].value.elementReference",
+    "formulas[0].expression",
+    "textTemplates[0].text",
+  ]);
+  assertEquals(result.changes[0].element, "$Start");
+});
+
+Deno.test("renameElement should rewrite references to a resource", () => {
+  const flow = createReferencingFlow();
+
+  const { changes } = renameElement(flow, "recordId", "accountId");
+
+  assertEquals(flow.variables[0].name, "accountId");
+  assertEquals(
+    flow.recordLookups[0].filters[0].value?.elementReference,
+    "accountId",
+  );
+  assertEquals(
+    flow.formulas[0].expression,
+    "'Hello ' & {!Get_Account.Name} & {!accountId}",
+  );
+  assertEquals(changes.length, 3);
+
+  renameElement(flow, "contacts", "accountContacts");
+  renameElement(flow, "total", "employeeCount");
+
+  assertEquals(flow.loops[0].collectionReference, "accountContacts");
+  assertEquals(
+    flow.assignments[0].assignmentItems[0].assignToReference,
+    "employeeCount",
+  );
+});
+
+Deno.test("renameElement should rewrite merge fields in the interview label", () => {
+  const flow = {
+    ...createReferencingFlow(),
+    interviewLabel: "Run {!recordId} {!NOW()}",
+  } as unknown as Flow;
+
+  const { changes } = renameElement(flow, "recordId", "accountId");
+
+  assertEquals(flow.interviewLabel, "Run {!accountId} {!NOW()}");
+  assertEquals(changes.at(-1), {
+    element: undefined,
+    path: "interviewLabel",
+    from: "Run {!recordId} {!NOW()}",
+    to: "Run {!accountId} {!NOW()}",
+  });
+});
+
+Deno.test("renameElement should match names case-insensitively", () => {
+  const flow = createReferencingFlow();
+
+  renameElement(flow, "RECORDID", "RecordId");
+
+  assertEquals(flow.variables[0].name, "RecordId");
+  assertEquals(
+    flow.textTemplates[0].text,
+    "Account {!Get_Account.Name} ({!RecordId})",
+  );
+});
+
+Deno.test("renameElement should reject invalid renames without changes", () => {
+  const flow = createReferencingFlow();
+  const original = structuredClone(flow);
+
+  assertThrows(
+    () => renameElement(flow, "Missing", "Other"),
+    Error,
+    "Element not found: Missing",
+  );
+  assertThrows(
+    () => renameElement(flow, "recordId", "Count"),
+    Error,
+    "Element name already in use: Count",
+  );
+  ["1st", "has space", "double__underscore", "trailing_"].forEach((name) => {
+    assertThrows(
+      () => renameElement(flow, "recordId", name),
+      Error,
+      `Invalid element name: ${name}`,
+    );
+  });
+  assertEquals(flow, original);
+});
@@ -0,0 +1,92 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { findUnusedResources, pruneUnusedResources } from "../lib/resources.ts";
+import { assignment, ref } from "../lib/builders.ts";
+
+// Helper function to create a flow with used and unused resources
+function createFlow(): Flow {
+  return {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: { targetReference: "Copy", processMetadataValues: [] },
+    },
+    assignments: [
+      assignment("Copy").assign("target", ref("Used_Formula")).build(),
+    ],
+    variables: [
+      { name: "target", dataType: "String" },
+      { name: "recordId", dataType: "String", isInput: "true" },
+      { name: "result", dataType: "String", isOutput: true },
+      { name: "orphan", dataType: "String", isInput: "false" },
+    ],
+    formulas: [
+      { name: "Used_Formula", dataType: "String", expression: "{!Greeting}" },
+      {
+        name: "Unused_Formula",
+        dataType: "String",
+        expression: "{!Unused_Template} & {!Unused_Formula}",
+      },
+    ],
+    constants: [{ name: "Max_Count", dataType: "Number" }],
+    textTemplates: [
+      { name: "Greeting", text: "Hello" },
+      { name: "Unused_Template", text: "Bye {!target}" },
+    ],
+    choices: [{ name: "Yes_Choice", choiceText: "Yes", dataType: "String" }],
+  } as unknown as Flow;
+}
+
+Deno.test("findUnusedResources should report resources nobody uses", () => {
+  assertEquals(findUnusedResources(createFlow()), [
+    { name: "Yes_Choice", collection: "choices", path: "choices[0]" },
+    { name: "Max_Count", collection: "constants", path: "constants[0]" },
+    {
+      name: "Unused_Formula",
+      collection: "formulas",
+      path: "formulas[1]",
+    },
+    {
+      name: "Unused_Template",
+      collection: "textTemplates",
+      path: "textTemplates[1]",
+    },
+    { name: "orphan", collection: "variables", path: "variables[3]" },
+  ]);
+});
+
+Deno.test("findUnusedResources should count merge fields in the interview label", () => {
+  const flow = {
+    interviewLabel: "Run {!Customer} {!NOW()}",
+    variables: [
+      { name: "Customer", dataType: "String" },
+      { name: "orphan", dataType: "String" },
+    ],
+  } as unknown as Flow;
+
+  assertEquals(findUnusedResources(flow), [
+    { name: "orphan", collection: "variables", path: "variables[1]" },
+  ]);
+  pruneUnusedResources(flow);
+  assertEquals(flow.variables.map((variable) => variable.name), ["Customer"]);
+});
+
+Deno.test("pruneUnusedResources should remove unused resources", () => {
+  const flow = createFlow();
+
+  const removed = pruneUnusedResources(flow);
+
+  assertEquals(removed.length, 5);
+  assertEquals(flow.variables.map((variable) => variable.name), [
+    "target",
+    "recordId",
+    "result",
+  ]);
+  assertEquals(flow.formulas.map((formula) => formula.name), ["Used_Formula"]);
+  assertEquals(flow.textTemplates.map((template) => template.name), [
+    "Greeting",
+  ]);
+  assertEquals(flow.constants, []);
+  assertEquals(flow.choices, []);
+  assertEquals(findUnusedResources(flow), []);
+});
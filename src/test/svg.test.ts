@@ -0,0 +1,88 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import {
+  isAutoLayoutCanvas,
+  renderFlowHtml,
+  renderFlowSvg,
+} from "../lib/svg.ts";
+import { assignment, condition, decision } from "../lib/builders.ts";
+
+// Helper function to create a small flow in the given canvas mode
+function createFlow(canvasMode: string): Flow {
+  return {
+    label: "Size <Check>",
+    processMetadataValues: [
+      { name: "CanvasMode", value: { stringValue: canvasMode } },
+    ],
+    start: {
+      locationX: 50,
+      locationY: 0,
+      connector: { targetReference: "Check", processMetadataValues: [] },
+    },
+    decisions: [
+      decision("Check")
+        .rule("Is_Big", condition("amount", "GreaterThan", 100), {
+          label: "Big",
+          target: "Big",
+        })
+        .defaultTo("Small")
+        .location(300, 400)
+        .build(),
+    ],
+    assignments: [
+      assignment("Big").assign("size", "big").build(),
+      assignment("Small").assign("size", "small").build(),
+    ],
+  } as unknown as Flow;
+}
+
+Deno.test("isAutoLayoutCanvas should read the CanvasMode metadata value", () => {
+  assertEquals(isAutoLayoutCanvas(createFlow("AUTO_LAYOUT_CANVAS")), true);
+  assertEquals(isAutoLayoutCanvas(createFlow("FREE_FORM_CANVAS")), false);
+  assertEquals(isAutoLayoutCanvas({} as Flow), false);
+});
+
+Deno.test("renderFlowSvg should draw free-form flows at their locations", () => {
+  const svg = renderFlowSvg(createFlow("FREE_FORM_CANVAS"));
+
+  assertStringIncludes(svg, '<svg xmlns="http://www.w3.org/2000/svg"');
+  assertStringIncludes(svg, "<title>Size &lt;Check&gt;</title>");
+  assertStringIncludes(
+    svg,
+    '<g class="node" data-name="Check" data-collection="decisions" transform="translate(300 400)"',
+  );
+  assertStringIncludes(svg, ">Big</text>");
+  assertStringIncludes(svg, ">Default Outcome</text>");
+  assertEquals(svg.match(/<g class="node"/g)?.length, 4);
+  assertEquals(svg.match(/<line class="edge"/g)?.length, 3);
+});
+
+Deno.test("renderFlowSvg should lay out auto-layout flows", () => {
+  const svg = renderFlowSvg(createFlow("AUTO_LAYOUT_CANVAS"));
+
+  assertStringIncludes(
+    svg,
+    'data-name="$Start" data-collection="start" transform="translate(160 50)"',
+  );
+  assertStringIncludes(
+    svg,
+    'data-name="Check" data-collection="decisions" transform="translate(160 200)"',
+  );
+  assertStringIncludes(
+    svg,
+    'data-name="Small" data-collection="assignments" transform="translate(50 350)"',
+  );
+  assertStringIncludes(
+    svg,
+    'data-name="Big" data-collection="assignments" transform="translate(270 350)"',
+  );
+});
+
+Deno.test("renderFlowHtml should embed the SVG and element properties", () => {
+  const html = renderFlowHtml(createFlow("AUTO_LAYOUT_CANVAS"));
+
+  assertStringIncludes(html, "<!DOCTYPE html>");
+  assertStringIncludes(html, '<svg xmlns="http://www.w3.org/2000/svg"');
+  assertStringIncludes(html, '"Check":{"name":"Check"');
+  assertEquals(/\b(src|href)=/.test(html), false);
+});
@@ -0,0 +1,140 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import { hasErrors, validateFlow } from "../lib/validation.ts";
+import { parse } from "../lib/flow.ts";
+import { flowSingleDecision } from "./mock/flow.mock.ts";
+
+// Helper function to create a connector
+function connectTo(targetReference: string) {
+  return { targetReference, processMetadataValues: [] };
+}
+
+// Helper function to create a minimal node
+function createNode(name: string, connector?: string) {
+  return {
+    name,
+    label: name,
+    locationX: 0,
+    locationY: 0,
+    processMetadataValues: [],
+    assignmentItems: [],
+    ...(connector ? { connector: connectTo(connector) } : {}),
+  };
+}
+
+Deno.test("validateFlow should return no errors for a valid flow", () => {
+  const flow = {
+    start: { locationX: 0, locationY: 0, connector: connectTo("First") },
+    assignments: [createNode("First", "Second"), createNode("Second")],
+  } as unknown as Flow;
+
+  const diagnostics = validateFlow(flow);
+
+  assertEquals(hasErrors(diagnostics), false);
+  assertEquals(diagnostics, [
+    {
+      code: "no-outgoing-path",
+      severity: "info",
+      element: "Second",
+      path: "assignments[1]",
+      message: 'Element "Second" has no outgoing connector',
+    },
+  ]);
+});
+
+Deno.test("validateFlow should report dangling connector targets", () => {
+  const diagnostics = validateFlow(parse(flowSingleDecision));
+  const errors = diagnostics.filter((d) => d.severity === "error");
+
+  assertEquals(errors.length, 1);
+  assertEquals(errors[0].code, "dangling-target");
+  assertEquals(errors[0].element, "Run");
+  assertEquals(
+    errors[0].path,
+    "decisions[0].rules[0].connector.targetReference",
+  );
+  assertEquals(hasErrors(diagnostics), true);
+});
+
+Deno.test("validateFlow should report duplicate names across collections", () => {
+  const flow = {
+    start: { locationX: 0, locationY: 0, connector: connectTo("Total") },
+    assignments: [createNode("Total")],
+    variables: [{ name: "total", dataType: "Number" }],
+    processMetadataValues: [{ name: "Total" }],
+  } as unknown as Flow;
+
+  const duplicates = validateFlow(flow).filter((d) =>
+    d.code === "duplicate-name"
+  );
+
+  assertEquals(duplicates.length, 1);
+  assertEquals(duplicates[0].element, "total");
+  assertEquals(duplicates[0].path, "variables[0].name");
+  assertEquals(duplicates[0].severity, "error");
+});
+
+Deno.test("validateFlow should report unreachable elements", () => {
+  const flow = {
+    start: { locationX: 0, locationY: 0, connector: connectTo("First") },
+    assignments: [
+      createNode("First"),
+      createNode("Orphan", "Orphan_Child"),
+      createNode("Orphan_Child"),
+    ],
+  } as unknown as Flow;
+
+  const unreachable = validateFlow(flow).filter((d) =>
+    d.code === "unreachable-element"
+  );
+
+  assertEquals(unreachable.map((d) => d.element), ["Orphan", "Orphan_Child"]);
+  assertEquals(unreachable[0].path, "assignments[1]");
+  assertEquals(unreachable[0].severity, "warning");
+});
+
+Deno.test("validateFlow should check startElementReference of legacy flows", () => {
+  const flow = {
+    startElementReference: "Missing",
+    assignments: [createNode("First")],
+  } as unknown as Flow;
+
+  const diagnostics = validateFlow(flow);
+  const dangling = diagnostics.filter((d) => d.code === "dangling-target");
+
+  assertEquals(dangling.length, 1);
+  assertEquals(dangling[0].path, "startElementReference");
+  assertEquals(
+    diagnostics.filter((d) => d.code === "unreachable-element").length,
+    1,
+  );
+});
+
+Deno.test("validateFlow should report formulas with syntax errors", () => {
+  const flow = {
+    start: {
+      locationX: 0,
+      locationY: 0,
+      connector: connectTo("First"),
+      filterFormula: "ISCHANGED({!$Record.Status})",
+    },
+    assignments: [createNode("First")],
+    formulas: [
+      { name: "Total", dataType: "Number", expression: "{!Amount} * (1 +" },
+    ],
+  } as unknown as Flow;
+
+  const diagnostics = validateFlow(flow).filter((d) =>
+    d.code === "invalid-formula"
+  );
+
+  assertEquals(diagnostics, [
+    {
+      code: "invalid-formula",
+      severity: "error",
+      element: "Total",
+      path: "formulas[0].expression",
+      message: "Invalid formula at position 16: Expected a value, found end",
+    },
+  ]);
+});
@@ -0,0 +1,143 @@
+import { assertEquals } from "@std/assert";
+import type { Flow } from "@salesforce/types/metadata";
+import {
+  coerceFlowValues,
+  coerceValue,
+  formatFlowValues,
+  formatProperties,
+  formatTemporal,
+  parseTemporal,
+} from "../lib/values.ts";
+
+Deno.test("coerceValue should convert text to primitive schema types", () => {
+  assertEquals(coerceValue("176", "number"), 176);
+  assertEquals(coerceValue("63.0", "double"), 63);
+  assertEquals(coerceValue("true", "boolean"), true);
+  assertEquals(coerceValue("false", "boolean"), false);
+  assertEquals(coerceValue(123, "string"), "123");
+  assertEquals(coerceValue("00123", "string"), "00123");
+  assertEquals(coerceValue("5", "double"), 5);
+  assertEquals(coerceValue("0.25", "double"), 0.25);
+  assertEquals(coerceValue("abc", "number"), "abc");
+  assertEquals(coerceValue("", "number"), "");
+  assertEquals(coerceValue("yes", "boolean"), "yes");
+});
+
+Deno.test("coerceFlowValues should type nested properties and keep unknown ones", () => {
+  const flow = coerceFlowValues({
+    apiVersion: "60.0",
+    decisions: [{
+      name: "Check",
+      locationX: "176",
+      rules: [{
+        name: "Yes",
+        doesRequireRecordChangedToMeetCriteria: "false",
+        conditions: [{
+          leftValueReference: "code",
+          operator: "EqualTo",
+          rightValue: { stringValue: 42 },
+        }],
+      }],
+    }],
+    processMetadataValues: [{
+      name: "Origin",
+      value: { booleanValue: "true" },
+    }],
+    customFutureElement: "1",
+  } as unknown as Flow);
+
+  assertEquals(flow.apiVersion, 60);
+  assertEquals(flow.decisions[0].locationX, 176);
+  assertEquals(
+    flow.decisions[0].rules[0].doesRequireRecordChangedToMeetCriteria,
+    false,
+  );
+  assertEquals(flow.decisions[0].rules[0].conditions[0].rightValue, {
+    stringValue: "42",
+  });
+  assertEquals(flow.processMetadataValues[0].value?.booleanValue, true);
+  assertEquals(
+    (flow as unknown as { customFutureElement: string }).customFutureElement,
+    "1",
+  );
+});
+
+Deno.test("formatFlowValues should write doubles with a decimal", () => {
+  const flow = {
+    apiVersion: 63,
+    decisions: [{ name: "Check", locationX: 176 }],
+    constants: [{ name: "Rate", value: { numberValue: 0.25 } }],
+  } as unknown as Flow;
+
+  assertEquals(formatFlowValues(flow), {
+    apiVersion: "63.0",
+    decisions: [{ name: "Check", locationX: 176 }],
+    constants: [{ name: "Rate", value: { numberValue: "0.25" } }],
+  } as unknown as Flow);
+  assertEquals(flow.apiVersion, 63);
+  assertEquals(
+    formatProperties({ numberValue: 5 }, "FlowElementReferenceOrValue"),
+    { numberValue: "5.0" },
+  );
+});
+
+Deno.test("coerceValue should revive ISO dates and times as Date values", () => {
+  assertEquals(
+    coerceValue("2024-01-31", "date"),
+    new Date("2024-01-31T00:00:00.000Z"),
+  );
+  assertEquals(
+    coerceValue("2024-01-31T10:30:00.000Z", "datetime"),
+    new Date("2024-01-31T10:30:00.000Z"),
+  );
+  assertEquals(
+    coerceValue("06:00:00.000Z", "time"),
+    new Date("1970-01-01T06:00:00.000Z"),
+  );
+  // Text that would not be written back unchanged stays a string
+  assertEquals(
+    coerceValue("2024-01-31T10:30:00Z", "datetime"),
+    "2024-01-31T10:30:00Z",
+  );
+  assertEquals(coerceValue("2024-02-30", "date"), "2024-02-30");
+  assertEquals(
+    coerceValue("{!$Flow.CurrentDate}", "date"),
+    "{!$Flow.CurrentDate}",
+  );
+});
+
+Deno.test("parseTemporal and formatTemporal should round-trip ISO text", () => {
+  assertEquals(parseTemporal("2024-13-01", "date"), undefined);
+  assertEquals(parseTemporal("2024-02-30", "date"), undefined);
+  assertEquals(parseTemporal("2024-02-30T10:00:00Z", "datetime"), undefined);
+  assertEquals(parseTemporal("10:00", "date"), undefined);
+  const date = new Date("2024-01-31T10:30:00.000Z");
+  assertEquals(formatTemporal(date, "date"), "2024-01-31");
+  assertEquals(formatTemporal(date, "datetime"), "2024-01-31T10:30:00.000Z");
+  assertEquals(formatTemporal(date, "time"), "10:30:00.000Z");
+  assertEquals(
+    formatProperties({
+      dateValue: new Date("2024-01-31T00:00:00.000Z"),
+      dateTimeValue: date,
+    }, "FlowElementReferenceOrValue"),
+    { dateValue: "2024-01-31", dateTimeValue: "2024-01-31T10:30:00.000Z" },
+  );
+});
+
+Deno.test("coerceValue should keep numbers that would not be written back unchanged", () => {
+  assertEquals(coerceValue("1.50", "double"), "1.50");
+  assertEquals(coerceValue("63.00", "double"), "63.00");
+  assertEquals(
+    coerceValue("12345678901234567890", "double"),
+    "12345678901234567890",
+  );
+  assertEquals(
+    coerceValue("12345678901234567890", "number"),
+    "12345678901234567890",
+  );
+  assertEquals(coerceValue("007", "number"), "007");
+  assertEquals(
+    formatProperties({ numberValue: "1.50" }, "FlowElementReferenceOrValue"),
+    { numberValue: "1.50" },
+  );
+});